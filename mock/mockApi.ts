@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+
+type Collection = Record<string, unknown>;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+function readRaw(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+const FILE_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+};
+
+function send(res: ServerResponse, status: number, body?: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(body === undefined ? "" : JSON.stringify(body));
+}
+
+export function createStore(dir: string) {
+  const file = (name: string) => path.join(dir, `${name}.json`);
+
+  const read = (name: string): Collection => {
+    try {
+      return JSON.parse(fs.readFileSync(file(name), "utf8")) as Collection;
+    } catch {
+      return {};
+    }
+  };
+
+  const write = (name: string, data: Collection) => {
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(file(name), JSON.stringify(data, null, 2));
+  };
+
+  // Binary uploads (guest photos) live next to the collections, under files/.
+  const filePath = (name: string) => path.join(dir, "files", name);
+
+  const readFile = (name: string) => {
+    try {
+      return fs.readFileSync(filePath(name));
+    } catch {
+      return null;
+    }
+  };
+
+  const writeFile = (name: string, data: Buffer) => {
+    fs.mkdirSync(path.join(dir, "files"), { recursive: true });
+    fs.writeFileSync(filePath(name), data);
+  };
+
+  const removeFile = (name: string) => fs.rmSync(filePath(name), { force: true });
+
+  return { read, write, readFile, writeFile, removeFile };
+}
+
+export function mockApi({ prefix = "/api", dir = ".mock-data" } = {}): Plugin {
+  return {
+    name: "caresse-mock-api",
+    apply: "serve",
+    configureServer(server) {
+      const store = createStore(path.resolve(server.config.root, dir));
+
+      server.middlewares.use(prefix, async (req, res) => {
+        const [name, rawId] = (req.url ?? "").split("?")[0].split("/").filter(Boolean);
+        const id = rawId ? decodeURIComponent(rawId) : undefined;
+        if (!name || !/^[\w-]+$/.test(name)) return send(res, 404, { error: "Unknown collection" });
+
+        try {
+          if (name === "files") {
+            const type = id && /^[\w-]+\.\w+$/.test(id) ? FILE_TYPES[path.extname(id).toLowerCase()] : undefined;
+            if (!id || !type) return send(res, 404, { error: "Unknown file" });
+
+            if (req.method === "GET") {
+              const data = store.readFile(id);
+              if (!data) return send(res, 404, { error: "Not found" });
+              res.statusCode = 200;
+              res.setHeader("Content-Type", type);
+              return res.end(data);
+            }
+            if (req.method === "PUT") {
+              store.writeFile(id, await readRaw(req));
+              return send(res, 200, { url: `${prefix}/files/${id}` });
+            }
+            if (req.method === "DELETE") {
+              store.removeFile(id);
+              return send(res, 204);
+            }
+            return send(res, 405, { error: "Method not allowed" });
+          }
+
+          const data = store.read(name);
+
+          if (req.method === "GET") {
+            if (!id) return send(res, 200, data);
+            return id in data ? send(res, 200, data[id]) : send(res, 404, { error: "Not found" });
+          }
+
+          if (req.method === "PUT" && id) {
+            data[id] = JSON.parse(await readBody(req));
+            store.write(name, data);
+            return send(res, 200, data[id]);
+          }
+
+          if (req.method === "DELETE" && id) {
+            delete data[id];
+            store.write(name, data);
+            return send(res, 204);
+          }
+
+          return send(res, 405, { error: "Method not allowed" });
+        } catch (err) {
+          return send(res, 400, { error: err instanceof Error ? err.message : String(err) });
+        }
+      });
+    },
+  };
+}
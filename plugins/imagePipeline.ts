@@ -0,0 +1,134 @@
+import fs from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+import type { Plugin } from "vite";
+
+type Format = "avif" | "webp" | "jpeg";
+
+type Manifest = {
+  widths: number[];
+  quality: Record<Format, number>;
+  images: Record<string, string>;
+};
+
+type Processed = {
+  id: string;
+  width: number;
+  height: number;
+  placeholder: string;
+  variants: Record<Format, Array<{ file: string; width: number }>>;
+};
+
+const FORMATS: Format[] = ["avif", "webp", "jpeg"];
+const EXT: Record<Format, string> = { avif: "avif", webp: "webp", jpeg: "jpg" };
+
+const VIRTUAL_ID = "virtual:local-images";
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+function readManifest(file: string): Manifest {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8")) as Partial<Manifest>;
+  if (!Array.isArray(raw.widths) || raw.widths.some((w) => !Number.isInteger(w) || w <= 0)) {
+    throw new Error(`${file}: "widths" must be a list of positive integers`);
+  }
+  if (!raw.images || typeof raw.images !== "object") throw new Error(`${file}: "images" must map photo ids to files`);
+  return {
+    widths: [...raw.widths].sort((a, b) => a - b),
+    quality: { avif: 55, webp: 78, jpeg: 82, ...raw.quality },
+    images: raw.images,
+  };
+}
+
+function isFresh(out: string, src: string) {
+  try {
+    return fs.statSync(out).mtimeMs >= fs.statSync(src).mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+async function processImage(id: string, src: string, manifest: Manifest, outDir: string): Promise<Processed> {
+  const meta = await sharp(src).rotate().metadata();
+  const upright = (meta.orientation ?? 1) >= 5;
+  const width = (upright ? meta.height : meta.width) ?? 0;
+  const height = (upright ? meta.width : meta.height) ?? 0;
+  if (!width || !height) throw new Error(`Could not read dimensions of ${src}`);
+
+  const widths = manifest.widths.filter((w) => w < width);
+  widths.push(Math.min(width, manifest.widths[manifest.widths.length - 1] ?? width));
+
+  const lqip = await sharp(src).rotate().resize({ width: 24 }).webp({ quality: 40 }).toBuffer();
+  const placeholder = `data:image/webp;base64,${lqip.toString("base64")}`;
+
+  const variants = { avif: [], webp: [], jpeg: [] } as Processed["variants"];
+  for (const w of [...new Set(widths)]) {
+    for (const f of FORMATS) {
+      const file = path.join(outDir, `${id}-${w}.${EXT[f]}`);
+      if (!isFresh(file, src)) {
+        await sharp(src)
+          .rotate()
+          .resize({ width: w, withoutEnlargement: true })
+          .toFormat(f, { quality: manifest.quality[f], ...(f === "jpeg" ? { mozjpeg: true } : {}) })
+          .toFile(file);
+      }
+      variants[f].push({ file, width: w });
+    }
+  }
+
+  return { id, width, height, placeholder, variants };
+}
+
+function toModule(images: Processed[]) {
+  const imports: string[] = [];
+  const entries = images.map((img) => {
+    const variants = FORMATS.map((f) => {
+      const list = img.variants[f].map((v) => {
+        const name = `img${imports.length}`;
+        imports.push(`import ${name} from ${JSON.stringify(v.file)};`);
+        return `[${name}, ${v.width}]`;
+      });
+      return `${f}: [${list.join(", ")}]`;
+    });
+    return `  ${JSON.stringify(img.id)}: { width: ${img.width}, height: ${img.height}, placeholder: ${JSON.stringify(img.placeholder)}, variants: { ${variants.join(", ")} } },`;
+  });
+  return `${imports.join("\n")}\n\nexport const LOCAL_IMAGES = {\n${entries.join("\n")}\n};\n`;
+}
+
+export function imagePipeline({
+  manifest = "images/manifest.json",
+  cacheDir = "node_modules/.cache/caresse-images",
+} = {}): Plugin {
+  let root = process.cwd();
+
+  return {
+    name: "caresse-image-pipeline",
+    configResolved(config) {
+      root = config.root;
+    },
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : undefined;
+    },
+    async load(id) {
+      if (id !== RESOLVED_ID) return undefined;
+
+      const manifestPath = path.resolve(root, manifest);
+      const outDir = path.resolve(root, cacheDir);
+      const m = readManifest(manifestPath);
+      this.addWatchFile(manifestPath);
+      fs.mkdirSync(outDir, { recursive: true });
+
+      const processed: Processed[] = [];
+      for (const [photoId, rel] of Object.entries(m.images)) {
+        if (!/^[\w-]+$/.test(photoId)) throw new Error(`${manifestPath}: invalid photo id "${photoId}"`);
+        const src = path.resolve(path.dirname(manifestPath), rel);
+        if (!fs.existsSync(src)) {
+          this.warn(`${photoId}: ${rel} not found, falling back to the remote image`);
+          continue;
+        }
+        this.addWatchFile(src);
+        processed.push(await processImage(photoId, src, m, outDir));
+      }
+
+      return toModule(processed);
+    },
+  };
+}
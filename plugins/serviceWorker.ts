@@ -0,0 +1,144 @@
+import crypto from "node:crypto";
+import type { Plugin } from "vite";
+
+// Gallery variants are emitted as `<photo id>-<width>.<ext>` by the image pipeline.
+const VARIANT = /^([\w-]+)-(\d+)\.(avif|webp|jpg)$/;
+
+/** Phones at the airport shouldn't download every size of every photo; bigger ones are cached as they're viewed. */
+const PRECACHE_MAX_WIDTH = 960;
+
+type Options = {
+  /** Files copied from public/ that belong to the installed app. */
+  publicFiles?: string[];
+  /** Prerendered pages besides the root, relative to `base` (e.g. "fa/"), so every language opens offline. */
+  pages?: string[];
+};
+
+function workerSource(version: string, precache: string[], fallbacks: Record<string, string>, shell: string) {
+  return `// Generated by plugins/serviceWorker.ts — do not edit.
+const VERSION = ${JSON.stringify(version)};
+const PRECACHE = ${JSON.stringify(precache)};
+const FALLBACKS = ${JSON.stringify(fallbacks)};
+const SHELL = ${JSON.stringify(shell)};
+const PRECACHE_NAME = "caresse-precache-" + VERSION;
+const RUNTIME_NAME = "caresse-runtime";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(PRECACHE_NAME).then((cache) => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("caresse-precache-") && k !== PRECACHE_NAME).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks before switching, so nobody gets a new bundle under an old page mid-visit.
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+async function fromNetwork(request) {
+  const response = await fetch(request);
+  if (response.ok || response.type === "opaque") {
+    const cache = await caches.open(RUNTIME_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function navigate(request) {
+  try {
+    return await fromNetwork(request);
+  } catch {
+    // Personal links (?g=…) share their page's HTML; the guest is picked out in the browser.
+    return (await caches.match(request, { ignoreSearch: true })) || (await caches.match(SHELL)) || Response.error();
+  }
+}
+
+async function image(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  try {
+    return await fromNetwork(request);
+  } catch {
+    // Offline and never seen at this size or format: any cached size of the same photo beats a broken image.
+    const path = new URL(request.url).pathname;
+    const fallback = FALLBACKS[path] && (await caches.match(FALLBACKS[path]));
+    return fallback || Response.error();
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || request.headers.has("range")) return;
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === "navigate") return event.respondWith(navigate(request));
+  if (request.destination === "image") return event.respondWith(image(request));
+  if (sameOrigin && PRECACHE.includes(url.pathname)) {
+    return event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+  }
+});
+`;
+}
+
+/**
+ * Emits `sw.js` for production builds: precaches the app shell (the HTML of every language, JS, CSS),
+ * the installable-app files from public/ and the smaller gallery variants, and caches everything
+ * else (remote photos included) as it is fetched.
+ */
+export function serviceWorker({ publicFiles = [], pages = [] }: Options = {}): Plugin {
+  let base = "/";
+
+  return {
+    name: "caresse-service-worker",
+    apply: "build",
+    enforce: "post",
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle(options, bundle) {
+      if (this.environment?.name === "ssr" || options.format !== "es") return;
+
+      const shell = base;
+      const files: string[] = [];
+      const variants = new Map<string, { url: string; width: number; ext: string }[]>();
+
+      for (const item of Object.values(bundle)) {
+        const url = `${base}${item.fileName}`;
+        if (item.fileName.endsWith(".map") || item.fileName === "index.html") continue;
+        if (item.type === "chunk") {
+          files.push(url);
+          continue;
+        }
+        const m = VARIANT.exec(item.names?.[0] ?? "");
+        if (m) {
+          const [, id, width, ext] = m;
+          variants.set(id, [...(variants.get(id) ?? []), { url, width: Number(width), ext }]);
+        } else {
+          files.push(url);
+        }
+      }
+
+      const fallbacks: Record<string, string> = {};
+      for (const list of variants.values()) {
+        const jpegs = list.filter((v) => v.ext === "jpg").sort((a, b) => a.width - b.width);
+        const kept = jpegs.filter((v) => v.width <= PRECACHE_MAX_WIDTH);
+        const pick = kept[kept.length - 1] ?? jpegs[0];
+        if (!pick) continue;
+        files.push(...(kept.length ? kept : [pick]).map((v) => v.url));
+        for (const v of list) if (v.url !== pick.url) fallbacks[v.url] = pick.url;
+      }
+
+      const precache = [shell, ...pages.map((p) => `${base}${p}`), ...publicFiles.map((f) => `${base}${f}`), ...files].sort();
+      const version = crypto.createHash("sha256").update(precache.join("\n")).digest("hex").slice(0, 12);
+
+      this.emitFile({ type: "asset", fileName: "sw.js", source: workerSource(version, precache, fallbacks, shell) });
+    },
+  };
+}
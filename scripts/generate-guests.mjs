@@ -0,0 +1,102 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+
+const LANGS = ["en", "fa", "de"];
+const EVENTS = ["welcome", "wedding", "farewell"];
+
+const [input = "guests.csv", output = "src/guests/guestList.ts"] = process.argv.slice(2);
+
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+const list = (v) =>
+  (v ?? "")
+    .split(";")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+function fail(line, message) {
+  console.error(`${input}:${line}: ${message}`);
+  process.exit(1);
+}
+
+const [header, ...rows] = parseCsv(fs.readFileSync(input, "utf8"));
+const col = Object.fromEntries(header.map((h, i) => [h.trim().toLowerCase(), i]));
+for (const name of ["token", "name", "party", "plus_ones", "lang", "events"]) {
+  if (!(name in col)) fail(1, `missing column "${name}"`);
+}
+
+const seen = new Set();
+const guests = rows.map((r, i) => {
+  const line = i + 2;
+  const get = (name) => (r[col[name]] ?? "").trim();
+
+  const token = get("token");
+  if (!token) fail(line, `missing token (suggestion: ${crypto.randomBytes(6).toString("base64url").toLowerCase()})`);
+  if (!/^[\w-]+$/.test(token)) fail(line, `token "${token}" may only contain letters, digits, "-" and "_"`);
+  if (seen.has(token)) fail(line, `duplicate token "${token}"`);
+  seen.add(token);
+
+  const party = list(get("party"));
+  const name = get("name") || party.join(" & ");
+  if (!name) fail(line, "needs a name or at least one party member");
+
+  const plusOnes = Number(get("plus_ones") || 0);
+  if (!Number.isInteger(plusOnes) || plusOnes < 0) fail(line, `invalid plus_ones "${get("plus_ones")}"`);
+
+  const lang = get("lang") || "en";
+  if (!LANGS.includes(lang)) fail(line, `unknown lang "${lang}" (expected ${LANGS.join(", ")})`);
+
+  const events = get("events") ? list(get("events")) : EVENTS;
+  for (const e of events) if (!EVENTS.includes(e)) fail(line, `unknown event "${e}" (expected ${EVENTS.join(", ")})`);
+
+  return { token, name, party, plusOnes, lang, events };
+});
+
+const body = `// Generated by scripts/generate-guests.mjs from ${path.basename(input)} — do not edit by hand.
+import type { Guest } from "./types";
+
+export const GUESTS: Guest[] = [
+${guests.map((g) => `  ${JSON.stringify(g)},`).join("\n")}
+];
+`;
+
+fs.writeFileSync(output, body);
+console.log(`Wrote ${guests.length} guests to ${output}`);
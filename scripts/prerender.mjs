@@ -0,0 +1,27 @@
+// Writes a static HTML page per language into dist/ from the SSR bundle of src/entry-server.tsx,
+// so link previews and crawlers see real content and metadata. Run by `npm run build`.
+import fs from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+
+const [dist = "dist", ssrDir = "node_modules/.cache/caresse-prerender"] = process.argv.slice(2);
+
+const { LANGS, SITE_URL, render } = await import(pathToFileURL(path.resolve(ssrDir, "entry-server.js")).href);
+const template = fs.readFileSync(path.resolve(dist, "index.html"), "utf8");
+
+if (!SITE_URL) {
+  console.warn("VITE_SITE_URL is not set: preview and hreflang URLs will be relative, which most link previews ignore.");
+}
+
+for (const lang of LANGS) {
+  const page = render(lang);
+  const html = template
+    .replace(/<html[^>]*>/, `<html lang="${page.lang}" dir="${page.dir}">`)
+    .replace(/<title>[\s\S]*?<\/title>/, page.head)
+    .replace('<div id="root"></div>', `<div id="root">${page.html}</div>`);
+
+  const out = path.resolve(dist, page.file);
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, html);
+  console.log(`prerendered ${lang} → ${path.relative(process.cwd(), out)}`);
+}
@@ -1,5 +1,21 @@
+import { MotionConfig } from "framer-motion";
 import CaresseInvite from "./CaresseInvite";
+import { clockFromLocation } from "./countdown/clock";
+import AdminApp from "./admin/AdminApp";
+import { defaultAdapters } from "./adapters";
+
+const clock = clockFromLocation();
+
+// `?admin` opens the organizer views instead of the invitation.
+const admin = typeof window !== "undefined" && new URLSearchParams(window.location.search).has("admin");
+const adapters = defaultAdapters();
 
 export default function App() {
-  return <CaresseInvite />;
-}
\ No newline at end of file
+  if (admin) return <AdminApp {...adapters} />;
+
+  return (
+    <MotionConfig reducedMotion="user">
+      <CaresseInvite clock={clock} adapters={adapters} />
+    </MotionConfig>
+  );
+}
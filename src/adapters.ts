@@ -0,0 +1,29 @@
+import { defaultAlbumAdapter } from "./album/adapters";
+import type { AlbumAdapter } from "./album/types";
+import { defaultRoomAdapter } from "./rooms/adapters";
+import type { RoomAdapter } from "./rooms/types";
+import { defaultRsvpAdapter } from "./rsvp/adapters";
+import type { RsvpAdapter } from "./rsvp/types";
+import { defaultSeatingAdapter } from "./seating/adapters";
+import type { SeatingAdapter } from "./seating/types";
+import { defaultTravelAdapter } from "./travel/adapters";
+import type { TravelAdapter } from "./travel/types";
+
+/** Every store the page talks to; the invitation and the organizer views share one set. */
+export type Adapters = {
+  rsvpAdapter: RsvpAdapter;
+  albumAdapter: AlbumAdapter;
+  travelAdapter: TravelAdapter;
+  roomAdapter: RoomAdapter;
+  seatingAdapter: SeatingAdapter;
+};
+
+export function defaultAdapters(): Adapters {
+  return {
+    rsvpAdapter: defaultRsvpAdapter(),
+    albumAdapter: defaultAlbumAdapter(),
+    travelAdapter: defaultTravelAdapter(),
+    roomAdapter: defaultRoomAdapter(),
+    seatingAdapter: defaultSeatingAdapter(),
+  };
+}
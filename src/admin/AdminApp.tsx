@@ -0,0 +1,179 @@
+import { useState, type FormEvent } from "react";
+import { ArrowLeft, ArrowRight, Lock, LogOut } from "lucide-react";
+import { cx } from "../lib/cx";
+import { isRtl, savedLang } from "../i18n";
+import { LOCALES } from "../locales";
+import { GUESTS } from "../guests/guestList";
+import { EVENT } from "../event";
+import type { Adapters } from "../adapters";
+import { useTheme } from "../theme/theme";
+import { themeStyle } from "../theme/tokens";
+import AlbumModeration from "../album/AlbumModeration";
+import KitchenReport from "../meals/KitchenReport";
+import RoomPlanner from "../rooms/RoomPlanner";
+import SeatingPlanner from "../seating/SeatingPlanner";
+import TransferPlanner from "../travel/TransferPlanner";
+import Dashboard from "./Dashboard";
+import { adminAccess, lockAdmin, unlockAdmin, type AdminAccess } from "./auth";
+
+const TABS = ["responses", "photos", "transfers", "kitchen", "rooms", "seating"] as const;
+
+type Tab = (typeof TABS)[number];
+
+function tabFromLocation(): Tab {
+  const tab = new URLSearchParams(window.location.search).get("admin");
+  return TABS.find((t) => t === tab) ?? "responses";
+}
+
+export default function AdminApp({
+  rsvpAdapter,
+  albumAdapter,
+  travelAdapter,
+  roomAdapter,
+  seatingAdapter,
+}: Adapters) {
+  const [lang] = useState(() => savedLang() ?? "en");
+  const [access, setAccess] = useState<AdminAccess>(adminAccess);
+  const [tab, setTab] = useState<Tab>(tabFromLocation);
+  const [passcode, setPasscode] = useState("");
+  const [wrong, setWrong] = useState(false);
+
+  const themeName = useTheme();
+  const rtl = isRtl(lang);
+  const t = LOCALES[lang];
+  const copy = t.admin;
+  const Back = rtl ? ArrowRight : ArrowLeft;
+
+  const chooseTab = (next: Tab) => {
+    setTab(next);
+    const url = new URL(window.location.href);
+    url.searchParams.set("admin", next === "responses" ? "" : next);
+    window.history.replaceState(null, "", url);
+  };
+
+  const unlock = async (e: FormEvent) => {
+    e.preventDefault();
+    const ok = await unlockAdmin(passcode);
+    setWrong(!ok);
+    if (ok) setAccess("open");
+  };
+
+  const input =
+    "w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent";
+
+  return (
+    <div dir={rtl ? "rtl" : "ltr"} lang={lang} style={themeStyle(themeName, EVENT.theme[themeName])} className="min-h-screen bg-page text-ink">
+      <div className="mx-auto max-w-6xl px-4 py-10 sm:px-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <a
+            href={window.location.pathname}
+            className="inline-flex items-center gap-2 rounded-xl px-3 py-2 text-sm font-semibold text-ink hover:bg-surface/60"
+          >
+            <Back className="h-4 w-4" />
+            {copy.back}
+          </a>
+          {access === "open" ? (
+            <button
+              type="button"
+              onClick={() => {
+                lockAdmin();
+                setAccess(adminAccess());
+              }}
+              className="inline-flex items-center gap-2 rounded-xl px-3 py-2 text-sm font-semibold text-ink hover:bg-surface/60"
+            >
+              <LogOut className="h-4 w-4" />
+              {copy.signOut}
+            </button>
+          ) : null}
+        </div>
+        <h1 className="mt-4 text-3xl font-semibold tracking-tight">{copy.title}</h1>
+
+        {access === "disabled" ? <p className="mt-6 text-muted">{copy.disabled}</p> : null}
+
+        {access === "locked" ? (
+          <form onSubmit={unlock} className="mt-6 max-w-sm space-y-3 rounded-3xl border border-ink/10 bg-surface/65 p-5 shadow-sm">
+            <div className="flex items-center gap-2 text-sm font-semibold">
+              <Lock className="h-4 w-4" />
+              {copy.signIn}
+            </div>
+            <input
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              aria-label={copy.passcode}
+              placeholder={copy.passcode}
+              autoComplete="current-password"
+              aria-invalid={wrong}
+              className={input}
+            />
+            {wrong ? <div className="text-xs font-medium text-rose-600">{copy.wrongPasscode}</div> : null}
+            <button
+              type="submit"
+              className="w-full rounded-2xl bg-ink px-5 py-3 text-sm font-semibold text-on-ink shadow hover:bg-ink/85"
+            >
+              {copy.unlock}
+            </button>
+          </form>
+        ) : null}
+
+        {access === "open" ? (
+          <>
+            <div role="tablist" className="mt-6 flex gap-2">
+              {TABS.map((id) => (
+                <button
+                  key={id}
+                  type="button"
+                  role="tab"
+                  aria-selected={tab === id}
+                  onClick={() => chooseTab(id)}
+                  className={cx(
+                    "rounded-2xl border px-4 py-2 text-sm font-semibold shadow-sm",
+                    tab === id ? "border-ink bg-ink text-on-ink" : "border-ink/10 bg-surface/70 text-ink hover:bg-surface"
+                  )}
+                >
+                  {copy.tabs[id]}
+                </button>
+              ))}
+            </div>
+            <div role="tabpanel" className="mt-8">
+              {tab === "responses" ? (
+                <Dashboard adapter={rsvpAdapter} guests={GUESTS} events={t.weekend} copy={copy} lang={lang} />
+              ) : tab === "photos" ? (
+                <AlbumModeration adapter={albumAdapter} copy={t.albumAdmin} lang={lang} />
+              ) : tab === "transfers" ? (
+                <TransferPlanner adapter={travelAdapter} guests={GUESTS} copy={t.transfersAdmin} lang={lang} />
+              ) : tab === "kitchen" ? (
+                <KitchenReport
+                  adapter={rsvpAdapter}
+                  guests={GUESTS}
+                  menu={EVENT.menu}
+                  copy={t.kitchenAdmin}
+                  mealCopy={t.meals}
+                  lang={lang}
+                />
+              ) : tab === "rooms" ? (
+                <RoomPlanner
+                  rsvpAdapter={rsvpAdapter}
+                  adapter={roomAdapter}
+                  guests={GUESTS}
+                  roomTypes={EVENT.rooms}
+                  copy={t.roomsAdmin}
+                  lang={lang}
+                />
+              ) : (
+                <SeatingPlanner
+                  rsvpAdapter={rsvpAdapter}
+                  adapter={seatingAdapter}
+                  guests={GUESTS}
+                  copy={t.seatingAdmin}
+                  lang={lang}
+                  rtl={rtl}
+                />
+              )}
+            </div>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { Download } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { AdminCopy, WeekendCopy } from "../locales/schema";
+import { EVENT_DATES, formatDate, formatDay, formatTimestamp } from "../dates";
+import { downloadText } from "../lib/download";
+import { EVENT } from "../event";
+import type { Guest } from "../guests/types";
+import { NIGHTS, type RsvpAdapter, type RsvpResponse } from "../rsvp/types";
+import { buildReport, reportToCsv, reportToJson, type ResponseStatus } from "./report";
+
+const STATUS_STYLE: Record<ResponseStatus, string> = {
+  attending: "bg-accent/15 text-accent-ink",
+  declined: "bg-ink/10 text-muted",
+  pending: "bg-amber-100 text-amber-800",
+};
+
+function Stat({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div className="rounded-3xl border border-ink/10 bg-surface/70 p-4 shadow-sm">
+      <div className="text-xs font-semibold uppercase tracking-wide text-subtle">{label}</div>
+      <div className="mt-1 text-2xl font-semibold">{value}</div>
+    </div>
+  );
+}
+
+export default function Dashboard({
+  adapter,
+  guests,
+  events,
+  copy,
+  lang,
+}: {
+  adapter: RsvpAdapter;
+  guests: Guest[];
+  events: WeekendCopy[];
+  copy: AdminCopy;
+  lang: Lang;
+}) {
+  const [responses, setResponses] = useState<Record<string, RsvpResponse> | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    adapter
+      .list()
+      .then((r) => {
+        if (live) setResponses(r);
+      })
+      .catch(() => {
+        if (live) setFailed(true);
+      });
+    return () => {
+      live = false;
+    };
+  }, [adapter]);
+
+  const report = useMemo(() => (responses ? buildReport(guests, responses) : null), [guests, responses]);
+
+  if (failed) return <div className="text-sm font-medium text-rose-600">{copy.loadFailed}</div>;
+  if (!report) return <div className="text-sm text-muted">{copy.loading}</div>;
+
+  const n = (v: number) => formatNumber(v, lang);
+  const deadline = formatDate(EVENT_DATES.rsvpDeadline, lang);
+  const stamp = new Date().toISOString().slice(0, 10);
+  const button =
+    "inline-flex items-center gap-2 rounded-2xl border border-ink/10 bg-surface/80 px-4 py-2 text-sm font-semibold shadow-sm hover:bg-surface";
+
+  return (
+    <div className="space-y-10">
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => downloadText(`${EVENT.slug}-rsvps-${stamp}.csv`, reportToCsv(report), "text/csv;charset=utf-8")}
+          className={button}
+        >
+          <Download className="h-4 w-4" />
+          {copy.exportCsv}
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadText(`${EVENT.slug}-rsvps-${stamp}.json`, reportToJson(report), "application/json")}
+          className={button}
+        >
+          <Download className="h-4 w-4" />
+          {copy.exportJson}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
+        <Stat label={copy.totals.parties} value={n(report.totals.parties)} />
+        <Stat label={copy.totals.people} value={n(report.totals.people)} />
+        <Stat label={copy.totals.attending} value={n(report.totals.attending)} />
+        <Stat label={copy.totals.declined} value={n(report.totals.declined)} />
+        <Stat label={copy.totals.pending} value={n(report.totals.pending)} />
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <section>
+          <h2 className="text-xl font-semibold">{copy.nightsTitle}</h2>
+          <div className="mt-3 grid grid-cols-2 gap-3">
+            {NIGHTS.map((night) => (
+              <Stat key={night} label={formatDay(night, lang)} value={fill(copy.guestCount, { count: n(report.nights[night]) })} />
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-xl font-semibold">{copy.eventsTitle}</h2>
+          <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3">
+            {events.map((e) => (
+              <Stat
+                key={e.event}
+                label={e.title}
+                value={
+                  <span className="text-base">
+                    {fill(copy.eventAttendance, {
+                      attending: n(report.events[e.event].attending),
+                      invited: n(report.events[e.event].invited),
+                    })}
+                  </span>
+                }
+              />
+            ))}
+          </div>
+        </section>
+      </div>
+
+      <section>
+        <h2 className="text-xl font-semibold">{copy.pendingTitle}</h2>
+        <p className={cx("mt-1 text-sm", report.pastDeadline ? "font-semibold text-rose-700" : "text-muted")}>
+          {fill(report.pastDeadline ? copy.pendingOverdue : copy.pendingOpen, { deadline })}
+        </p>
+        {report.pending.length === 0 ? (
+          <p className="mt-3 text-sm text-muted">{copy.nonePending}</p>
+        ) : (
+          <ul className="mt-3 flex flex-wrap gap-2">
+            {report.pending.map((row) => (
+              <li key={row.key} className="rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-sm text-amber-900">
+                {row.name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-xl font-semibold">{copy.guestsTitle}</h2>
+        <div className="mt-3 overflow-x-auto rounded-3xl border border-ink/10 bg-surface/70 shadow-sm">
+          <table className="w-full text-start text-sm">
+            <thead className="border-b border-ink/10 text-xs uppercase tracking-wide text-subtle">
+              <tr>
+                {(["guest", "status", "party", "nights", "note", "updated"] as const).map((c) => (
+                  <th key={c} className="px-4 py-3 text-start font-semibold">
+                    {copy.columns[c]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map((row) => {
+                const r = row.response;
+                return (
+                  <tr key={row.key} className="border-b border-ink/5 align-top last:border-0">
+                    <td className="px-4 py-3">
+                      <div className="font-semibold">{row.name}</div>
+                      {row.guest ? (
+                        <div className="text-xs text-subtle">{row.guest.party.join(" · ")}</div>
+                      ) : (
+                        <div className="text-xs text-amber-700">{copy.unlisted}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={cx("rounded-full px-2 py-0.5 text-xs font-semibold", STATUS_STYLE[row.status])}>
+                        {copy.status[row.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {r?.attending ? (
+                        <>
+                          <div>{n(r.partySize)}</div>
+                          <div className="text-xs text-subtle">{r.names.join(" · ")}</div>
+                        </>
+                      ) : null}
+                    </td>
+                    <td className="px-4 py-3">{r?.attending ? r.nights.map((night) => formatDay(night, lang)).join(" · ") : null}</td>
+                    <td className="max-w-xs px-4 py-3 text-muted">{r?.note}</td>
+                    <td className="whitespace-nowrap px-4 py-3 text-xs text-subtle">
+                      {r?.updatedAt ? formatTimestamp(new Date(r.updatedAt), lang) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
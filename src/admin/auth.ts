@@ -0,0 +1,39 @@
+// A passcode gate for the organizer views. The bundle is public, so this only keeps guests from
+// wandering in; a real backend has to enforce access to the data itself.
+const PASSCODE_SHA256 = import.meta.env.VITE_ADMIN_PASSCODE_SHA256?.trim().toLowerCase() || undefined;
+const SESSION_KEY = "wedding_admin";
+
+export type AdminAccess = "open" | "locked" | "disabled";
+
+async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Without a configured passcode the dashboard is open in dev and unavailable in production builds. */
+export function adminAccess(): AdminAccess {
+  if (!PASSCODE_SHA256) return import.meta.env.DEV ? "open" : "disabled";
+  try {
+    return window.sessionStorage.getItem(SESSION_KEY) === PASSCODE_SHA256 ? "open" : "locked";
+  } catch {
+    return "locked";
+  }
+}
+
+export async function unlockAdmin(passcode: string) {
+  if (!PASSCODE_SHA256 || (await sha256Hex(passcode)) !== PASSCODE_SHA256) return false;
+  try {
+    window.sessionStorage.setItem(SESSION_KEY, PASSCODE_SHA256);
+  } catch {
+    void 0;
+  }
+  return true;
+}
+
+export function lockAdmin() {
+  try {
+    window.sessionStorage.removeItem(SESSION_KEY);
+  } catch {
+    void 0;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { Guest } from "../guests/types";
+import type { RsvpResponse } from "../rsvp/types";
+import { RSVP_CLOSES, buildReport } from "./report";
+
+const guests: Guest[] = [
+  { token: "sara", name: "Sara & Dariush", party: ["Sara", "Dariush"], plusOnes: 0, lang: "fa", events: ["welcome", "wedding", "farewell"] },
+  { token: "jens", name: "Jens", party: ["Jens"], plusOnes: 1, lang: "de", events: ["wedding"] },
+  { token: "mina", name: "Mina", party: ["Mina"], plusOnes: 0, lang: "en", events: ["wedding", "farewell"] },
+];
+
+function reply(partySize: number, nights: RsvpResponse["nights"], attending = true): RsvpResponse {
+  return { attending, partySize, names: Array.from({ length: partySize }, (_, i) => `Guest ${i + 1}`), nights, note: "" };
+}
+
+const responses: Record<string, RsvpResponse> = {
+  sara: reply(2, ["2026-05-31", "2026-06-01"]),
+  jens: reply(1, [], false),
+  "visitor-1": reply(3, ["2026-06-01"]),
+};
+
+describe("buildReport", () => {
+  it("keeps unanswered invitations pending, separate from declines, once RSVPs have closed", () => {
+    const after = buildReport(guests, responses, new Date(RSVP_CLOSES.getTime() + 1));
+    expect(after.pastDeadline).toBe(true);
+    expect(Object.fromEntries(after.rows.map((r) => [r.key, r.status]))).toEqual({
+      sara: "attending",
+      jens: "declined",
+      mina: "pending",
+      "visitor-1": "attending",
+    });
+    expect(after.pending.map((r) => r.key)).toEqual(["mina"]);
+    expect(after.totals).toEqual({ attending: 2, declined: 1, pending: 1, parties: 4, people: 5 });
+
+    expect(buildReport(guests, responses, RSVP_CLOSES).pastDeadline).toBe(false);
+  });
+
+  it("counts attending people per resort night", () => {
+    expect(buildReport(guests, responses).nights).toEqual({ "2026-05-31": 2, "2026-06-01": 5 });
+  });
+
+  it("counts unlisted responses as invited to and attending every event", () => {
+    const { rows, events } = buildReport(guests, responses);
+    expect(rows.find((r) => r.key === "visitor-1")).toMatchObject({ guest: null, name: "Guest 1" });
+    expect(events).toEqual({
+      welcome: { invited: 2 + 3, attending: 2 + 3 },
+      wedding: { invited: 2 + 2 + 1 + 3, attending: 2 + 3 },
+      farewell: { invited: 2 + 1 + 3, attending: 2 + 3 },
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { EVENT_DATES } from "../dates";
+import { venueToUtc } from "../calendar/ics";
+import { GUEST_EVENTS, type Guest, type GuestEvent } from "../guests/types";
+import { NIGHTS, type Night, type RsvpResponse } from "../rsvp/types";
+import { csvCell } from "../lib/download";
+
+export type ResponseStatus = "attending" | "declined" | "pending";
+
+export type GuestRow = {
+  key: string;
+  /** null for responses stored under a key that is not on the guest list (e.g. the generic page). */
+  guest: Guest | null;
+  name: string;
+  status: ResponseStatus;
+  response: RsvpResponse | null;
+};
+
+/**
+ * People invited to an event, and how many of them are in parties coming to the weekend. The RSVP has no
+ * per-event answer, so `attending` is "invited and attending", not a headcount for that event.
+ */
+export type EventAttendance = { invited: number; attending: number };
+
+export type RsvpReport = {
+  rows: GuestRow[];
+  totals: Record<ResponseStatus, number> & { parties: number; people: number };
+  nights: Record<Night, number>;
+  events: Record<GuestEvent, EventAttendance>;
+  pending: GuestRow[];
+  pastDeadline: boolean;
+};
+
+/** End of the RSVP deadline day, venue time. */
+export const RSVP_CLOSES = venueToUtc(`${EVENT_DATES.rsvpDeadline}T23:59`);
+
+function invitedPeople(guest: Guest) {
+  return guest.party.length + guest.plusOnes;
+}
+
+function statusOf(r: RsvpResponse | null): ResponseStatus {
+  if (!r) return "pending";
+  return r.attending ? "attending" : "declined";
+}
+
+export function buildReport(guests: Guest[], responses: Record<string, RsvpResponse>, now = new Date()): RsvpReport {
+  const listed = new Set(guests.map((g) => g.token));
+  const rows: GuestRow[] = [
+    ...guests.map((g) => {
+      const response = responses[g.token] ?? null;
+      return { key: g.token, guest: g, name: g.name, status: statusOf(response), response };
+    }),
+    ...Object.entries(responses)
+      .filter(([key]) => !listed.has(key))
+      .map(([key, response]) => ({ key, guest: null, name: response.names[0] || key, status: statusOf(response), response })),
+  ];
+
+  const totals = { attending: 0, declined: 0, pending: 0, parties: rows.length, people: 0 };
+  const nights = Object.fromEntries(NIGHTS.map((n) => [n, 0])) as Record<Night, number>;
+  const events = Object.fromEntries(GUEST_EVENTS.map((e) => [e, { invited: 0, attending: 0 }])) as Record<
+    GuestEvent,
+    EventAttendance
+  >;
+
+  for (const row of rows) {
+    totals[row.status] += 1;
+    const r = row.response;
+    const coming = r?.attending ? r.partySize : 0;
+    totals.people += coming;
+
+    for (const n of r?.attending ? r.nights : []) if (n in nights) nights[n] += coming;
+
+    // Unlisted responses came from the generic page, which offers every event.
+    const invitedTo = row.guest?.events ?? GUEST_EVENTS;
+    for (const e of invitedTo) {
+      events[e].invited += row.guest ? invitedPeople(row.guest) : (r?.partySize ?? 0);
+      events[e].attending += coming;
+    }
+  }
+
+  return {
+    rows,
+    totals,
+    nights,
+    events,
+    pending: rows.filter((r) => r.status === "pending"),
+    pastDeadline: now.getTime() > RSVP_CLOSES.getTime(),
+  };
+}
+
+const CSV_COLUMNS = ["token", "name", "listed", "events", "status", "party_size", "names", "nights", "note", "updated_at"];
+
+/** One row per guest (or unlisted response); machine-readable, so ISO dates and English statuses. */
+export function reportToCsv(report: RsvpReport) {
+  const lines = report.rows.map((row) => {
+    const r = row.response;
+    return [
+      row.key,
+      row.name,
+      row.guest !== null,
+      (row.guest?.events ?? []).join(" "),
+      row.status,
+      r?.attending ? r.partySize : 0,
+      (r?.names ?? []).join("; "),
+      (r?.attending ? r.nights : []).join(" "),
+      r?.note ?? "",
+      r?.updatedAt ?? "",
+    ]
+      .map(csvCell)
+      .join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...lines].join("\r\n") + "\r\n";
+}
+
+export function reportToJson(report: RsvpReport, now = new Date()) {
+  return JSON.stringify(
+    {
+      generatedAt: now.toISOString(),
+      totals: report.totals,
+      nights: report.nights,
+      events: report.events,
+      guests: report.rows.map(({ key, guest, name, status, response }) => ({
+        token: key,
+        name,
+        listed: guest !== null,
+        party: guest?.party ?? null,
+        events: guest?.events ?? null,
+        status,
+        response,
+      })),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,97 @@
+import { useMemo, useState } from "react";
+import { Clock, MapPin, Shirt } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, type Lang } from "../i18n";
+import type { AgendaCopy } from "../locales/schema";
+import { EVENT_TZ, formatDay, formatTimeRange, guestTimeZone, sameWallClock, timeZoneName, type IsoDate } from "../dates";
+import { venueToUtc } from "../calendar/ics";
+import type { AgendaItem } from "./types";
+
+export default function AgendaTimeline({
+  items,
+  copy,
+  lang,
+  rtl,
+}: {
+  items: AgendaItem[];
+  copy: AgendaCopy;
+  lang: Lang;
+  rtl: boolean;
+}) {
+  const [localZone] = useState(guestTimeZone);
+  const [useLocal, setUseLocal] = useState(false);
+
+  const days = useMemo(() => {
+    const out = new Map<IsoDate, AgendaItem[]>();
+    for (const item of items) {
+      const day = item.start.slice(0, 10) as IsoDate;
+      out.set(day, [...(out.get(day) ?? []), item]);
+    }
+    return [...out];
+  }, [items]);
+
+  if (items.length === 0) return null;
+
+  const firstStart = venueToUtc(items[0].start);
+  const differs = !sameWallClock(localZone, firstStart);
+  const zone = useLocal && differs ? localZone : EVENT_TZ;
+
+  const toggle = (on: boolean) =>
+    cx(
+      "rounded-xl px-3 py-1.5 text-xs font-semibold",
+      on ? "bg-ink text-on-ink shadow-sm" : "text-muted hover:bg-surface/70"
+    );
+
+  return (
+    <div className={cx("mt-6 rounded-3xl border border-ink/10 bg-surface/65 p-5 shadow-sm sm:p-6", rtl && "text-right")}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold">{copy.title}</h3>
+        {differs ? (
+          <div className="inline-flex rounded-2xl border border-ink/10 bg-surface/60 p-1">
+            <button type="button" aria-pressed={!useLocal} onClick={() => setUseLocal(false)} className={toggle(!useLocal)}>
+              {copy.venueTime}
+            </button>
+            <button type="button" aria-pressed={useLocal} onClick={() => setUseLocal(true)} className={toggle(useLocal)}>
+              {fill(copy.localTime, { zone: timeZoneName(localZone, lang, firstStart) })}
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="mt-5 space-y-6">
+        {days.map(([day, dayItems]) => (
+          <div key={day}>
+            <div className="text-xs font-semibold uppercase tracking-wide text-subtle">{formatDay(day, lang)}</div>
+            <ol className="mt-3 space-y-4 border-s-2 border-accent/30 ps-5">
+              {dayItems.map((item) => (
+                <li key={item.id} className="relative">
+                  <span aria-hidden className="absolute -start-[27px] top-1.5 h-3 w-3 rounded-full border-2 border-surface bg-accent shadow" />
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                    <span className="inline-flex items-center gap-1.5 font-semibold text-accent-ink">
+                      <Clock className="h-4 w-4" />
+                      <time dateTime={venueToUtc(item.start).toISOString()}>
+                        {formatTimeRange(venueToUtc(item.start), venueToUtc(item.end), lang, zone, zone !== EVENT_TZ)}
+                      </time>
+                    </span>
+                    <span className="inline-flex items-center gap-1.5 text-muted">
+                      <MapPin className="h-4 w-4" />
+                      {copy.spots[item.spot]}
+                    </span>
+                  </div>
+                  <div className="mt-1 font-semibold">{item.title[lang]}</div>
+                  <p className="mt-1 text-sm text-muted">{item.description[lang]}</p>
+                  {item.dress ? (
+                    <div className="mt-2 inline-flex items-center gap-1.5 rounded-full bg-ink/5 px-2.5 py-1 text-xs text-muted">
+                      <Shirt className="h-3.5 w-3.5" />
+                      <span className="font-semibold">{copy.dressCode}:</span> {copy.dress[item.dress]}
+                    </div>
+                  ) : null}
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { EVENT_DATES } from "../dates";
+import type { GuestEvent } from "../guests/types";
+import type { AgendaItem } from "./types";
+
+const { arrival, wedding, departure } = EVENT_DATES;
+
+export const AGENDA: AgendaItem[] = [
+  {
+    id: "check-in",
+    event: "welcome",
+    start: `${arrival}T12:00`,
+    end: `${arrival}T15:00`,
+    spot: "lobby",
+    title: { en: "Early check-in", fa: "ورود زودهنگام", de: "Früher Check-in" },
+    description: {
+      en: "Rooms are ready from noon — drop your bags and head for the water.",
+      fa: "اتاق‌ها از ظهر آماده‌اند؛ چمدان‌ها را بگذارید و سراغ دریا بروید.",
+      de: "Die Zimmer sind ab Mittag bereit – Gepäck abstellen und ab ans Wasser.",
+    },
+    published: true,
+  },
+  {
+    id: "welcome-drinks",
+    event: "welcome",
+    start: `${arrival}T19:00`,
+    end: `${arrival}T23:00`,
+    spot: "sunsetLounge",
+    dress: "resortCasual",
+    title: { en: "Welcome drinks at sunset", fa: "نوشیدنی خوش‌آمد هنگام غروب", de: "Willkommensdrinks zum Sonnenuntergang" },
+    description: {
+      en: "Meet everyone over drinks and small plates as the sun goes down.",
+      fa: "با نوشیدنی و پیش‌غذا، هنگام غروب با همه آشنا شوید.",
+      de: "Alle kennenlernen bei Drinks und kleinen Gerichten, während die Sonne untergeht.",
+    },
+    published: false,
+  },
+  {
+    id: "ceremony",
+    event: "wedding",
+    start: `${wedding}T17:00`,
+    end: `${wedding}T17:45`,
+    spot: "beachDeck",
+    dress: "formal",
+    title: { en: "Ceremony", fa: "مراسم عقد", de: "Trauung" },
+    description: {
+      en: "Golden-hour ceremony on the deck above the bay. Please be seated by 16:45.",
+      fa: "مراسم در نور طلایی عصر، روی عرشهٔ رو به خلیج. لطفاً تا ساعت ۱۶:۴۵ در جای خود باشید.",
+      de: "Trauung zur goldenen Stunde auf dem Deck über der Bucht. Bitte nehmt bis 16:45 Platz.",
+    },
+    published: true,
+  },
+  {
+    id: "cocktails",
+    event: "wedding",
+    start: `${wedding}T17:45`,
+    end: `${wedding}T19:30`,
+    spot: "beachDeck",
+    dress: "formal",
+    title: { en: "Cocktails by the sea", fa: "کوکتل کنار دریا", de: "Cocktails am Meer" },
+    description: {
+      en: "Drinks, music and photos while the light is at its best.",
+      fa: "نوشیدنی، موسیقی و عکس در بهترین نور روز.",
+      de: "Drinks, Musik und Fotos im schönsten Licht des Tages.",
+    },
+    published: false,
+  },
+  {
+    id: "dinner",
+    event: "wedding",
+    start: `${wedding}T19:30`,
+    end: `${wedding}T22:30`,
+    spot: "glassRestaurant",
+    dress: "formal",
+    title: { en: "Dinner", fa: "شام", de: "Abendessen" },
+    description: {
+      en: "A long dinner on the Glass Restaurant terrace, with toasts along the way.",
+      fa: "شامی طولانی روی تراس رستوران گلس، همراه با سخنرانی‌های کوتاه.",
+      de: "Ein langes Abendessen auf der Terrasse des Glass Restaurant, mit Reden zwischendurch.",
+    },
+    published: false,
+  },
+  {
+    id: "after-party",
+    event: "wedding",
+    start: `${wedding}T22:30`,
+    end: `${departure}T01:00`,
+    spot: "sunsetLounge",
+    title: { en: "After-party", fa: "افترپارتی", de: "Afterparty" },
+    description: {
+      en: "Dancing until late. Comfortable shoes encouraged.",
+      fa: "رقص تا دیروقت. کفش راحت فراموش نشود.",
+      de: "Tanzen bis spät. Bequeme Schuhe ausdrücklich erwünscht.",
+    },
+    published: false,
+  },
+  {
+    id: "farewell-brunch",
+    event: "farewell",
+    start: `${departure}T09:00`,
+    end: `${departure}T12:00`,
+    spot: "glassRestaurant",
+    dress: "resortCasual",
+    title: { en: "Farewell brunch", fa: "برانچ خداحافظی", de: "Abschiedsbrunch" },
+    description: {
+      en: "Slow breakfast, strong coffee and stories from the night before.",
+      fa: "صبحانه‌ای آرام، قهوهٔ غلیظ و قصه‌های شب قبل.",
+      de: "Langes Frühstück, starker Kaffee und Geschichten von letzter Nacht.",
+    },
+    published: false,
+  },
+  {
+    id: "last-swim",
+    event: "farewell",
+    start: `${departure}T12:00`,
+    end: `${departure}T15:00`,
+    spot: "beachDeck",
+    dress: "swimwear",
+    title: { en: "Last swim before checkout", fa: "آخرین شنا پیش از خروج", de: "Letztes Bad vor dem Check-out" },
+    description: {
+      en: "One more dip before heading to the airport.",
+      fa: "یک شنای دیگر پیش از رفتن به فرودگاه.",
+      de: "Noch einmal ins Wasser, bevor es zum Flughafen geht.",
+    },
+    published: false,
+  },
+];
+
+/** Dev-only `?agenda=draft` previews unpublished items. */
+export function showDraftsFromLocation() {
+  if (!import.meta.env.DEV || typeof window === "undefined") return false;
+  return new URLSearchParams(window.location.search).get("agenda") === "draft";
+}
+
+export function publishedAgenda(items: AgendaItem[], events: GuestEvent[], drafts = false) {
+  return items
+    .filter((i) => (drafts || i.published) && events.includes(i.event))
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/** An event's placeholder copy stays until every item planned for it is published. */
+export function agendaComplete(items: AgendaItem[], event: GuestEvent, drafts = false) {
+  const planned = items.filter((i) => i.event === event);
+  return planned.length > 0 && planned.every((i) => drafts || i.published);
+}
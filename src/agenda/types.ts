@@ -0,0 +1,20 @@
+import type { Lang } from "../i18n";
+import type { GuestEvent } from "../guests/types";
+
+export type AgendaSpot = "lobby" | "beachDeck" | "glassRestaurant" | "sunsetLounge";
+
+export type DressCode = "resortCasual" | "formal" | "swimwear";
+
+export type AgendaItem = {
+  id: string;
+  event: GuestEvent;
+  /** Venue wall-clock time, "YYYY-MM-DDTHH:mm" (see venueToUtc). */
+  start: string;
+  end: string;
+  spot: AgendaSpot;
+  dress?: DressCode;
+  title: Record<Lang, string>;
+  description: Record<Lang, string>;
+  /** Drafts stay hidden from guests until the plan for them is final. */
+  published: boolean;
+};
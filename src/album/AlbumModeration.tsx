@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from "react";
+import { Check, Trash2, X } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { AlbumAdminCopy } from "../locales/schema";
+import { formatTimestamp } from "../dates";
+import type { AlbumAdapter, GuestUpload, UploadStatus } from "./types";
+
+const GROUPS: UploadStatus[] = ["pending", "approved", "rejected"];
+
+export default function AlbumModeration({ adapter, copy, lang }: { adapter: AlbumAdapter; copy: AlbumAdminCopy; lang: Lang }) {
+  const [uploads, setUploads] = useState<GuestUpload[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    let live = true;
+    adapter
+      .list()
+      .then((list) => {
+        if (live) setUploads(list);
+      })
+      .catch(() => {
+        if (live) setFailed(true);
+      });
+    return () => {
+      live = false;
+    };
+  }, [adapter]);
+
+  const grouped = useMemo(() => {
+    const out: Record<UploadStatus, GuestUpload[]> = { pending: [], approved: [], rejected: [] };
+    for (const u of uploads ?? []) out[u.status].push(u);
+    return out;
+  }, [uploads]);
+
+  const run = async (id: string, action: () => Promise<GuestUpload | null>) => {
+    setBusy(id);
+    try {
+      const updated = await action();
+      setUploads((list) => (list ?? []).flatMap((u) => (u.id !== id ? [u] : updated ? [updated] : [])));
+    } catch {
+      setFailed(true);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const review = (id: string, status: UploadStatus) => run(id, () => adapter.review(id, status));
+  const remove = (id: string) => {
+    if (!window.confirm(copy.confirmRemove)) return;
+    void run(id, async () => {
+      await adapter.remove(id);
+      return null;
+    });
+  };
+
+  const action = "inline-flex items-center gap-1.5 rounded-xl border px-3 py-1.5 text-xs font-semibold shadow-sm disabled:opacity-50";
+
+  return (
+    <div>
+      <h2 className="text-2xl font-semibold tracking-tight">{copy.title}</h2>
+      <p className="mt-2 text-muted">{copy.subtitle}</p>
+
+      {failed ? <div className="mt-6 text-sm font-medium text-rose-600">{copy.loadFailed}</div> : null}
+
+      {GROUPS.map((status) => (
+        <section key={status} className="mt-10">
+          <h3 className="text-xl font-semibold">
+            {copy[status]} <span className="text-subtle">({formatNumber(grouped[status].length, lang)})</span>
+          </h3>
+          {grouped[status].length === 0 ? (
+            <p className="mt-3 text-sm text-muted">{copy.empty}</p>
+          ) : (
+            <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {grouped[status].map((u) => (
+                <article key={u.id} className="overflow-hidden rounded-3xl border border-ink/10 bg-surface/70 shadow-sm">
+                  <img src={u.src} alt={u.caption} className="aspect-[4/3] w-full bg-ink/10 object-cover" />
+                  <div className="space-y-3 p-4">
+                    {u.caption ? <p className="text-sm">{u.caption}</p> : null}
+                    <p className="text-xs text-muted">
+                      {fill(copy.byline, { name: u.guestName, date: formatTimestamp(new Date(u.createdAt), lang) })}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      {status !== "approved" ? (
+                        <button
+                          type="button"
+                          disabled={busy === u.id}
+                          onClick={() => review(u.id, "approved")}
+                          className={cx(action, "border-ink bg-ink text-on-ink hover:bg-ink/85")}
+                        >
+                          <Check className="h-4 w-4" />
+                          {copy.approve}
+                        </button>
+                      ) : null}
+                      {status !== "rejected" ? (
+                        <button
+                          type="button"
+                          disabled={busy === u.id}
+                          onClick={() => review(u.id, "rejected")}
+                          className={cx(action, "border-ink/10 bg-surface text-ink hover:bg-page")}
+                        >
+                          <X className="h-4 w-4" />
+                          {copy.reject}
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        disabled={busy === u.id}
+                        onClick={() => remove(u.id)}
+                        className={cx(action, "border-rose-200 bg-surface text-rose-700 hover:bg-rose-50")}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        {copy.remove}
+                      </button>
+                    </div>
+                  </div>
+                </article>
+              ))}
+            </div>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useRef, useState, type FormEvent } from "react";
+import { Clock, ImagePlus, Upload } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { AlbumCopy } from "../locales/schema";
+import type { Guest } from "../guests/types";
+import SmartImage from "../photos/SmartImage";
+import type { Photo } from "../photos/types";
+import { uploadToPhoto } from "./photos";
+import { resizeImage, validateUpload } from "./resize";
+import { MAX_CAPTION_LENGTH, MAX_UPLOAD_BYTES, type AlbumAdapter, type AlbumError, type GuestUpload } from "./types";
+
+export default function GuestAlbum({
+  adapter,
+  guest,
+  copy,
+  openLabel,
+  lang,
+  rtl,
+  onOpen,
+}: {
+  adapter: AlbumAdapter;
+  guest: Guest | null;
+  copy: AlbumCopy;
+  openLabel: (p: Photo) => string;
+  lang: Lang;
+  rtl: boolean;
+  onOpen: (photos: Photo[], index: number) => void;
+}) {
+  const [uploads, setUploads] = useState<GuestUpload[] | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [caption, setCaption] = useState("");
+  const [errors, setErrors] = useState<AlbumError[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let live = true;
+    adapter
+      .list()
+      .catch(() => [])
+      .then((list) => {
+        if (live) setUploads(list);
+      });
+    return () => {
+      live = false;
+    };
+  }, [adapter]);
+
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const approved = useMemo(
+    () => (uploads ?? []).filter((u) => u.status === "approved").map((u) => uploadToPhoto(u, copy.byline)),
+    [uploads, copy.byline]
+  );
+  const mine = useMemo(
+    () => (uploads ?? []).filter((u) => guest && u.guestToken === guest.token && u.status === "pending"),
+    [uploads, guest]
+  );
+
+  const choose = (f: File | null) => {
+    setFile(f);
+    if (!f) setPreview(null);
+    setSent(false);
+    setErrors(f ? validateUpload(f, caption).filter((e) => e !== "caption") : []);
+  };
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!guest) return;
+    const problems = validateUpload(file, caption);
+    setErrors(problems);
+    if (problems.length > 0 || !file) return;
+
+    setSubmitting(true);
+    try {
+      const { blob, width, height } = await resizeImage(file);
+      const saved = await adapter.upload({
+        guestToken: guest.token,
+        guestName: guest.name,
+        caption,
+        image: blob,
+        width,
+        height,
+      });
+      setUploads((list) => [saved, ...(list ?? [])]);
+      setFile(null);
+      setPreview(null);
+      setCaption("");
+      setSent(true);
+      if (fileInput.current) fileInput.current.value = "";
+    } catch {
+      setErrors(["failed"]);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const card = cx("rounded-3xl border border-ink/10 bg-surface/65 p-5 shadow-sm sm:p-6", rtl && "text-right");
+  const input =
+    "w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent";
+  const max = (k: AlbumError) => formatNumber(k === "size" ? MAX_UPLOAD_BYTES / 1024 / 1024 : MAX_CAPTION_LENGTH, lang);
+  const errorText = (k: AlbumError) =>
+    errors.includes(k) ? <div className="mt-1 text-xs font-medium text-rose-600">{fill(copy.errors[k], { max: max(k) })}</div> : null;
+
+  return (
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+      <div className="lg:col-span-2">
+        {uploads === null ? (
+          <div className="text-sm text-muted">{copy.loading}</div>
+        ) : approved.length === 0 ? (
+          <div className={cx(card, "text-sm text-muted")}>{copy.empty}</div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {approved.map((p, i) => (
+              <button
+                key={p.id}
+                type="button"
+                onClick={() => onOpen(approved, i)}
+                className="group relative overflow-hidden rounded-3xl border border-surface/60 bg-surface/30 shadow-sm"
+                aria-label={openLabel(p)}
+              >
+                <SmartImage
+                  alt={p.title}
+                  photo={p}
+                  sizes="(min-width: 1024px) 240px, (min-width: 640px) 33vw, 50vw"
+                  className="h-[160px] w-full transition duration-300 group-hover:scale-[1.03] motion-reduce:transform-none sm:h-[190px]"
+                />
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {guest ? (
+        <form onSubmit={submit} noValidate className={cx(card, "space-y-4")}>
+          <div className="flex items-center gap-2 text-sm font-semibold">
+            <ImagePlus className="h-4 w-4" />
+            {copy.share}
+          </div>
+
+          <div>
+            <label className="flex cursor-pointer flex-col items-center justify-center gap-2 overflow-hidden rounded-2xl border border-dashed border-ink/20 bg-surface/60 p-4 text-sm font-semibold text-ink hover:bg-surface">
+              {preview ? <img src={preview} alt="" className="max-h-48 w-full rounded-xl object-contain" /> : <Upload className="h-5 w-5 opacity-70" />}
+              {file ? copy.change : copy.choose}
+              <input
+                ref={fileInput}
+                type="file"
+                accept="image/*"
+                className="sr-only"
+                onChange={(e) => choose(e.target.files?.[0] ?? null)}
+                aria-invalid={errors.includes("type") || errors.includes("size")}
+              />
+            </label>
+            {errorText("type")}
+            {errorText("size")}
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-semibold">{copy.caption}</span>
+            <textarea
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              placeholder={copy.captionPlaceholder}
+              maxLength={MAX_CAPTION_LENGTH}
+              rows={2}
+              className={cx(input, "mt-2 resize-y")}
+            />
+            {errorText("caption")}
+          </label>
+
+          {errorText("failed")}
+          {sent ? <div className="text-sm font-medium text-accent-ink">{copy.thanks}</div> : null}
+
+          <button
+            type="submit"
+            disabled={submitting || !file}
+            className="w-full rounded-2xl bg-ink px-5 py-3 text-sm font-semibold text-on-ink shadow hover:bg-ink/85 disabled:opacity-60"
+          >
+            {submitting ? copy.uploading : copy.upload}
+          </button>
+
+          {mine.length > 0 ? (
+            <div className="grid grid-cols-3 gap-2">
+              {mine.map((u) => (
+                <div key={u.id} className="relative overflow-hidden rounded-xl border border-ink/10">
+                  <img src={u.src} alt={u.caption} className="h-20 w-full object-cover opacity-70" />
+                  <div className="absolute inset-x-1 bottom-1 inline-flex items-center gap-1 rounded-full bg-surface/85 px-2 py-0.5 text-[10px] font-semibold text-muted">
+                    <Clock className="h-3 w-3" />
+                    <span className="truncate">{copy.pending}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </form>
+      ) : (
+        <div className={cx(card, "text-sm text-muted")}>{copy.inviteOnly}</div>
+      )}
+    </div>
+  );
+}
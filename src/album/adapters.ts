@@ -0,0 +1,94 @@
+import { API_BASE, readLocal, requestJson, writeLocal } from "../lib/api";
+import type { AlbumAdapter, GuestUpload, NewUpload } from "./types";
+
+function newRecord(upload: NewUpload, src: string): GuestUpload {
+  return {
+    id: crypto.randomUUID(),
+    guestToken: upload.guestToken,
+    guestName: upload.guestName,
+    caption: upload.caption.trim(),
+    width: upload.width,
+    height: upload.height,
+    src,
+    status: "pending",
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function byNewest(list: GuestUpload[]) {
+  return [...list].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function toDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read the image"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Keeps images inline as data URLs; only suitable for trying the flow in one browser. */
+export function createLocalAlbumAdapter(key = "wedding_album"): AlbumAdapter {
+  const load = () => readLocal<Record<string, GuestUpload>>(key) ?? {};
+  const find = (id: string) => {
+    const u = load()[id];
+    if (!u) throw new Error(`Unknown upload ${id}`);
+    return u;
+  };
+  return {
+    list: async () => byNewest(Object.values(load())),
+    upload: async (upload) => {
+      const record = newRecord(upload, await toDataUrl(upload.image));
+      writeLocal(key, { ...load(), [record.id]: record });
+      return record;
+    },
+    review: async (id, status) => {
+      const record = { ...find(id), status, reviewedAt: new Date().toISOString() };
+      writeLocal(key, { ...load(), [id]: record });
+      return record;
+    },
+    remove: async (id) => {
+      const all = load();
+      delete all[id];
+      writeLocal(key, all);
+    },
+  };
+}
+
+/** Stores the JPEG under `/files/` and the record in the `album` collection. */
+export function createHttpAlbumAdapter(baseUrl: string): AlbumAdapter {
+  const base = baseUrl.replace(/\/$/, "");
+  const recordUrl = (id: string) => `${base}/album/${encodeURIComponent(id)}`;
+  const fileName = (id: string) => `album-${id}.jpg`;
+
+  const put = async (record: GuestUpload) => {
+    const saved = await requestJson<GuestUpload>(recordUrl(record.id), { method: "PUT", body: JSON.stringify(record) });
+    if (!saved) throw new Error(`PUT ${recordUrl(record.id)} returned no body`);
+    return saved;
+  };
+
+  return {
+    list: async () => byNewest(Object.values((await requestJson<Record<string, GuestUpload>>(`${base}/album`)) ?? {})),
+    upload: async (upload) => {
+      const record = newRecord(upload, "");
+      const fileUrl = `${base}/files/${fileName(record.id)}`;
+      const res = await fetch(fileUrl, { method: "PUT", headers: { "Content-Type": "image/jpeg" }, body: upload.image });
+      if (!res.ok) throw new Error(`PUT ${fileUrl} failed: ${res.status} ${res.statusText}`);
+      return put({ ...record, src: fileUrl });
+    },
+    review: async (id, status) => {
+      const current = await requestJson<GuestUpload>(recordUrl(id));
+      if (!current) throw new Error(`Unknown upload ${id}`);
+      return put({ ...current, status, reviewedAt: new Date().toISOString() });
+    },
+    remove: async (id) => {
+      await requestJson(recordUrl(id), { method: "DELETE" });
+      await fetch(`${base}/files/${fileName(id)}`, { method: "DELETE" });
+    },
+  };
+}
+
+export function defaultAlbumAdapter(): AlbumAdapter {
+  return API_BASE ? createHttpAlbumAdapter(API_BASE) : createLocalAlbumAdapter();
+}
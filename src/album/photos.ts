@@ -0,0 +1,17 @@
+import { fill } from "../i18n";
+import type { ImageMedia } from "../photos/types";
+import type { GuestUpload } from "./types";
+
+/** Lets approved uploads reuse SmartImage and the Lightbox unchanged. */
+export function uploadToPhoto(u: GuestUpload, byline: string): ImageMedia {
+  const credit = fill(byline, { name: u.guestName });
+  return {
+    kind: "image",
+    id: `guest-${u.id}`,
+    title: u.caption || credit,
+    tag: u.caption ? credit : undefined,
+    tags: [],
+    sources: [u.src],
+    aspectRatio: u.width / u.height,
+  };
+}
@@ -0,0 +1,32 @@
+import { MAX_CAPTION_LENGTH, MAX_UPLOAD_BYTES, type AlbumError } from "./types";
+
+export const MAX_EDGE_PX = 1600;
+const JPEG_QUALITY = 0.85;
+
+export function validateUpload(file: File | null, caption: string): AlbumError[] {
+  const errors: AlbumError[] = [];
+  if (!file || !file.type.startsWith("image/")) errors.push("type");
+  else if (file.size > MAX_UPLOAD_BYTES) errors.push("size");
+  if (caption.length > MAX_CAPTION_LENGTH) errors.push("caption");
+  return errors;
+}
+
+/** Downscales to at most MAX_EDGE_PX on the long side and re-encodes as JPEG, dropping EXIF. */
+export async function resizeImage(file: Blob, maxEdge = MAX_EDGE_PX) {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+  if (!blob) throw new Error("Could not encode the resized image");
+  return { blob, width, height };
+}
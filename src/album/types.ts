@@ -0,0 +1,37 @@
+export const MAX_CAPTION_LENGTH = 280;
+
+/** Originals above this are rejected before resizing; phones rarely exceed it. */
+export const MAX_UPLOAD_BYTES = 30 * 1024 * 1024;
+
+export type UploadStatus = "pending" | "approved" | "rejected";
+
+export type GuestUpload = {
+  id: string;
+  guestToken: string;
+  guestName: string;
+  caption: string;
+  src: string;
+  width: number;
+  height: number;
+  status: UploadStatus;
+  createdAt: string;
+  reviewedAt?: string;
+};
+
+export type NewUpload = {
+  guestToken: string;
+  guestName: string;
+  caption: string;
+  image: Blob;
+  width: number;
+  height: number;
+};
+
+export type AlbumAdapter = {
+  list: () => Promise<GuestUpload[]>;
+  upload: (upload: NewUpload) => Promise<GuestUpload>;
+  review: (id: string, status: UploadStatus) => Promise<GuestUpload>;
+  remove: (id: string) => Promise<void>;
+};
+
+export type AlbumError = "type" | "size" | "caption" | "failed";
@@ -0,0 +1,5 @@
+import { downloadText } from "../lib/download";
+
+export function downloadIcs(filename: string, text: string) {
+  downloadText(filename, text, "text/calendar;charset=utf-8");
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { escapeText, foldLine, googleCalendarUrl, toIcs, utcToVenue, venueToUtc, type CalendarEvent } from "./ics";
+import { WEEKEND_TIMES } from "./schedule";
+
+const wedding: CalendarEvent = {
+  uid: "wedding-2026@caresse-wedding",
+  title: "Wedding",
+  description: "Ceremony, dinner; dancing",
+  location: "Caresse, Bodrum",
+  ...WEEKEND_TIMES.wedding,
+};
+
+const octets = (s: string) => new TextEncoder().encode(s).length;
+
+describe("toIcs", () => {
+  const ics = toIcs([wedding], new Date("2026-01-02T03:04:05.678Z"));
+  const lines = ics.split("\r\n");
+
+  it("ends every line with CRLF", () => {
+    expect(ics.endsWith("\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toMatch(/[\r\n]/);
+  });
+
+  it("declares the venue time zone", () => {
+    expect(lines).toContain("BEGIN:VTIMEZONE");
+    expect(lines).toContain("TZID:Europe/Istanbul");
+    expect(lines).toContain("TZOFFSETTO:+0300");
+    expect(lines.indexOf("END:VTIMEZONE")).toBeLessThan(lines.indexOf("BEGIN:VEVENT"));
+  });
+
+  it("writes venue-local start and end, with the wedding running past midnight", () => {
+    expect(lines).toContain("DTSTART;TZID=Europe/Istanbul:20260601T170000");
+    expect(lines).toContain("DTEND;TZID=Europe/Istanbul:20260602T010000");
+    expect(lines).toContain("DTSTAMP:20260102T030405Z");
+  });
+
+  it("escapes text fields", () => {
+    expect(lines).toContain("DESCRIPTION:Ceremony\\, dinner\\; dancing");
+    expect(lines).toContain("LOCATION:Caresse\\, Bodrum");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves a 75-octet line alone and folds the 76th octet", () => {
+    expect(foldLine("a".repeat(75))).toBe("a".repeat(75));
+    expect(foldLine("a".repeat(76))).toBe(`${"a".repeat(75)}\r\n a`);
+  });
+
+  it("never splits a multi-byte character", () => {
+    // 74 + 2 octets: the Persian letter would straddle the limit, so it moves to the next line whole.
+    expect(foldLine(`${"a".repeat(74)}س`)).toBe(`${"a".repeat(74)}\r\n س`);
+  });
+
+  it("keeps every physical line of Persian text within 75 octets and unfolds to the original", () => {
+    const text = `SUMMARY:${"عروسی در کنار دریای اژه ".repeat(8)}`;
+    const folded = foldLine(text);
+    const physical = folded.split("\r\n");
+    expect(physical.length).toBeGreaterThan(1);
+    for (const line of physical) expect(octets(line)).toBeLessThanOrEqual(75);
+    expect(physical.slice(1).every((l) => l.startsWith(" "))).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe(text);
+  });
+});
+
+describe("escapeText", () => {
+  it("escapes backslashes, semicolons, commas and newlines", () => {
+    expect(escapeText("a\\b;c,d\ne\r\nf")).toBe("a\\\\b\\;c\\,d\\ne\\nf");
+  });
+});
+
+describe("googleCalendarUrl", () => {
+  it("converts venue-local times to UTC", () => {
+    const url = new URL(googleCalendarUrl(wedding));
+    expect(url.searchParams.get("dates")).toBe("20260601T140000Z/20260601T220000Z");
+    expect(url.searchParams.get("ctz")).toBe("Europe/Istanbul");
+  });
+});
+
+describe("venueToUtc / utcToVenue", () => {
+  it("uses the event's time zone by default", () => {
+    expect(venueToUtc("2026-06-01T17:00").toISOString()).toBe("2026-06-01T14:00:00.000Z");
+    expect(utcToVenue(new Date("2026-06-01T22:00:00Z"))).toBe("2026-06-02T01:00");
+  });
+
+  it("follows daylight saving time in zones that have it", () => {
+    expect(venueToUtc("2026-01-15T12:00", "Europe/Berlin").toISOString()).toBe("2026-01-15T11:00:00.000Z");
+    expect(venueToUtc("2026-06-01T12:00", "Europe/Berlin").toISOString()).toBe("2026-06-01T10:00:00.000Z");
+    // Berlin springs forward at 02:00 on 29 March 2026; 03:30 is already summer time.
+    expect(venueToUtc("2026-03-29T03:30", "Europe/Berlin").toISOString()).toBe("2026-03-29T01:30:00.000Z");
+    expect(utcToVenue(new Date("2026-03-29T01:30:00Z"), "Europe/Berlin")).toBe("2026-03-29T03:30");
+    expect(utcToVenue(new Date("2026-06-01T10:00:00Z"), "America/New_York")).toBe("2026-06-01T06:00");
+  });
+});
+
+describe("toIcs time zones", () => {
+  const event = (start: string, end: string): CalendarEvent => ({ ...wedding, start, end });
+  const observances = (ics: string) =>
+    ics
+      .split("\r\n")
+      .filter((l) => /^(BEGIN:(STANDARD|DAYLIGHT)|DTSTART:|TZOFFSET)/.test(l))
+      .join(" ");
+
+  it("writes the daylight saving changes of a zone that has them", () => {
+    const ics = toIcs([event("2026-06-01T17:00", "2026-06-02T01:00")], new Date("2026-01-02T00:00:00Z"), "Europe/Berlin");
+    const rules = observances(ics);
+    expect(rules).toContain("BEGIN:DAYLIGHT DTSTART:20260329T020000 TZOFFSETFROM:+0100 TZOFFSETTO:+0200");
+    expect(rules).toContain("BEGIN:STANDARD DTSTART:20261025T030000 TZOFFSETFROM:+0200 TZOFFSETTO:+0100");
+    expect(rules).toContain("BEGIN:STANDARD DTSTART:20251026T030000");
+    expect(ics).toContain("DTSTART;TZID=Europe/Berlin:20260601T170000");
+  });
+
+  it("keeps a single fixed-offset block for a zone without them", () => {
+    const ics = toIcs([wedding], new Date("2026-01-02T00:00:00Z"));
+    expect(observances(ics)).toBe("BEGIN:STANDARD DTSTART:19700101T000000 TZOFFSETFROM:+0300 TZOFFSETTO:+0300");
+  });
+});
@@ -0,0 +1,174 @@
+import { EVENT } from "../event";
+import { EVENT_TZ, zoneOffsetMinutes } from "../dates";
+
+export const VENUE_TZID = EVENT_TZ;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export type CalendarEvent = {
+  uid: string;
+  title: string;
+  description: string;
+  location: string;
+  url?: string;
+  start: string;
+  end: string;
+};
+
+/** A venue wall-clock time ("YYYY-MM-DDTHH:mm" in `timeZone`) as a moment. */
+export function venueToUtc(local: string, timeZone = VENUE_TZID) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(local);
+  if (!m) throw new Error(`Expected a venue local time like 2026-06-01T17:00, got "${local}"`);
+  const [, y, mo, d, h, mi] = m.map(Number);
+  const wall = Date.UTC(y, mo - 1, d, h, mi);
+  // The offset can differ either side of a DST change, so check it again at the first guess.
+  const guess = wall - zoneOffsetMinutes(timeZone, new Date(wall)) * MINUTE_MS;
+  return new Date(wall - zoneOffsetMinutes(timeZone, new Date(guess)) * MINUTE_MS);
+}
+
+/** The inverse of `venueToUtc`: a moment as a venue wall-clock string. */
+export function utcToVenue(date: Date, timeZone = VENUE_TZID) {
+  return new Date(date.getTime() + zoneOffsetMinutes(timeZone, date) * MINUTE_MS).toISOString().slice(0, 16);
+}
+
+function localStamp(local: string) {
+  return `${local.replace(/[-:]/g, "")}00`;
+}
+
+function utcStamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+export function foldLine(line: string) {
+  const enc = new TextEncoder();
+  const out: string[] = [];
+  let current = "";
+  let bytes = 0;
+
+  for (const ch of line) {
+    const size = enc.encode(ch).length;
+    const limit = out.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      out.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+/** "+0300", "-0430"; `minutes` east of UTC. */
+function icsOffset(minutes: number) {
+  const abs = Math.abs(minutes);
+  const hh = String(Math.floor(abs / 60)).padStart(2, "0");
+  const mm = String(abs % 60).padStart(2, "0");
+  return `${minutes < 0 ? "-" : "+"}${hh}${mm}`;
+}
+
+const tzName = (offset: string) => (offset.endsWith("00") ? offset.slice(0, 3) : offset);
+
+type OffsetChange = { at: number; from: number; to: number };
+
+/** Every UTC-offset change of `timeZone` in [start, end), to the minute; assumes at most one a day. */
+function offsetChanges(timeZone: string, start: number, end: number): OffsetChange[] {
+  const offsetAt = (t: number) => zoneOffsetMinutes(timeZone, new Date(t));
+  const changes: OffsetChange[] = [];
+  for (let day = start; day < end; day += DAY_MS) {
+    const from = offsetAt(day);
+    const to = offsetAt(day + DAY_MS);
+    if (from === to) continue;
+    let lo = day;
+    let hi = day + DAY_MS;
+    while (hi - lo > MINUTE_MS) {
+      const mid = lo + Math.floor((hi - lo) / MINUTE_MS / 2) * MINUTE_MS;
+      if (offsetAt(mid) === from) lo = mid;
+      else hi = mid;
+    }
+    changes.push({ at: hi, from, to });
+  }
+  return changes;
+}
+
+/**
+ * The zone's rules around the events, read from the runtime's time zone data: one observance per offset
+ * change from the year before the first event to the end of the last event's year, or a single
+ * fixed-offset block for zones without daylight saving time.
+ */
+function vtimezone(timeZone: string, first: Date, last: Date) {
+  const changes = offsetChanges(timeZone, Date.UTC(first.getUTCFullYear() - 1, 0, 1), Date.UTC(last.getUTCFullYear() + 1, 0, 1));
+  const observances: Array<{ kind: "STANDARD" | "DAYLIGHT"; start: string; from: number; to: number }> = [];
+  if (changes.length === 0) {
+    const offset = zoneOffsetMinutes(timeZone, first);
+    observances.push({ kind: "STANDARD", start: "19700101T000000", from: offset, to: offset });
+  } else {
+    const standard = Math.min(...changes.flatMap((c) => [c.from, c.to]));
+    for (const c of changes) {
+      // DTSTART is the wall-clock moment of the change, read with the offset it replaces.
+      const start = utcStamp(new Date(c.at + c.from * MINUTE_MS)).slice(0, -1);
+      observances.push({ kind: c.to > standard ? "DAYLIGHT" : "STANDARD", start, from: c.from, to: c.to });
+    }
+  }
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${timeZone}`,
+    ...observances.flatMap((o) => [
+      `BEGIN:${o.kind}`,
+      `DTSTART:${o.start}`,
+      `TZOFFSETFROM:${icsOffset(o.from)}`,
+      `TZOFFSETTO:${icsOffset(o.to)}`,
+      `TZNAME:${tzName(icsOffset(o.to))}`,
+      `END:${o.kind}`,
+    ]),
+    "END:VTIMEZONE",
+  ];
+}
+
+export function toIcs(events: CalendarEvent[], now = new Date(), timeZone = VENUE_TZID) {
+  const moments = events.length > 0 ? events.map((e) => venueToUtc(e.start, timeZone).getTime()) : [now.getTime()];
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${EVENT.couple.en}//${EVENT.venue.name} Wedding//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...vtimezone(timeZone, new Date(Math.min(...moments)), new Date(Math.max(...moments))),
+  ];
+
+  for (const e of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${e.uid}`,
+      `DTSTAMP:${utcStamp(now)}`,
+      `DTSTART;TZID=${timeZone}:${localStamp(e.start)}`,
+      `DTEND;TZID=${timeZone}:${localStamp(e.end)}`,
+      `SUMMARY:${escapeText(e.title)}`,
+      `DESCRIPTION:${escapeText(e.description)}`,
+      `LOCATION:${escapeText(e.location)}`,
+      ...(e.url ? [`URL:${e.url}`] : []),
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function googleCalendarUrl(e: CalendarEvent) {
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: e.title,
+    dates: `${utcStamp(venueToUtc(e.start))}/${utcStamp(venueToUtc(e.end))}`,
+    details: e.url ? `${e.description}\n\n${e.url}` : e.description,
+    location: e.location,
+    ctz: VENUE_TZID,
+  });
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
@@ -0,0 +1,24 @@
+import { EVENT_DATES } from "../dates";
+import { EVENT } from "../event";
+import type { GuestEvent } from "../guests/types";
+import type { WeekendCopy } from "../locales/schema";
+import type { CalendarEvent } from "./ics";
+
+export const VENUE_LOCATION = EVENT.venue.address;
+
+export const WEEKEND_TIMES: Record<GuestEvent, { start: string; end: string }> = {
+  welcome: { start: `${EVENT_DATES.arrival}T12:00`, end: `${EVENT_DATES.arrival}T23:00` },
+  wedding: { start: `${EVENT_DATES.wedding}T17:00`, end: `${EVENT_DATES.departure}T01:00` },
+  farewell: { start: `${EVENT_DATES.departure}T09:00`, end: `${EVENT_DATES.departure}T15:00` },
+};
+
+export function weekendCalendarEvent(item: WeekendCopy, url?: string): CalendarEvent {
+  return {
+    uid: `${item.event}-${EVENT_DATES.wedding.slice(0, 4)}@${EVENT.slug}-wedding`,
+    title: item.title,
+    description: item.text,
+    location: VENUE_LOCATION,
+    url,
+    ...WEEKEND_TIMES[item.event],
+  };
+}
@@ -0,0 +1,28 @@
+import type { ReactNode } from "react";
+import { cx } from "../lib/cx";
+import type { CardCopy } from "../locales/schema";
+import { ICONS } from "./icons";
+
+export default function InfoCard({
+  icon,
+  title,
+  text,
+  className,
+  children,
+}: CardCopy & { className?: string; children?: ReactNode }) {
+  const Icon = ICONS[icon];
+  return (
+    <div className={cx("rounded-3xl border border-ink/10 bg-surface/65 p-5 shadow-sm", className)}>
+      <div className="flex items-start gap-3">
+        <div className="grid h-10 w-10 shrink-0 place-items-center rounded-2xl bg-gradient-to-br from-accent to-highlight text-on-ink shadow-sm">
+          <Icon className="h-5 w-5" />
+        </div>
+        <div>
+          <div className="text-lg font-semibold">{title}</div>
+          <div className="mt-1 text-sm text-muted">{text}</div>
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
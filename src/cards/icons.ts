@@ -0,0 +1,12 @@
+import { Camera, Info, MapPin, Plane, Sparkles, Utensils, Waves, type LucideIcon } from "lucide-react";
+import type { IconKey } from "../locales/schema";
+
+export const ICONS: Record<IconKey, LucideIcon> = {
+  waves: Waves,
+  utensils: Utensils,
+  sparkles: Sparkles,
+  camera: Camera,
+  info: Info,
+  plane: Plane,
+  mapPin: MapPin,
+};
@@ -0,0 +1,92 @@
+import { Clock3, PartyPopper } from "lucide-react";
+import { cx } from "../lib/cx";
+import { formatNumber, type Lang } from "../i18n";
+import type { CountdownCopy, WeekendCopy } from "../locales/schema";
+import type { GuestEvent } from "../guests/types";
+import { useNow, type Clock } from "./clock";
+import { splitDuration, weekendStatus, type WeekendStatus } from "./status";
+
+/** Ticks every second on its own, so only this box re-renders while the clock runs. */
+export default function Countdown({
+  clock,
+  events,
+  items,
+  copy,
+  lang,
+  rtl,
+}: {
+  clock: Clock;
+  /** The guest's events; every event when omitted. */
+  events?: GuestEvent[];
+  items: WeekendCopy[];
+  copy: CountdownCopy;
+  lang: Lang;
+  rtl: boolean;
+}) {
+  const status = weekendStatus(useNow(clock), events);
+  const box = "rounded-2xl border border-surface/50 bg-surface/45 shadow-[0_8px_30px_--alpha(var(--theme-shadow)/8%)] backdrop-blur";
+
+  if (status.phase === "over") {
+    return (
+      <div className={cx(box, "inline-flex items-center gap-2 px-4 py-3 text-sm font-semibold")}>
+        <PartyPopper className="h-4 w-4 text-highlight" />
+        {copy.over}
+      </div>
+    );
+  }
+
+  if (status.phase === "live") {
+    const title = (e: WeekendStatus["current"]) => items.find((i) => i.event === e)?.title;
+    const current = title(status.current);
+    const next = title(status.next);
+
+    return (
+      <div className={cx(box, "max-w-xl px-4 py-3", rtl && "text-right")} aria-live="polite">
+        <div className="flex items-center gap-2 text-sm font-semibold text-accent-ink">
+          <span className="relative flex h-2.5 w-2.5">
+            <span className="absolute inline-flex h-full w-full animate-ping motion-reduce:animate-none rounded-full bg-accent opacity-60" />
+            <span className="relative inline-flex h-2.5 w-2.5 rounded-full bg-accent" />
+          </span>
+          {copy.live}
+        </div>
+        {current ? (
+          <div className="mt-2 text-sm">
+            <span className="text-subtle">{copy.now}: </span>
+            <span className="font-semibold">{current}</span>
+          </div>
+        ) : null}
+        {next ? (
+          <div className="mt-1 text-sm">
+            <span className="text-subtle">{copy.next}: </span>
+            <span className="font-semibold">{next}</span>
+          </div>
+        ) : null}
+      </div>
+    );
+  }
+
+  const left = splitDuration(status.untilCeremony);
+  const units = [
+    { value: left.days, label: copy.days },
+    { value: left.hours, label: copy.hours },
+    { value: left.minutes, label: copy.minutes },
+    { value: left.seconds, label: copy.seconds },
+  ];
+
+  return (
+    <div className={cx(box, "inline-block px-4 py-3", rtl && "text-right")}>
+      <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-subtle">
+        <Clock3 className="h-4 w-4" />
+        {copy.label}
+      </div>
+      <div className="mt-2 flex gap-4" role="timer" aria-label={copy.label}>
+        {units.map((u) => (
+          <div key={u.label} className="text-center">
+            <div className="text-2xl font-semibold tabular-nums">{formatNumber(u.value, lang)}</div>
+            <div className="text-[11px] text-muted">{u.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
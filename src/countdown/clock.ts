@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+
+export type Clock = () => number;
+
+export const systemClock: Clock = () => Date.now();
+
+export function fixedClock(at: string | number | Date): Clock {
+  const t = new Date(at).getTime();
+  if (Number.isNaN(t)) throw new Error(`Invalid clock time: ${String(at)}`);
+  return () => t;
+}
+
+export function clockFromLocation(): Clock {
+  if (!import.meta.env.DEV || typeof window === "undefined") return systemClock;
+  const at = new URLSearchParams(window.location.search).get("now");
+  if (!at) return systemClock;
+  const offset = new Date(at).getTime() - Date.now();
+  return Number.isNaN(offset) ? systemClock : () => Date.now() + offset;
+}
+
+export function useNow(clock: Clock, intervalMs = 1000) {
+  const [now, setNow] = useState(clock);
+
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(clock()), intervalMs);
+    return () => window.clearInterval(id);
+  }, [clock, intervalMs]);
+
+  return now;
+}
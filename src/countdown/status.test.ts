@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { fixedClock } from "./clock";
+import { CEREMONY_START, LIVE_START, splitDuration, weekendStatus } from "./status";
+
+// Venue times are Istanbul (UTC+3): the weekend runs 31 May 00:00 – 2 June 24:00 local.
+const status = (at: string | number, events?: Parameters<typeof weekendStatus>[1]) => weekendStatus(fixedClock(at)(), events);
+
+describe("weekendStatus", () => {
+  it("counts down to the ceremony before the weekend", () => {
+    const s = status("2026-05-01T12:00:00Z");
+    expect(s).toEqual({ phase: "countdown", untilCeremony: CEREMONY_START - Date.parse("2026-05-01T12:00:00Z"), current: null, next: null });
+    expect(splitDuration(s.untilCeremony)).toEqual({ days: 31, hours: 2, minutes: 0, seconds: 0 });
+  });
+
+  it("goes live at the first instant of the arrival day", () => {
+    expect(LIVE_START).toBe(Date.parse("2026-05-30T21:00:00Z"));
+    expect(status(LIVE_START - 1).phase).toBe("countdown");
+    expect(status(LIVE_START)).toMatchObject({ phase: "live", current: null, next: "welcome" });
+  });
+
+  it("reports the current item and the one after it", () => {
+    expect(status("2026-05-31T10:00:00Z")).toMatchObject({ phase: "live", current: "welcome", next: "wedding" });
+    expect(status("2026-06-01T16:00:00Z")).toMatchObject({ phase: "live", current: "wedding", next: "farewell" });
+  });
+
+  it("shows only what is next between two items", () => {
+    expect(status("2026-06-02T03:00:00Z")).toMatchObject({ phase: "live", current: null, next: "farewell" });
+  });
+
+  it("treats an item's end as exclusive and its start as inclusive", () => {
+    // Welcome ends at 23:00; the wedding ends at 01:00 and the farewell brunch starts at 09:00.
+    expect(status("2026-05-31T20:00:00Z")).toMatchObject({ current: null, next: "wedding" });
+    expect(status("2026-06-01T22:00:00Z")).toMatchObject({ current: null, next: "farewell" });
+    expect(status("2026-06-02T06:00:00Z")).toMatchObject({ current: "farewell", next: null });
+    expect(status("2026-06-02T05:59:59Z")).toMatchObject({ current: null, next: "farewell" });
+  });
+
+  it("is over once 2 June has ended at the venue", () => {
+    expect(status("2026-06-02T20:59:59Z").phase).toBe("live");
+    expect(status("2026-06-02T21:00:00Z")).toEqual({ phase: "over", untilCeremony: 0, current: null, next: null });
+  });
+
+  it("only mentions the events a guest is invited to", () => {
+    expect(status("2026-05-31T10:00:00Z", ["wedding"])).toMatchObject({ current: null, next: "wedding" });
+    expect(status("2026-06-01T16:00:00Z", ["welcome", "wedding"])).toMatchObject({ current: "wedding", next: null });
+    expect(status("2026-06-02T03:00:00Z", ["welcome"])).toMatchObject({ phase: "live", current: null, next: null });
+  });
+});
+
+describe("fixedClock", () => {
+  it("rejects an unreadable time", () => {
+    expect(() => fixedClock("not a date")).toThrow("Invalid clock time");
+  });
+});
@@ -0,0 +1,43 @@
+import { venueToUtc } from "../calendar/ics";
+import { WEEKEND_TIMES } from "../calendar/schedule";
+import { EVENT_DATES } from "../dates";
+import { GUEST_EVENTS, type GuestEvent } from "../guests/types";
+
+export type WeekendPhase = "countdown" | "live" | "over";
+
+export type WeekendStatus = {
+  phase: WeekendPhase;
+  untilCeremony: number;
+  current: GuestEvent | null;
+  next: GuestEvent | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CEREMONY_START = venueToUtc(WEEKEND_TIMES.wedding.start).getTime();
+export const LIVE_START = venueToUtc(`${EVENT_DATES.arrival}T00:00`).getTime();
+export const LIVE_END = venueToUtc(`${EVENT_DATES.departure}T00:00`).getTime() + DAY_MS;
+
+export function weekendStatus(now: number, events: GuestEvent[] = GUEST_EVENTS): WeekendStatus {
+  const phase: WeekendPhase = now < LIVE_START ? "countdown" : now < LIVE_END ? "live" : "over";
+  const timed = events
+    .map((e) => ({ e, start: venueToUtc(WEEKEND_TIMES[e].start).getTime(), end: venueToUtc(WEEKEND_TIMES[e].end).getTime() }))
+    .sort((a, b) => a.start - b.start);
+
+  return {
+    phase,
+    untilCeremony: Math.max(0, CEREMONY_START - now),
+    current: phase === "live" ? (timed.find((x) => x.start <= now && now < x.end)?.e ?? null) : null,
+    next: phase === "live" ? (timed.find((x) => x.start > now)?.e ?? null) : null,
+  };
+}
+
+export function splitDuration(ms: number) {
+  const s = Math.floor(ms / 1000);
+  return {
+    days: Math.floor(s / 86400),
+    hours: Math.floor((s % 86400) / 3600),
+    minutes: Math.floor((s % 3600) / 60),
+    seconds: s % 60,
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { eventDateVars, formatDate, formatDateRange, formatDay } from "./dates";
+
+// ICU puts thin spaces around the en dash in Gregorian ranges.
+const DASH = "\u2009\u2013\u2009";
+
+describe("Persian (Solar Hijri) dates", () => {
+  it("converts the weekend, the wedding day and the RSVP deadline", () => {
+    expect(formatDateRange("2026-05-31", "2026-06-02", "fa")).toBe("۱۰ تا ۱۲ خرداد ۱۴۰۵");
+    expect(formatDate("2025-12-31", "fa")).toBe("۱۰ دی ۱۴۰۴");
+    expect(formatDay("2026-06-01", "fa")).toBe("۱۱ خرداد");
+  });
+});
+
+describe("eventDateVars", () => {
+  it("fills every date placeholder in Persian", () => {
+    expect(eventDateVars("fa")).toEqual({
+      window: "۱۰ تا ۱۲ خرداد ۱۴۰۵",
+      stay: "۱۰ خرداد تا ۱۲ خرداد",
+      arrival: "۱۰ خرداد",
+      wedding: "۱۱ خرداد",
+      weddingDate: "۱۱ خرداد ۱۴۰۵",
+      departure: "۱۲ خرداد",
+      deadline: "۱۰ دی ۱۴۰۴",
+    });
+  });
+
+  it("fills every date placeholder in English", () => {
+    expect(eventDateVars("en")).toEqual({
+      window: `May 31${DASH}June 2, 2026`,
+      stay: `May 31${DASH}June 2`,
+      arrival: "May 31",
+      wedding: "June 1",
+      weddingDate: "June 1, 2026",
+      departure: "June 2",
+      deadline: "December 31, 2025",
+    });
+  });
+
+  it("fills every date placeholder in German", () => {
+    expect(eventDateVars("de")).toEqual({
+      window: `31. Mai${DASH}2. Juni 2026`,
+      stay: `31. Mai${DASH}2. Juni`,
+      arrival: "31. Mai",
+      wedding: "1. Juni",
+      weddingDate: "1. Juni 2026",
+      departure: "2. Juni",
+      deadline: "31. Dezember 2025",
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { EVENT } from "./event";
+import type { GuestEvent } from "./guests/types";
+import type { Lang } from "./i18n";
+
+export const EVENT_TZ = EVENT.timeZone;
+
+export type IsoDate = `${number}-${number}-${number}`;
+
+export const EVENT_DATES = EVENT.dates;
+
+export const EVENT_DAY: Record<GuestEvent, IsoDate> = {
+  welcome: EVENT_DATES.arrival,
+  wedding: EVENT_DATES.wedding,
+  farewell: EVENT_DATES.departure,
+};
+
+const CALENDAR_LOCALES: Record<Lang, string> = {
+  en: "en-US-u-ca-gregory",
+  fa: "fa-IR-u-ca-persian-nu-arabext",
+  de: "de-DE-u-ca-gregory",
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(lang: Lang, withYear: boolean) {
+  const key = `${lang}:${withYear}`;
+  let f = formatters.get(key);
+  if (!f) {
+    f = new Intl.DateTimeFormat(CALENDAR_LOCALES[lang], {
+      year: withYear ? "numeric" : undefined,
+      month: "long",
+      day: "numeric",
+      timeZone: EVENT_TZ,
+    });
+    formatters.set(key, f);
+  }
+  return f;
+}
+
+export function isoToDate(iso: IsoDate) {
+  return new Date(`${iso}T12:00:00Z`);
+}
+
+export function formatDay(iso: IsoDate, lang: Lang) {
+  return formatter(lang, false).format(isoToDate(iso));
+}
+
+export function formatDate(iso: IsoDate, lang: Lang) {
+  return formatter(lang, true).format(isoToDate(iso));
+}
+
+export function formatDateRange(start: IsoDate, end: IsoDate, lang: Lang, withYear = true) {
+  return formatter(lang, withYear).formatRange(isoToDate(start), isoToDate(end));
+}
+
+/** Date and time of a moment (e.g. an upload), shown in venue time. */
+export function formatTimestamp(date: Date, lang: Lang) {
+  return new Intl.DateTimeFormat(CALENDAR_LOCALES[lang], {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: EVENT_TZ,
+  }).format(date);
+}
+
+/** A single moment as weekday, day and time in venue time (e.g. a shuttle pickup). */
+export function formatDayTime(date: Date, lang: Lang) {
+  return new Intl.DateTimeFormat(CALENDAR_LOCALES[lang], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: EVENT_TZ,
+  }).format(date);
+}
+
+const wallClocks = new Map<string, Intl.DateTimeFormat>();
+
+/** Minutes `timeZone` runs ahead of UTC at `at`, e.g. 180 for Istanbul; negative west of Greenwich. */
+export function zoneOffsetMinutes(timeZone: string, at: Date) {
+  let f = wallClocks.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+      timeZone,
+    });
+    wallClocks.set(timeZone, f);
+  }
+  const parts = f.formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wall = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+  return (wall - Math.floor(at.getTime() / 60_000) * 60_000) / 60_000;
+}
+
+export function guestTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** Whether clocks in `timeZone` read the same as at the venue at `at`. */
+export function sameWallClock(timeZone: string, at: Date) {
+  const wall = (tz: string) =>
+    new Intl.DateTimeFormat("en-US", { dateStyle: "short", timeStyle: "short", hourCycle: "h23", timeZone: tz }).format(at);
+  return wall(timeZone) === wall(EVENT_TZ);
+}
+
+/** Times only; weekdays are added when asked for or when the range runs past midnight. */
+export function formatTimeRange(start: Date, end: Date, lang: Lang, timeZone = EVENT_TZ, withDay = false) {
+  const day = (d: Date) => new Intl.DateTimeFormat("en-US", { dateStyle: "short", timeZone }).format(d);
+  const crosses = day(start) !== day(end);
+  const f = new Intl.DateTimeFormat(CALENDAR_LOCALES[lang], {
+    weekday: withDay || crosses ? "short" : undefined,
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+  // formatRange spells out full dates once the days differ; two plain times read better.
+  return crosses ? `${f.format(start)} – ${f.format(end)}` : f.formatRange(start, end);
+}
+
+export function timeZoneName(timeZone: string, lang: Lang, at: Date) {
+  const parts = new Intl.DateTimeFormat(CALENDAR_LOCALES[lang], { timeZone, timeZoneName: "short" }).formatToParts(at);
+  return parts.find((p) => p.type === "timeZoneName")?.value ?? timeZone;
+}
+
+export function eventDateVars(lang: Lang) {
+  return {
+    window: formatDateRange(EVENT_DATES.arrival, EVENT_DATES.departure, lang),
+    stay: formatDateRange(EVENT_DATES.arrival, EVENT_DATES.departure, lang, false),
+    arrival: formatDay(EVENT_DATES.arrival, lang),
+    wedding: formatDay(EVENT_DATES.wedding, lang),
+    weddingDate: formatDate(EVENT_DATES.wedding, lang),
+    departure: formatDay(EVENT_DATES.departure, lang),
+    deadline: formatDate(EVENT_DATES.rsvpDeadline, lang),
+  };
+}
@@ -0,0 +1,29 @@
+import { StrictMode } from "react";
+import { renderToString } from "react-dom/server";
+import { MotionConfig } from "framer-motion";
+import CaresseInvite from "./CaresseInvite";
+import { defaultAdapters } from "./adapters";
+import { langPath, type Lang } from "./i18n";
+import { headTags, pageMeta } from "./seo";
+
+export { LANGS } from "./i18n";
+export { SITE_URL } from "./seo";
+
+// Entry for `scripts/prerender.mjs`: the generic (non-personalized) invitation per language.
+export function render(lang: Lang) {
+  const meta = pageMeta(lang);
+  const html = renderToString(
+    <StrictMode>
+      <MotionConfig reducedMotion="user">
+        <CaresseInvite initialLang={lang} adapters={defaultAdapters()} />
+      </MotionConfig>
+    </StrictMode>
+  );
+  return {
+    lang,
+    dir: meta.dir,
+    file: `${langPath(lang).slice(import.meta.env.BASE_URL.length)}index.html`,
+    head: headTags(meta),
+    html,
+  };
+}
@@ -0,0 +1,232 @@
+import type { EventConfig } from "./types";
+
+export const CARESSE = {
+  slug: "caresse",
+  couple: { en: "Omid & Annika", fa: "امید و آنیکا", de: "Omid & Annika" },
+  venue: {
+    name: "Caresse Bodrum",
+    address: "Caresse, a Luxury Collection Resort & Spa, Bodrum, Muğla, Türkiye",
+    tagline: "Bodrum • Aegean Sea",
+  },
+  dates: {
+    arrival: "2026-05-31",
+    wedding: "2026-06-01",
+    departure: "2026-06-02",
+    rsvpDeadline: "2025-12-31",
+  },
+  timeZone: "Europe/Istanbul",
+  sections: ["venue", "bodrum", "istanbul", "weekend", "rsvp", "stay", "notes", "travel", "gallery", "album"],
+  menu: [
+    {
+      id: "sea-bass",
+      name: { en: "Aegean sea bass", fa: "ماهی سی‌باس اژه", de: "Ägäischer Wolfsbarsch" },
+      description: {
+        en: "Grilled over charcoal with lemon, olive oil and wild greens",
+        fa: "کبابی روی زغال با لیمو، روغن زیتون و سبزی‌های وحشی",
+        de: "Über Holzkohle gegrillt, mit Zitrone, Olivenöl und Wildkräutern",
+      },
+      suits: ["pescatarian", "halal"],
+      contains: ["fish"],
+    },
+    {
+      id: "lamb",
+      name: { en: "Slow-cooked lamb", fa: "گوشت بره با پخت آرام", de: "Geschmortes Lamm" },
+      description: {
+        en: "Bodrum style, on smoked aubergine purée with butter and kaşar",
+        fa: "به سبک بدروم، روی پوره‌ی بادمجان دودی با کره و پنیر کاشار",
+        de: "Nach Bodrumer Art, auf geräuchertem Auberginenpüree mit Butter und Kaşar",
+      },
+      suits: ["halal"],
+      contains: ["milk"],
+    },
+    {
+      id: "garden",
+      name: { en: "Stuffed summer vegetables", fa: "دلمه‌ی سبزیجات تابستانی", de: "Gefülltes Sommergemüse" },
+      description: {
+        en: "Peppers and courgette flowers with herb bulgur and a tahini dressing",
+        fa: "فلفل و گل کدو با بلغور معطر و سس ارده",
+        de: "Paprika und Zucchiniblüten mit Kräuterbulgur und Tahin-Dressing",
+      },
+      suits: ["vegetarian", "vegan", "pescatarian", "halal", "kosher"],
+      contains: ["gluten", "sesame"],
+    },
+  ],
+  rooms: [
+    { id: "deluxe", name: { en: "Deluxe sea-view room", fa: "اتاق دلوکس رو به دریا", de: "Deluxe-Zimmer mit Meerblick" }, beds: 2, count: 24 },
+    { id: "junior-suite", name: { en: "Junior suite", fa: "سوئیت جونیور", de: "Junior Suite" }, beds: 3, count: 8 },
+    { id: "family", name: { en: "Family room", fa: "اتاق خانوادگی", de: "Familienzimmer" }, beds: 4, count: 4 },
+  ],
+  photos: [
+    {
+      id: "drone-bay-1",
+      title: {
+        en: "The private bay: Caresse from above",
+        fa: "خلیج خصوصی: کارِسه از بالا",
+        de: "Die private Bucht: Caresse von oben",
+      },
+      tag: "Aerial • Bay",
+      remote: "https://cache.marriott.com/is/image/marriotts7prod/lc-bjvlc-drone-view-23060%3AWide-Hor",
+    },
+    {
+      id: "drone-resort-2",
+      title: {
+        en: "Aegean shoreline panorama",
+        fa: "چشم‌انداز ساحل اژه",
+        de: "Panorama der Ägäisküste",
+      },
+      tag: "Aerial • Panorama",
+      remote: "https://cache.marriott.com/is/image/marriotts7prod/lc-bjvlc-drone-view-37065%3AWide-Hor",
+    },
+    {
+      id: "hotel-exterior",
+      title: {
+        en: "Resort exterior",
+        fa: "نمای بیرونی ریزورت",
+        de: "Außenansicht des Resorts",
+      },
+      tag: "Resort",
+      remote: "https://cache.marriott.com/is/image/marriotts7prod/lc-bjvlc-hotel-exterior-11389%3AWide-Hor",
+    },
+    {
+      id: "beach-hero",
+      title: {
+        en: "Turquoise beach day",
+        fa: "روزی در ساحل فیروزه‌ای",
+        de: "Ein Tag am türkisblauen Strand",
+      },
+      tag: "Beach",
+      remote: "https://cache.marriott.com/content/dam/marriott-renditions/BJVLC/bjvlc-caresse-beach-6997-hor-wide.jpg",
+    },
+    {
+      id: "private-beach",
+      title: {
+        en: "Private beach & teak decks",
+        fa: "ساحل خصوصی و عرشه‌های چوبی",
+        de: "Privatstrand & Teakdecks",
+      },
+      tag: "Beach • Deck",
+      remote: "https://cache.marriott.com/content/dam/marriott-renditions/BJVLC/bjvlc-private-beach-9546-hor-wide.jpg",
+    },
+    {
+      id: "cabanas",
+      title: {
+        en: "Cabanas & daybeds",
+        fa: "کاباناها و تخت‌های ساحلی",
+        de: "Cabanas & Liegen",
+      },
+      tag: "Beach • Cabanas",
+      remote: "https://cache.marriott.com/content/dam/marriott-renditions/BJVLC/bjvlc-cabanas-9527-hor-wide.jpg",
+    },
+    {
+      id: "pool-main",
+      title: {
+        en: "Infinity pool above the shoreline",
+        fa: "استخر اینفینیتی رو به ساحل",
+        de: "Infinity-Pool über der Küste",
+      },
+      tag: "Pool",
+      remote: "https://cache.marriott.com/content/dam/marriott-renditions/BJVLC/bjvlc-pool-9526-hor-wide.jpg",
+    },
+    {
+      id: "sunset-lounge",
+      title: {
+        en: "Sunset Lounge",
+        fa: "سانست لانج",
+        de: "Sunset Lounge",
+      },
+      tag: "Sunset",
+      remote: "https://cache.marriott.com/content/dam/marriott-renditions/BJVLC/bjvlc-sunset-lounge-9529-hor-wide.jpg",
+    },
+    {
+      id: "glass-restaurant",
+      title: {
+        en: "Glass Restaurant terrace",
+        fa: "تراس رستوران گلس",
+        de: "Terrasse des Glass Restaurant",
+      },
+      tag: "Dining",
+      remote: "https://cache.marriott.com/content/dam/marriott-renditions/BJVLC/bjvlc-glass-restaurant-9570-hor-wide.jpg",
+    },
+    {
+      id: "buddha-bar",
+      title: {
+        en: "Buddha-Bar Beach Bodrum",
+        fa: "بودا بار بیچ بدروم",
+        de: "Buddha-Bar Beach Bodrum",
+      },
+      tag: "Beach Club",
+      remote: "https://cache.marriott.com/content/dam/marriott-renditions/BJVLC/bjvlc-buddha-restaurant-1797-hor-wide.jpg",
+    },
+    {
+      id: "spa",
+      title: {
+        en: "Spa Caresse",
+        fa: "اسپای کارِسه",
+        de: "Spa Caresse",
+      },
+      tag: "Wellness",
+      remote: "https://cache.marriott.com/content/dam/marriott-renditions/BJVLC/bjvlc-spa-caresse-9616-hor-wide.jpg",
+    },
+    {
+      id: "indoor-pool",
+      title: {
+        en: "Indoor pool",
+        fa: "استخر سرپوشیده",
+        de: "Hallenbad",
+      },
+      tag: "Wellness",
+      remote: "https://cache.marriott.com/is/image/marriotts7prod/bjvlc-indoor-pool-9613%3AWide-Hor",
+    },
+    {
+      id: "save-the-date",
+      title: {
+        en: "Our save-the-date: sunset over the bay",
+        fa: "کارت «تاریخ را نگه دارید»: غروب بر فراز خلیج",
+        de: "Unsere Save-the-Date-Karte: Sonnenuntergang über der Bucht",
+      },
+      tag: "Sunset • Bay",
+    },
+  ],
+  theme: {
+    day: {
+      page: "#f7f2e9",
+      surface: "#ffffff",
+      ink: "#0f172a",
+      onInk: "#ffffff",
+      muted: "#334155",
+      subtle: "#64748b",
+      accent: "#0d9488",
+      accentInk: "#0f766e",
+      highlight: "#c026d3",
+      shadow: "#0f172a",
+      sea: "#e0f2fe",
+      land: "#f5efe3",
+      gradient: ["#f0f7fb", "#eef9f7"],
+      glows: ["rgba(255,220,160,0.65)", "rgba(167,243,208,0.55)", "rgba(186,230,253,0.70)"],
+      sun: "#ffd9a8",
+      blush: "#ffc2d9",
+    },
+    // Sunset over the bay: plum dusk, coral and rose glows, softened ink.
+    evening: {
+      page: "#1d1727",
+      surface: "#2c2438",
+      ink: "#f6efe6",
+      onInk: "#1d1727",
+      muted: "#d3c7dc",
+      subtle: "#a395b3",
+      accent: "#2dd4bf",
+      accentInk: "#5eead4",
+      highlight: "#f472b6",
+      shadow: "#000000",
+      sea: "#1f2b46",
+      land: "#3b3148",
+      gradient: ["#241b33", "#1a1424"],
+      glows: ["rgba(251,146,60,0.32)", "rgba(236,72,153,0.26)", "rgba(124,58,237,0.30)"],
+      sun: "#fb923c",
+      blush: "#f472b6",
+    },
+  },
+  links: {
+    venue: "https://www.caresse.com.tr/en",
+  },
+} satisfies EventConfig;
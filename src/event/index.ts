@@ -0,0 +1,5 @@
+import { CARESSE } from "./caresse";
+import { loadEventConfig } from "./validate";
+
+/** The event this build renders. Point this at another config to reuse the page. */
+export const EVENT = loadEventConfig(CARESSE, "Caresse event config");
@@ -0,0 +1,46 @@
+import type { IsoDate } from "../dates";
+import type { Lang } from "../i18n";
+import type { Course } from "../meals/types";
+import type { CatalogEntry } from "../photos/catalog";
+import type { RoomType } from "../rooms/types";
+import type { ThemeName, ThemeTokens } from "../theme/tokens";
+
+/** Page sections, in their default order. An event's `sections` picks and orders a subset. */
+export const SECTION_IDS = ["venue", "bodrum", "istanbul", "weekend", "rsvp", "stay", "notes", "travel", "gallery", "album"] as const;
+
+export type SectionId = (typeof SECTION_IDS)[number];
+
+export type EventDates = {
+  arrival: IsoDate;
+  wedding: IsoDate;
+  departure: IsoDate;
+  rsvpDeadline: IsoDate;
+};
+
+export type EventConfig = {
+  /** Lower-case id used in download file names and calendar UIDs. */
+  slug: string;
+  couple: Record<Lang, string>;
+  venue: {
+    name: string;
+    /** Full postal address, used as the calendar event location. */
+    address: string;
+    /** Short line on the footer badge; the wedding year is appended. */
+    tagline: string;
+  };
+  dates: EventDates;
+  /** IANA zone of the venue, e.g. "Europe/Istanbul"; every wall-clock time in the schedule is read in it. */
+  timeZone: string;
+  sections: SectionId[];
+  /** Main courses guests choose from when they RSVP; leave empty to skip the dinner questions. */
+  menu: Course[];
+  /** The room block held at the venue; guests ask for a type and the organizer assigns rooms. */
+  rooms: RoomType[];
+  /** Gallery entries; the first is the hero and link-preview image. */
+  photos: CatalogEntry[];
+  /** "day" is the default; "evening" follows a dark system preference or the guest's toggle. */
+  theme: Record<ThemeName, ThemeTokens>;
+  links: {
+    venue: string;
+  };
+};
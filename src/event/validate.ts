@@ -0,0 +1,188 @@
+import { LANGS } from "../i18n";
+import { ALLERGENS, DIETS } from "../meals/types";
+import { THEME_NAMES, THEME_VARS } from "../theme/tokens";
+import { SECTION_IDS, type EventConfig } from "./types";
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const COLOR = /^(#[0-9a-f]{3,8}|(rgb|rgba|hsl|hsla|oklch)\([^)]*\)|[a-z]+)$/i;
+
+type Problems = string[];
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function text(p: Problems, v: unknown, path: string) {
+  if (typeof v !== "string" || !v.trim()) p.push(`${path}: expected a non-empty string`);
+}
+
+function url(p: Problems, v: unknown, path: string) {
+  try {
+    if (typeof v === "string" && /^https?:$/.test(new URL(v).protocol)) return;
+  } catch {
+    // reported below
+  }
+  p.push(`${path}: expected an http(s) URL, got ${JSON.stringify(v)}`);
+}
+
+function perLang(p: Problems, v: unknown, path: string) {
+  if (!isRecord(v)) return p.push(`${path}: expected one string per language (${LANGS.join(", ")})`);
+  for (const l of LANGS) text(p, v[l], `${path}.${l}`);
+}
+
+function isoDate(p: Problems, v: unknown, path: string) {
+  const ok = typeof v === "string" && ISO_DATE.test(v) && new Date(`${v}T00:00:00Z`).toISOString().startsWith(v);
+  if (!ok) p.push(`${path}: expected a YYYY-MM-DD date, got ${JSON.stringify(v)}`);
+  return ok;
+}
+
+function timeZone(p: Problems, v: unknown, path: string) {
+  try {
+    if (typeof v === "string" && v.trim()) {
+      // Throws a RangeError for names the runtime's time zone database does not know.
+      new Intl.DateTimeFormat("en-US", { timeZone: v });
+      return;
+    }
+  } catch {
+    // reported below
+  }
+  p.push(`${path}: expected an IANA time zone like "Europe/Istanbul", got ${JSON.stringify(v)}`);
+}
+
+function colors(p: Problems, v: unknown, path: string, count: number) {
+  if (!Array.isArray(v) || v.length !== count) return p.push(`${path}: expected ${count} colours`);
+  v.forEach((c, i) => color(p, c, `${path}[${i}]`));
+}
+
+function color(p: Problems, v: unknown, path: string) {
+  if (typeof v !== "string" || !COLOR.test(v.trim())) p.push(`${path}: expected a CSS colour, got ${JSON.stringify(v)}`);
+}
+
+function checkDates(p: Problems, v: unknown) {
+  if (!isRecord(v)) return p.push("dates: missing");
+  const keys = ["arrival", "wedding", "departure", "rsvpDeadline"] as const;
+  if (!keys.map((k) => isoDate(p, v[k], `dates.${k}`)).every(Boolean)) return;
+  // ISO dates compare correctly as strings.
+  const d = v as Record<(typeof keys)[number], string>;
+  if (!(d.arrival <= d.wedding && d.wedding <= d.departure)) p.push("dates: expected arrival ≤ wedding ≤ departure");
+  if (d.rsvpDeadline > d.arrival) p.push("dates.rsvpDeadline: must not be after arrival");
+}
+
+function checkTheme(p: Problems, v: unknown, path: string) {
+  if (!isRecord(v)) return p.push(`${path}: missing`);
+  for (const k of [...THEME_VARS, "sun", "blush"]) color(p, v[k], `${path}.${k}`);
+  colors(p, v.gradient, `${path}.gradient`, 2);
+  colors(p, v.glows, `${path}.glows`, 3);
+}
+
+function checkSections(p: Problems, v: unknown) {
+  if (!Array.isArray(v) || v.length === 0) return p.push("sections: expected a non-empty list of section ids");
+  const seen = new Set<unknown>();
+  v.forEach((id, i) => {
+    if (!(SECTION_IDS as readonly unknown[]).includes(id)) {
+      p.push(`sections[${i}]: unknown section ${JSON.stringify(id)}; expected one of ${SECTION_IDS.join(", ")}`);
+    } else if (seen.has(id)) {
+      p.push(`sections[${i}]: "${id}" is listed twice`);
+    }
+    seen.add(id);
+  });
+}
+
+function subset(p: Problems, v: unknown, allowed: readonly string[], path: string) {
+  if (!Array.isArray(v)) return p.push(`${path}: expected a list`);
+  v.forEach((x, i) => {
+    if (!allowed.includes(x)) p.push(`${path}[${i}]: unknown value ${JSON.stringify(x)}; expected one of ${allowed.join(", ")}`);
+  });
+}
+
+function checkMenu(p: Problems, v: unknown) {
+  if (!Array.isArray(v)) return p.push("menu: expected a list of courses (it may be empty)");
+  const ids = new Set<unknown>();
+  v.forEach((course: unknown, i) => {
+    const at = `menu[${i}]`;
+    if (!isRecord(course)) return p.push(`${at}: expected an object`);
+    text(p, course.id, `${at}.id`);
+    if (ids.has(course.id)) p.push(`${at}.id: "${String(course.id)}" is used twice`);
+    ids.add(course.id);
+    perLang(p, course.name, `${at}.name`);
+    perLang(p, course.description, `${at}.description`);
+    subset(p, course.suits, DIETS, `${at}.suits`);
+    subset(p, course.contains, ALLERGENS, `${at}.contains`);
+  });
+}
+
+function checkRooms(p: Problems, v: unknown) {
+  if (!Array.isArray(v)) return p.push("rooms: expected a list of room types (it may be empty)");
+  const ids = new Set<unknown>();
+  v.forEach((room: unknown, i) => {
+    const at = `rooms[${i}]`;
+    if (!isRecord(room)) return p.push(`${at}: expected an object`);
+    if (typeof room.id !== "string" || !SLUG.test(room.id)) p.push(`${at}.id: expected lower-case letters, digits and dashes`);
+    if (ids.has(room.id)) p.push(`${at}.id: "${String(room.id)}" is used twice`);
+    ids.add(room.id);
+    perLang(p, room.name, `${at}.name`);
+    for (const k of ["beds", "count"]) {
+      const n = room[k];
+      if (typeof n !== "number" || !Number.isInteger(n) || n < 1) p.push(`${at}.${k}: expected a whole number ≥ 1, got ${JSON.stringify(n)}`);
+    }
+  });
+}
+
+function checkPhotos(p: Problems, v: unknown) {
+  if (!Array.isArray(v) || v.length === 0) return p.push("photos: expected at least one photo");
+  const ids = new Set<unknown>();
+  v.forEach((photo: unknown, i) => {
+    const at = `photos[${i}]`;
+    if (!isRecord(photo)) return p.push(`${at}: expected an object`);
+    text(p, photo.id, `${at}.id`);
+    if (ids.has(photo.id)) p.push(`${at}.id: "${String(photo.id)}" is used twice`);
+    ids.add(photo.id);
+    perLang(p, photo.title, `${at}.title`);
+    if (photo.remote !== undefined) url(p, photo.remote, `${at}.remote`);
+  });
+}
+
+/** Every problem with `config`, as "path: message" lines; empty when it is usable. */
+export function eventConfigProblems(config: unknown): string[] {
+  const p: Problems = [];
+  if (!isRecord(config)) return ["expected an object"];
+
+  if (typeof config.slug !== "string" || !SLUG.test(config.slug)) {
+    p.push(`slug: expected lower-case letters, digits and dashes, got ${JSON.stringify(config.slug)}`);
+  }
+  perLang(p, config.couple, "couple");
+
+  if (isRecord(config.venue)) {
+    for (const k of ["name", "address", "tagline"]) text(p, config.venue[k], `venue.${k}`);
+  } else {
+    p.push("venue: missing");
+  }
+
+  checkDates(p, config.dates);
+  timeZone(p, config.timeZone, "timeZone");
+  checkSections(p, config.sections);
+  checkMenu(p, config.menu);
+  checkRooms(p, config.rooms);
+  checkPhotos(p, config.photos);
+
+  if (isRecord(config.theme)) {
+    for (const name of THEME_NAMES) checkTheme(p, config.theme[name], `theme.${name}`);
+  } else {
+    p.push("theme: missing");
+  }
+
+  if (isRecord(config.links)) url(p, config.links.venue, "links.venue");
+  else p.push("links: missing");
+
+  return p;
+}
+
+/** Returns `config` typed, or throws listing everything wrong with it so a bad config fails on load, not mid-render. */
+export function loadEventConfig(config: unknown, name = "event config"): EventConfig {
+  const problems = eventConfigProblems(config);
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${name} (${problems.length} problem${problems.length === 1 ? "" : "s"}):\n${problems.map((m) => `  - ${m}`).join("\n")}`);
+  }
+  return config as EventConfig;
+}
@@ -0,0 +1,7 @@
+// Generated by scripts/generate-guests.mjs from guests.example.csv — do not edit by hand.
+import type { Guest } from "./types";
+
+export const GUESTS: Guest[] = [
+  {"token":"k7q2m9xa","name":"Sara & Dariush","party":["Sara Karimi","Dariush Karimi"],"plusOnes":0,"lang":"fa","events":["welcome","wedding","farewell"]},
+  {"token":"p4w8n1zc","name":"Lena","party":["Lena Vogel"],"plusOnes":1,"lang":"en","events":["wedding"]},
+];
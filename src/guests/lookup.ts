@@ -0,0 +1,43 @@
+import { GUESTS } from "./guestList";
+import type { Guest } from "./types";
+
+const byToken = new Map(GUESTS.map((g) => [g.token, g]));
+
+export function findGuest(token: string | null | undefined): Guest | null {
+  return token ? (byToken.get(token.trim()) ?? null) : null;
+}
+
+export function guestFromLocation(): Guest | null {
+  if (typeof window === "undefined") return null;
+  return findGuest(new URLSearchParams(window.location.search).get("g"));
+}
+
+export function guestMaxParty(guest: Guest) {
+  return Math.max(1, guest.party.length + guest.plusOnes);
+}
+
+const VISITOR_KEY = "wedding_visitor";
+
+// `crypto.randomUUID` only exists in secure contexts; a plain-http LAN preview has to do without.
+function randomId() {
+  return typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Storage key for someone on the generic page (no `?g=` token). Each browser gets its own random id,
+ * kept in localStorage, so anonymous responses don't overwrite one another.
+ */
+export function visitorKey(): string {
+  if (typeof window === "undefined") return "visitor";
+  const fresh = `visitor-${randomId()}`;
+  try {
+    const saved = window.localStorage.getItem(VISITOR_KEY);
+    if (saved) return saved;
+    window.localStorage.setItem(VISITOR_KEY, fresh);
+  } catch {
+    // Storage is blocked: the id lasts for this page load only.
+  }
+  return fresh;
+}
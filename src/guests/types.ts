@@ -0,0 +1,14 @@
+import type { Lang } from "../i18n";
+
+export type GuestEvent = "welcome" | "wedding" | "farewell";
+
+export const GUEST_EVENTS: GuestEvent[] = ["welcome", "wedding", "farewell"];
+
+export type Guest = {
+  token: string;
+  name: string;
+  party: string[];
+  plusOnes: number;
+  lang: Lang;
+  events: GuestEvent[];
+};
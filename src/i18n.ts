@@ -0,0 +1,50 @@
+export const LANGS = ["en", "fa", "de"] as const;
+
+export type Lang = (typeof LANGS)[number];
+
+const LOCALE_TAGS: Record<Lang, string> = { en: "en-US", fa: "fa-IR", de: "de-DE" };
+
+export function isLang(v: unknown): v is Lang {
+  return typeof v === "string" && (LANGS as readonly string[]).includes(v);
+}
+
+export function savedLang(): Lang | null {
+  try {
+    const saved = window.localStorage.getItem("wedding_lang");
+    return isLang(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+/** English lives at the site root; every other language under its own path, e.g. `/fa/`. */
+export function langPath(lang: Lang) {
+  return `${import.meta.env.BASE_URL}${lang === "en" ? "" : `${lang}/`}`;
+}
+
+export function langFromPath(pathname: string): Lang | null {
+  const base = import.meta.env.BASE_URL;
+  const rest = pathname.startsWith(base) ? pathname.slice(base.length) : pathname;
+  const first = rest.split("/").filter(Boolean)[0];
+  return isLang(first) ? first : null;
+}
+
+export function langFromLocation(): Lang | null {
+  return typeof window === "undefined" ? null : langFromPath(window.location.pathname);
+}
+
+export function isRtl(lang: Lang) {
+  return lang === "fa";
+}
+
+export function localeTag(lang: Lang) {
+  return LOCALE_TAGS[lang];
+}
+
+export function formatNumber(n: number, lang: Lang) {
+  return n.toLocaleString(localeTag(lang));
+}
+
+export function fill(template: string, vars: Record<string, string | number>) {
+  return template.replace(/\{(\w+)\}/g, (m, k: string) => (k in vars ? String(vars[k]) : m));
+}
@@ -0,0 +1,36 @@
+export const API_BASE: string | undefined = import.meta.env.VITE_API_BASE || undefined;
+
+export async function requestJson<T>(url: string, init?: RequestInit): Promise<T | null> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+  if (res.status === 404 || res.status === 204) return null;
+  if (!res.ok) throw new Error(`${init?.method ?? "GET"} ${url} failed: ${res.status} ${res.statusText}`);
+  return (await res.json()) as T;
+}
+
+export function readLocal<T>(key: string): T | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function writeLocal(key: string, value: unknown) {
+  window.localStorage.setItem(key, JSON.stringify(value));
+}
+
+/** Every value stored under `${prefix}:<key>`, by key. */
+export function listLocal<T>(prefix: string): Record<string, T> {
+  const out: Record<string, T> = {};
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const storageKey = window.localStorage.key(i);
+    if (!storageKey?.startsWith(`${prefix}:`)) continue;
+    const value = readLocal<T>(storageKey);
+    if (value) out[storageKey.slice(prefix.length + 1)] = value;
+  }
+  return out;
+}
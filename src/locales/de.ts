@@ -0,0 +1,492 @@
+import type { Locale } from "./schema";
+
+export const de = {
+  langName: "Deutsch",
+  nav: {
+    venue: "Resort",
+    bodrum: "Warum Bodrum",
+    istanbul: "Istanbul",
+    weekend: "Wochenende",
+    rsvp: "Zusage",
+    stay: "Zimmer",
+    notes: "Hinweise",
+    travel: "Anreise",
+    gallery: "Fotos",
+    language: "Sprache",
+    evening: "Abendmodus",
+    menu: "Menü",
+    closeMenu: "Menü schließen",
+  },
+  greeting: "Hallo {name},",
+  title: "Eine internationale iranische Hochzeit an der Ägäis",
+  location: "Bodrum, Türkei",
+  countdown: {
+    label: "Bis zum Jawort",
+    days: "Tage",
+    hours: "Std.",
+    minutes: "Min.",
+    seconds: "Sek.",
+    live: "Das Hochzeitswochenende ist jetzt",
+    now: "Gerade jetzt",
+    next: "Als Nächstes",
+    over: "Danke, dass ihr mit uns gefeiert habt!",
+  },
+  copy:
+    "An der funkelnden Ägäis, dort wo Bodrum aus dem türkisblauen Horizont auftaucht, laden Omid und Annika euch ein, sie und ihre wunderbare Familie im Caresse Luxury Resort zu ihrer finalen Hochzeitsfeier am {weddingDate} zu begleiten. Die Unterkunft im Resort ist vom {arrival} bis {departure} gestellt (Nächte vom {arrival} und {wedding}). Früher Check-in am {arrival} und später Check-out am {departure} sind organisiert.",
+  venueSite: "Zur Website des {venue}",
+  rsvp: "Bitte sagt bis zum {deadline} zu — über das Formular unten oder direkt bei Omid oder Annika.",
+  venueTitle: "Das Resort",
+  venueSubtitle: "Private Bucht, Strandterrassen, ein traumhafter Pool und dieses besondere Licht von Bodrum.",
+  venueCards: [
+    { icon: "waves", title: "Direkt am Strand", text: "Nur ein paar Schritte vom Zimmer ins Meer, mit Decks und Liegen direkt am Wasser." },
+    { icon: "utensils", title: "Essen + Atmosphäre", text: "Tagsüber Beachclub-Stimmung, abends feine Küche und Cocktails." },
+    { icon: "sparkles", title: "Das Caresse-Gefühl", text: "Klare Linien, warme Materialien und Sonnenuntergänge, die alle draußen halten." },
+  ],
+  bodrumTitle: "Warum Bodrum",
+  bodrumSubtitle: "Ein Ort wie eine Mittelmeer-Postkarte – Geschichte, Wasser, gutes Essen und lange goldene Sonnenuntergänge.",
+  bodrumCards: [
+    { icon: "waves", title: "Strände + Buchten", text: "Klares Wasser, versteckte Buchten und entspannte Badetage." },
+    { icon: "camera", title: "Altstadt + Marina", text: "Boutiquen, Cafés und abendliche Spaziergänge in warmer Luft." },
+    { icon: "info", title: "Geschichte vor der Tür", text: "Die Burg St. Peter und Tagesausflüge mit echtem Wow-Effekt." },
+  ],
+  istanbulTitle: "Ein paar Tage Istanbul dranhängen",
+  istanbulSubtitle:
+    "Wenn es passt, hängt 2–4 Tage an. Istanbul ist eine der faszinierendsten Städte der Welt – Blick auf den Bosporus, Streetfood, historische Viertel und eine Cafékultur, der nie die Energie ausgeht.",
+  istanbulCards: [
+    { icon: "sparkles", title: "Zwei Kontinente, eine Skyline", text: "Fähren über den Bosporus und Viertel, die von Block zu Block ihren Charakter ändern." },
+    { icon: "utensils", title: "Essen, das den Umweg lohnt", text: "Meze, Bäckereien, Kaffee und Snacks bis spät in die Nacht – vom Straßenstand bis zur Spitzenküche." },
+    { icon: "camera", title: "Geschichte zum Anfassen", text: "Basare, Moscheen, Paläste und Gassen – uralte Schichten mitten im modernen Stadtleben." },
+  ],
+  weekendTitle: "Das Wochenende",
+  weekendSubtitle: "Zwei Nächte im Resort ({arrival} & {wedding}), mit frühem Check-in am {arrival} und spätem Check-out am {departure}.",
+  weekend: [
+    {
+      event: "welcome",
+      title: "Früher Check-in + Willkommen",
+      text: "Ankommen, durchatmen, schwimmen, Sonnenuntergang.",
+      tbd: "Den Plan für den Abend teilen wir, sobald er steht.",
+    },
+    {
+      event: "wedding",
+      title: "Hochzeitstag + Afterparty",
+      text: "Zeremonie zur goldenen Stunde, Dinner am Meer und eine lange Nacht.",
+      tbd: "Den genauen Ablauf schicken wir näher am Termin.",
+    },
+    { event: "farewell", title: "Später Check-out + Abschied", text: "Ruhiger Morgen, Kaffee, Strandzeit, Umarmungen – dann die Abreise." },
+  ],
+  agenda: {
+    title: "Ablauf",
+    venueTime: "Resort-Zeit (TRT)",
+    localTime: "Meine Zeit ({zone})",
+    dressCode: "Dresscode",
+    spots: {
+      lobby: "Lobby",
+      beachDeck: "Stranddeck",
+      glassRestaurant: "Glass Restaurant",
+      sunsetLounge: "Sunset Lounge",
+    },
+    dress: {
+      resortCasual: "Resort-Casual",
+      formal: "Festlich",
+      swimwear: "Badekleidung erwünscht",
+    },
+  },
+  calendar: {
+    add: "Zum Kalender hinzufügen",
+    google: "Google Kalender",
+    wholeWeekend: "Ganzes Wochenende hinzufügen (.ics)",
+  },
+  rsvpTitle: "Zusage",
+  rsvpSubtitle: "Bitte antwortet bis zum {deadline}. Bis dahin könnt ihr eure Antwort jederzeit ändern.",
+  rsvpCta: "Jetzt zusagen",
+  rsvpForm: {
+    attending: "Seid ihr dabei?",
+    yes: "Wir kommen gern",
+    no: "Leider nicht",
+    partySize: "Anzahl Personen",
+    names: "Namen der Gäste",
+    firstGuestName: "Dein vollständiger Name",
+    guestName: "Vollständiger Name von Gast {n}",
+    nights: "Nächte im Resort",
+    note: "Gibt es etwas, das wir wissen sollten?",
+    notePlaceholder: "Reisepläne, ein Musikwunsch, ein paar Worte an uns…",
+    submit: "Antwort senden",
+    update: "Antwort aktualisieren",
+    saving: "Wird gesendet…",
+    cancel: "Abbrechen",
+    edit: "Antwort ändern",
+    loading: "Deine Antwort wird geladen…",
+    confirmedYes: "Ihr steht auf der Liste – wir freuen uns riesig!",
+    confirmedNo: "Danke für die Rückmeldung. Ihr werdet uns fehlen.",
+    submitFailed: "Deine Antwort konnte nicht gespeichert werden. Bitte versuch es noch einmal oder schreib Omid oder Annika.",
+    errors: {
+      partySize: "Bitte wähle die Anzahl der Personen.",
+      names: "Bitte trag für jeden Gast einen Namen ein.",
+      nights: "Bitte wähle mindestens eine Nacht.",
+      meals: "Bitte wähle für jeden Gast ein Hauptgericht.",
+      note: "Die Nachricht ist etwas zu lang.",
+    },
+  },
+  meals: {
+    title: "Hochzeitsdinner",
+    intro: "Wähle für jeden Gast ein Hauptgericht und sag uns, welche Allergien oder Ernährungsweisen die Küche des Caresse beachten soll.",
+    course: "Hauptgericht",
+    diets: "Ernährungsweise",
+    allergens: "Allergien",
+    other: "Was die Küche sonst noch wissen sollte",
+    otherPlaceholder: "z. B. leichte Senfallergie, kein Koriander",
+    conflict: "Dieses Gericht passt nicht zu allem Angegebenen ({needs}). Wähle ein anderes, oder die Küche passt es an.",
+    undecided: "Kein Hauptgericht gewählt",
+    diet: { vegetarian: "Vegetarisch", vegan: "Vegan", pescatarian: "Pescetarisch", halal: "Halal", kosher: "Koscher" },
+    allergen: {
+      gluten: "Gluten",
+      milk: "Milch",
+      eggs: "Eier",
+      nuts: "Schalenfrüchte",
+      peanuts: "Erdnüsse",
+      fish: "Fisch",
+      shellfish: "Krebstiere",
+      sesame: "Sesam",
+      soy: "Soja",
+    },
+  },
+  stayTitle: "Euer Aufenthalt",
+  staySubtitle: "Zwei Nächte im Resort ({arrival} & {wedding}). Sagt uns, mit wem ihr ein Zimmer teilen möchtet.",
+  rooms: {
+    title: "Zimmerwünsche",
+    intro: "Die Zimmer übernehmen wir. Wählt eine Zimmerkategorie und mit wem ihr euch ein Zimmer teilen möchtet – wir versuchen, es möglich zu machen.",
+    roomType: "Zimmerkategorie",
+    sleeps: "Für {beds} Personen",
+    noPreference: "Egal",
+    shareWith: "Zimmer teilen mit",
+    shareHint: "Optional – nur wenn Betten frei sind. Eure eigene Gruppe bleibt immer zusammen.",
+    note: "Sonst noch etwas?",
+    notePlaceholder: "z. B. getrennte Betten, Erdgeschoss, mit Baby",
+    submit: "Wünsche speichern",
+    update: "Wünsche aktualisieren",
+    saving: "Wird gespeichert…",
+    cancel: "Abbrechen",
+    edit: "Wünsche bearbeiten",
+    loading: "Euer Zimmer wird geladen…",
+    saved: "Danke – wir haben eure Zimmerwünsche.",
+    submitFailed: "Wir konnten eure Wünsche nicht speichern. Bitte versucht es noch einmal.",
+    requested: "Gewünscht",
+    assigned: "{type} · Zimmer {n}",
+    roommates: "Gemeinsam mit {names}",
+    ownRoom: "Nur eure Gruppe",
+    pending: "Sobald die Zimmer verteilt sind, bestätigen wir euer Zimmer hier.",
+    inviteOnly: "Öffnet den persönlichen Link aus eurer Einladung, um uns eure Zimmerwünsche mitzuteilen.",
+    errors: {
+      shareWith: "Bitte wählt Gäste aus der Liste.",
+      note: "Die Notiz ist etwas zu lang.",
+    },
+  },
+  seating: {
+    title: "Finde deinen Tisch",
+    intro: "Dinner am Meer am {date}. Sucht hier nach Namen, um jeden Tisch zu finden.",
+    yours: "Euer Tisch",
+    search: "Name",
+    placeholder: "Mindestens zwei Buchstaben eingeben",
+    noMatch: "Unter diesem Namen ist noch niemand platziert.",
+    pending: "Sobald die Sitzordnung steht, erscheinen die Tische hier.",
+    loading: "Sitzordnung wird geladen…",
+  },
+  notesTitle: "Hinweise",
+  notesSubtitle: "Zwei kleine (aber wichtige) Dinge für den Hochzeitstag.",
+  notesCards: [
+    { icon: "sparkles", title: "Dresscode: Festlich", text: "Für die Hochzeit selbst festliche Kleidung – gern richtig schick." },
+    { icon: "info", title: "Keine Geschenke", text: "Bitte keine Geschenke. Die Reise und eure Anwesenheit sind das Geschenk." },
+    { icon: "utensils", title: "Kommt hungrig", text: "Wir planen ein unglaubliches Dinner mit Cocktails – Details folgen." },
+  ],
+  travelTitle: "Anreise",
+  travelSubtitle: "Die meisten Gäste fliegen zum Flughafen Milas–Bodrum (BJV). Manche Verbindungen führen über Istanbul (IST).",
+  travelCards: [
+    { icon: "plane", title: "Flughafen", text: "BJV liegt am nächsten. Rechnet mit etwa 45 Minuten bis 1 Stunde Fahrt zum Resort." },
+    {
+      icon: "mapPin",
+      title: "Unterwegs vor Ort",
+      text: "Tragt unten eure Flüge ein, dann teilen wir euch einem Shuttle zwischen BJV und Resort zu. Ein Mietwagen ist eine gute Option für mehr Flexibilität.",
+    },
+    { icon: "info", title: "Zeitzone", text: "Türkische Zeit (TRT, UTC+3)." },
+  ],
+  map: {
+    label: "Karte mit Resort, Flughafen Milas–Bodrum und Bodrum-Stadt",
+    sea: "Ägäis",
+    drive: "Etwa {time} mit dem Auto vom Resort",
+    minutes: "{min}–{max} Min.",
+    copyAddress: "Adresse kopieren",
+    copied: "Kopiert",
+    openMaps: "In Karten öffnen",
+    close: "Schließen",
+    approximate: "Fahrzeiten sind ungefähr und hängen vom Verkehr ab.",
+    places: {
+      resort: { title: "Caresse Resort", text: "Unser Zuhause fürs Wochenende – an einer eigenen Bucht zwischen Bitez und Bodrum." },
+      airport: { title: "Flughafen Milas–Bodrum (BJV)", text: "Hier landen die meisten von euch. Die Shuttles warten in der Ankunftshalle." },
+      bitez: { title: "Bucht von Bitez", text: "Ruhig, flach und voller Beachclubs – Badetage gleich nebenan." },
+      marina: { title: "Altstadt + Marina", text: "Boutiquen, Cafés, Jachten und warme Abendspaziergänge am Wasser." },
+      castle: { title: "Kastell St. Peter", text: "Eine Kreuzritterburg am Hafen mit dem Museum für Unterwasserarchäologie." },
+    },
+  },
+  travelForm: {
+    title: "Eure Flüge",
+    intro: "Sagt uns, wann ihr landet und abfliegt, dann teilen wir euch mit anderen Gästen einem Shuttle zu.",
+    passengers: "Reisende",
+    legs: { arrival: "Anreise", departure: "Abreise" },
+    needShuttle: { arrival: "Shuttle vom Flughafen", departure: "Shuttle zum Flughafen" },
+    airports: { BJV: "Direkt nach Bodrum (BJV)", IST: "Mit Umstieg in Istanbul (IST)" },
+    flight: "Flugnummer",
+    flightPlaceholder: "z. B. TK 2504",
+    time: { arrival: "Landung in BJV (türkische Zeit)", departure: "Abflug ab BJV (türkische Zeit)" },
+    noShuttle: "Kein Shuttle nötig",
+    submit: "Flüge speichern",
+    update: "Flüge aktualisieren",
+    saving: "Wird gespeichert…",
+    cancel: "Abbrechen",
+    edit: "Flüge bearbeiten",
+    loading: "Eure Flüge werden geladen…",
+    saved: "Danke – wir haben eure Flüge.",
+    submitFailed: "Eure Flüge konnten nicht gespeichert werden. Bitte versucht es noch einmal.",
+    pickupTitle: "Eure Abholung",
+    pickup: { arrival: "Shuttle {n} · {time} · Ankunftshalle BJV", departure: "Shuttle {n} · {time} · Lobby des Resorts" },
+    sharing: "Gemeinsam mit {names}",
+    pickupPending: "Sobald die Shuttles geplant sind, findet ihr eure Abholung hier.",
+    inviteOnly: "Öffnet den persönlichen Link aus eurer Einladung, um eure Flüge einzutragen.",
+    errors: {
+      passengers: "Bitte wählt, wie viele von euch reisen.",
+      flight: "Bitte gebt eine Flugnummer wie TK 2504 ein.",
+      time: "Bitte gebt Datum und Uhrzeit eures Flugs ein.",
+      order: "Die Abreise muss nach der Anreise liegen.",
+    },
+  },
+  galleryTitle: "Fotogalerie des Caresse",
+  gallerySubtitle: "Tippe auf ein Foto für die Vollbildansicht.",
+  loadMore: "Weitere Fotos laden",
+  galleryFilters: {
+    label: "Fotos filtern",
+    all: "Alle",
+    search: "Fotos durchsuchen",
+    results: "{count} Fotos",
+    empty: "Keine Fotos passen zu diesen Filtern.",
+    clear: "Filter zurücksetzen",
+    tags: {
+      beach: "Strand",
+      pool: "Pool",
+      dining: "Restaurants",
+      wellness: "Wellness",
+      aerial: "Luftaufnahmen",
+      sunset: "Sonnenuntergang",
+      resort: "Resort",
+      "beach-club": "Beach Club",
+      bay: "Bucht",
+      panorama: "Panorama",
+      deck: "Deck",
+      cabanas: "Cabanas",
+    },
+  },
+  lightbox: {
+    dialog: "Fotoansicht",
+    position: "Foto {n} von {total}",
+    close: "Schließen",
+    previous: "Zurück",
+    next: "Weiter",
+    openPhoto: "Foto öffnen: {title}",
+    openVideo: "Video abspielen: {title}",
+    openPanorama: "360°-Panorama öffnen: {title}",
+    play: "Abspielen",
+    pause: "Pausieren",
+    dragToLook: "Zum Umsehen ziehen",
+  },
+  albumTitle: "Fotos der Gäste",
+  albumSubtitle: "Teilt eure schönsten Momente vom Wochenende. Fotos erscheinen hier, sobald wir sie angesehen haben.",
+  album: {
+    share: "Foto teilen",
+    choose: "Foto auswählen",
+    change: "Anderes Foto wählen",
+    caption: "Bildunterschrift",
+    captionPlaceholder: "Optional – wer, wo, was ist passiert?",
+    upload: "Foto hochladen",
+    uploading: "Wird hochgeladen…",
+    thanks: "Danke! Euer Foto erscheint hier, sobald es freigegeben ist.",
+    pending: "Wartet auf Freigabe",
+    byline: "Geteilt von {name}",
+    empty: "Noch keine Fotos von Gästen – teilt als Erste eins.",
+    loading: "Fotos werden geladen…",
+    inviteOnly: "Öffnet den persönlichen Link aus eurer Einladung, um Fotos zu teilen.",
+    errors: {
+      type: "Bitte wählt eine Bilddatei aus.",
+      size: "Die Datei ist zu groß. Bitte wählt ein Foto unter {max} MB.",
+      caption: "Bitte haltet die Bildunterschrift unter {max} Zeichen.",
+      failed: "Das Hochladen hat nicht geklappt. Bitte versucht es noch einmal.",
+    },
+  },
+  albumAdmin: {
+    title: "Gästefotos freigeben",
+    subtitle: "Uploads erscheinen erst nach der Freigabe im Gästealbum.",
+    pending: "Wartet auf Freigabe",
+    approved: "Veröffentlicht",
+    rejected: "Abgelehnt",
+    approve: "Freigeben",
+    reject: "Ablehnen",
+    remove: "Löschen",
+    confirmRemove: "Dieses Foto endgültig löschen?",
+    empty: "Nichts vorhanden.",
+    loadFailed: "Uploads konnten nicht geladen werden.",
+    byline: "{name} · {date}",
+  },
+  transfersAdmin: {
+    title: "Flughafentransfers",
+    subtitle: "Die Shuttles werden automatisch aus den eingetragenen Flügen gebildet. Veröffentlicht den Plan, damit die Gäste ihre Abholung sehen.",
+    window: "Zeitfenster (Minuten)",
+    capacity: "Plätze pro Fahrzeug",
+    lead: "Abfahrt vor dem Flug (Minuten)",
+    directions: { arrival: "Anreise · BJV → Resort", departure: "Abreise · Resort → BJV" },
+    shuttle: "Shuttle {n}",
+    pickup: "Abholung {time}",
+    seats: "{seats} von {capacity} Plätzen",
+    overCapacity: "Braucht ein größeres Fahrzeug",
+    connection: "über IST",
+    none: "Noch keine Flüge eingetragen.",
+    publish: "Für Gäste veröffentlichen",
+    publishing: "Wird veröffentlicht…",
+    published: "Veröffentlicht am {date}",
+    unpublished: "Noch nicht veröffentlicht – die Gäste sehen keine Abholung.",
+    changed: "Flüge oder Einstellungen haben sich seit der Veröffentlichung geändert.",
+    loading: "Flüge werden geladen…",
+    loadFailed: "Flüge konnten nicht geladen werden.",
+  },
+  kitchenAdmin: {
+    title: "Küchenbericht",
+    subtitle: "Hauptgerichte und Ernährungsbedürfnisse aller Zusagen. Exporte verwenden englische Namen für die Küche des Caresse.",
+    guests: "{count} Gäste beim Dinner",
+    coursesTitle: "Hauptgerichte",
+    undecided: "Noch nicht gewählt",
+    needsTitle: "Ernährung und Allergien",
+    matrixTitle: "Allergenmatrix",
+    matrixHint: "Gäste mit Ernährungsweise, Allergie oder Hinweis. Die vollständige Liste steht im Export.",
+    columns: { party: "Gruppe", guest: "Gast", course: "Hauptgericht", other: "Hinweise" },
+    conflict: "Gericht muss angepasst werden",
+    noneSpecial: "Noch keine Ernährungsweisen oder Allergien angegeben.",
+    exportCsv: "Matrix exportieren (CSV)",
+    exportJson: "JSON exportieren",
+    loading: "Rückmeldungen werden geladen…",
+    loadFailed: "Rückmeldungen konnten nicht geladen werden.",
+  },
+  roomsAdmin: {
+    title: "Zimmer",
+    subtitle: "Ein Vorschlag aus Zusagen und Zimmerwünschen. Verschiebt Gruppen zwischen Zimmern und veröffentlicht dann, damit Gäste ihr Zimmer sehen.",
+    staying: "{parties} Gruppen · {people} Gäste übernachten",
+    room: "{type} {n}",
+    beds: "{people} von {beds} Betten",
+    empty: "Frei",
+    asked: "Wünscht {type}",
+    moveTo: "{name} verschieben nach",
+    unassigned: "Ohne Zimmer",
+    noneStaying: "Noch hat niemand eine Nacht im Resort zugesagt.",
+    conflictsTitle: "Zu klären",
+    noConflicts: "Alle Wünsche sind erfüllt.",
+    conflicts: {
+      unassigned: "{party} hat kein Zimmer.",
+      overCapacity: "{room} hat mehr Gäste als Betten.",
+      wrongType: "{party} wünscht eine andere Kategorie als {room}.",
+      apart: "{party} möchte mit {other} teilen, die in einem anderen Zimmer sind.",
+      notStaying: "{party} möchte mit {other} teilen, die nicht im Resort übernachten.",
+      cancelled: "{party} ist in {room}, übernachtet aber nicht mehr.",
+    },
+    propose: "Neu vorschlagen",
+    exportCsv: "Zimmerliste exportieren (CSV)",
+    publish: "Für Gäste veröffentlichen",
+    publishing: "Wird veröffentlicht…",
+    published: "Veröffentlicht {date}",
+    unpublished: "Noch nicht veröffentlicht – Gäste sehen kein Zimmer.",
+    changed: "Die Zimmer wurden seit der Veröffentlichung geändert.",
+    loading: "Zimmer werden geladen…",
+    loadFailed: "Zimmer konnten nicht geladen werden.",
+  },
+  seatingAdmin: {
+    title: "Sitzordnung",
+    subtitle: "Zieht Gäste für das Hochzeitsdinner auf die Tische. Veröffentlicht, damit Gäste ihren Tisch sehen.",
+    seated: "{seated} von {total} Gästen platziert",
+    addTable: "Tisch hinzufügen",
+    defaultTable: "Tisch {n}",
+    tableName: "Tischname",
+    seats: "Plätze",
+    occupancy: "{count} von {seats}",
+    removeTable: "Tisch entfernen",
+    noTables: "Noch keine Tische – fügt einen hinzu, um Gäste zu platzieren.",
+    dropHere: "Gäste hierher ziehen",
+    moveTo: "{name} setzen an",
+    unseated: "Ohne Platz",
+    allSeated: "Alle haben einen Platz.",
+    noDiners: "Noch hat niemand für das Dinner zugesagt.",
+    constraintsTitle: "Zusammen oder getrennt",
+    constraintKinds: { together: "Zusammen setzen", apart: "Getrennt setzen" },
+    pickGuest: "Gast wählen",
+    addConstraint: "Hinzufügen",
+    removeConstraint: "Entfernen",
+    noConstraints: "Noch keine Vorgaben.",
+    warningsTitle: "Warnungen",
+    noWarnings: "Keine Warnungen.",
+    warnings: {
+      overCapacity: "An {table} sitzen mehr Gäste, als es Plätze gibt.",
+      together: "{a} und {b} sollten zusammen sitzen.",
+      apart: "{a} und {b} sollten nicht beide an {table} sitzen.",
+      gone: "{a} kommt nicht mehr zum Dinner.",
+    },
+    print: { title: "Sitzordnung Hochzeitsdinner", byTable: "Nach Tisch", byName: "Nach Name", guest: "Gast", table: "Tisch" },
+    printList: "Sitzliste zum Drucken",
+    exportJson: "Schnappschuss exportieren (JSON)",
+    importJson: "Schnappschuss importieren",
+    importFailed: "Diese Datei ist kein Sitzordnungs-Schnappschuss.",
+    publish: "Für Gäste veröffentlichen",
+    publishing: "Wird veröffentlicht…",
+    published: "Veröffentlicht {date}",
+    unpublished: "Noch nicht veröffentlicht – Gäste können keine Tische nachschlagen.",
+    changed: "Die Sitzordnung wurde seit der Veröffentlichung geändert.",
+    loading: "Zusagen werden geladen…",
+    loadFailed: "Die Sitzordnung konnte nicht geladen werden.",
+  },
+  admin: {
+    title: "Übersicht für das Brautpaar",
+    back: "Zurück zur Einladung",
+    tabs: { responses: "Rückmeldungen", photos: "Gästefotos", transfers: "Transfers", kitchen: "Küche", rooms: "Zimmer", seating: "Sitzordnung" },
+    signIn: "Anmeldung",
+    passcode: "Passwort",
+    unlock: "Übersicht öffnen",
+    wrongPasscode: "Das Passwort stimmt nicht.",
+    disabled: "Die Übersicht ist für diese Seite nicht eingerichtet.",
+    signOut: "Abmelden",
+    loading: "Rückmeldungen werden geladen…",
+    loadFailed: "Rückmeldungen konnten nicht geladen werden.",
+    totals: {
+      parties: "Einladungen",
+      people: "Gäste, die kommen",
+      attending: "Zusagen",
+      declined: "Absagen",
+      pending: "Noch keine Antwort",
+    },
+    nightsTitle: "Gäste pro Nacht",
+    eventsTitle: "Eingeladen & zugesagt pro Programmpunkt",
+    guestCount: "{count} Gäste",
+    eventAttendance: "{attending} zugesagt von {invited} eingeladen",
+    pendingTitle: "Noch keine Antwort von",
+    pendingOpen: "Rückmeldungen bis zum {deadline}.",
+    pendingOverdue: "Die Frist ({deadline}) ist abgelaufen.",
+    nonePending: "Alle haben geantwortet.",
+    guestsTitle: "Gäste & Rückmeldungen",
+    columns: { guest: "Gast", status: "Status", party: "Personen", nights: "Nächte", note: "Notiz", updated: "Aktualisiert" },
+    status: { attending: "Zusage", declined: "Absage", pending: "Offen" },
+    unlisted: "Nicht auf der Gästeliste",
+    exportCsv: "CSV exportieren",
+    exportJson: "JSON exportieren",
+  },
+  pwa: {
+    offline: "Ihr seid offline. Ablauf und Reiseinfos auf dieser Seite funktionieren trotzdem.",
+    offlineGallery: "Fotos brauchen eine Verbindung – hier solange das Wochenende im Überblick.",
+    offlineAlbum: "Die Gästefotos laden wieder, sobald ihr online seid.",
+    update: "Eine neue Version dieser Seite ist verfügbar.",
+    refresh: "Neu laden",
+    later: "Später",
+  },
+  footer: "Wir können es kaum erwarten, mit euch zu feiern.",
+  footer2: "Diese Seite wächst weiter, sobald der Zeitplan feststeht.",
+} satisfies Locale;
@@ -0,0 +1,492 @@
+import type { Locale } from "./schema";
+
+export const en = {
+  langName: "English",
+  nav: {
+    venue: "Venue",
+    bodrum: "Why Bodrum",
+    istanbul: "Istanbul",
+    weekend: "Weekend",
+    rsvp: "RSVP",
+    stay: "Stay",
+    notes: "Notes",
+    travel: "Travel",
+    gallery: "Photos",
+    language: "Language",
+    evening: "Evening theme",
+    menu: "Menu",
+    closeMenu: "Close menu",
+  },
+  greeting: "Dear {name},",
+  title: "An international Iranian wedding on the Aegean Sea",
+  location: "Bodrum, Türkiye",
+  countdown: {
+    label: "Until we say “I do”",
+    days: "days",
+    hours: "hours",
+    minutes: "min",
+    seconds: "sec",
+    live: "The wedding weekend is happening now",
+    now: "Happening now",
+    next: "Up next",
+    over: "Thank you for celebrating with us!",
+  },
+  copy:
+    "Coasting along the sparkling Aegean Sea and emerging from the turquoise horizon of Bodrum, Omid and Annika invite you to join them and their beautiful tribe at Caresse Luxury Resort for their final wedding ceremony on {weddingDate}. Accommodation at the resort will be provided {stay} (nights of {arrival} & {wedding}). Early check-in on {arrival} and late checkout on {departure} are arranged.",
+  venueSite: "Visit the {venue} website",
+  rsvp: "RSVP by {deadline} — reply below, or let Omid or Annika know.",
+  venueTitle: "The venue",
+  venueSubtitle: "Private bay, beach decks, a gorgeous pool line, and that Bodrum light.",
+  venueCards: [
+    { icon: "waves", title: "Beach access", text: "Steps from rooms to sea, with decks and sunbeds right on the waterline." },
+    { icon: "utensils", title: "Food + atmosphere", text: "Beach club energy by day, elevated dining and cocktails by night." },
+    { icon: "sparkles", title: "That Caresse energy", text: "Clean lines, warm textures, and sunsets that keep everyone outside." },
+  ],
+  bodrumTitle: "Why Bodrum",
+  bodrumSubtitle: "A place that feels like a Mediterranean postcard—history, water, food, and late golden sunsets.",
+  bodrumCards: [
+    { icon: "waves", title: "Beaches + coves", text: "Clear water, hidden bays, and easy swim days." },
+    { icon: "camera", title: "Old Town + marina", text: "Boutiques, cafés, and nighttime strolling in warm air." },
+    { icon: "info", title: "History nearby", text: "Castle of St. Peter and day trips with a real wow factor." },
+  ],
+  istanbulTitle: "Add a few days in Istanbul",
+  istanbulSubtitle:
+    "If you can, tack on 2–4 days. It’s one of the world’s most magnetic cities—Bosphorus views, street food, historic neighborhoods, and a café culture that never runs out of energy.",
+  istanbulCards: [
+    { icon: "sparkles", title: "Two continents, one skyline", text: "Ferries across the Bosphorus and neighborhoods that change vibe block to block." },
+    { icon: "utensils", title: "Food worth the detour", text: "Meze, bakeries, coffee, and late-night bites—cheap thrills and elevated dining." },
+    { icon: "camera", title: "History you can touch", text: "Markets, mosques, palaces, and alleyways—ancient layers wrapped around modern city life." },
+  ],
+  weekendTitle: "The weekend",
+  weekendSubtitle: "Two nights at the resort ({arrival} & {wedding}), with early check-in on {arrival} and late checkout on {departure}.",
+  weekend: [
+    {
+      event: "welcome",
+      title: "Early check-in + welcome",
+      text: "Arrive, exhale, swim, sunset.",
+      tbd: "We’ll share the plan for the evening once it’s finalized.",
+    },
+    {
+      event: "wedding",
+      title: "Wedding day + after-party",
+      text: "Golden hour ceremony, dinner by the sea, and a late night.",
+      tbd: "We’ll share the finalized agenda closer to the date.",
+    },
+    { event: "farewell", title: "Late checkout + farewells", text: "Slow morning, coffee, beach time, hugs—then departures." },
+  ],
+  agenda: {
+    title: "Timeline",
+    venueTime: "Resort time (TRT)",
+    localTime: "My time ({zone})",
+    dressCode: "Dress code",
+    spots: {
+      lobby: "Lobby",
+      beachDeck: "Beach deck",
+      glassRestaurant: "Glass Restaurant",
+      sunsetLounge: "Sunset Lounge",
+    },
+    dress: {
+      resortCasual: "Resort casual",
+      formal: "Formal",
+      swimwear: "Swimwear welcome",
+    },
+  },
+  calendar: {
+    add: "Add to calendar",
+    google: "Google Calendar",
+    wholeWeekend: "Add the whole weekend (.ics)",
+  },
+  rsvpTitle: "RSVP",
+  rsvpSubtitle: "Please reply by {deadline}. You can come back and edit your answer any time before then.",
+  rsvpCta: "RSVP now",
+  rsvpForm: {
+    attending: "Will you be joining us?",
+    yes: "Joyfully accepts",
+    no: "Regretfully declines",
+    partySize: "Party size",
+    names: "Guest names",
+    firstGuestName: "Your full name",
+    guestName: "Guest {n} full name",
+    nights: "Nights at the resort",
+    note: "Anything we should know?",
+    notePlaceholder: "Travel plans, a song request, a message for us…",
+    submit: "Send RSVP",
+    update: "Update RSVP",
+    saving: "Sending…",
+    cancel: "Cancel",
+    edit: "Edit response",
+    loading: "Loading your RSVP…",
+    confirmedYes: "You’re on the list — we can’t wait!",
+    confirmedNo: "Thanks for letting us know. We’ll miss you.",
+    submitFailed: "We couldn’t save your RSVP. Please try again, or message Omid or Annika.",
+    errors: {
+      partySize: "Please choose a party size.",
+      names: "Please fill in a name for every guest.",
+      nights: "Please pick at least one night.",
+      meals: "Please choose a main course for every guest.",
+      note: "That note is a little too long.",
+    },
+  },
+  meals: {
+    title: "Wedding dinner",
+    intro: "Choose a main course for each guest and tell us about allergies or dietary needs; the Caresse kitchen plans around them.",
+    course: "Main course",
+    diets: "Dietary needs",
+    allergens: "Allergies",
+    other: "Anything else the kitchen should know",
+    otherPlaceholder: "e.g. mild mustard allergy, no coriander",
+    conflict: "This dish doesn’t fit everything listed ({needs}). Pick another, or the kitchen will adapt it.",
+    undecided: "No main course chosen",
+    diet: { vegetarian: "Vegetarian", vegan: "Vegan", pescatarian: "Pescatarian", halal: "Halal", kosher: "Kosher" },
+    allergen: {
+      gluten: "Gluten",
+      milk: "Milk",
+      eggs: "Eggs",
+      nuts: "Tree nuts",
+      peanuts: "Peanuts",
+      fish: "Fish",
+      shellfish: "Shellfish",
+      sesame: "Sesame",
+      soy: "Soy",
+    },
+  },
+  stayTitle: "Your stay",
+  staySubtitle: "Two nights at the resort ({arrival} & {wedding}). Tell us who you’d like to room with.",
+  rooms: {
+    title: "Room preferences",
+    intro: "Rooms are on us. Pick a room type and anyone you’d like to share with, and we’ll do our best to make it work.",
+    roomType: "Room type",
+    sleeps: "Sleeps {beds}",
+    noPreference: "No preference",
+    shareWith: "Share a room with",
+    shareHint: "Optional — only if there are beds to spare. Your own party always stays together.",
+    note: "Anything else?",
+    notePlaceholder: "e.g. twin beds, ground floor, travelling with a baby",
+    submit: "Save preferences",
+    update: "Update preferences",
+    saving: "Saving…",
+    cancel: "Cancel",
+    edit: "Edit preferences",
+    loading: "Loading your room…",
+    saved: "Thanks — we have your room preferences.",
+    submitFailed: "We couldn’t save your preferences. Please try again.",
+    requested: "You asked for",
+    assigned: "{type} · Room {n}",
+    roommates: "Sharing with {names}",
+    ownRoom: "Just your party",
+    pending: "We’ll confirm your room here once rooms are assigned.",
+    inviteOnly: "Open the personal link from your invitation to tell us your room preferences.",
+    errors: {
+      shareWith: "Please pick guests from the list.",
+      note: "That note is a little long.",
+    },
+  },
+  seating: {
+    title: "Find your table",
+    intro: "Dinner by the sea on {date}. Look up anyone’s table by name.",
+    yours: "Your table",
+    search: "Guest name",
+    placeholder: "Type at least two letters",
+    noMatch: "No one by that name has a seat yet.",
+    pending: "Tables will appear here once the seating plan is ready.",
+    loading: "Loading the seating plan…",
+  },
+  notesTitle: "Notes",
+  notesSubtitle: "Two small (but important) things for the wedding day.",
+  notesCards: [
+    { icon: "sparkles", title: "Dress code: Formal", text: "For the wedding itself, formal attire—dress to impress." },
+    { icon: "info", title: "No gifts", text: "Please no gifts. The trip and your presence is the gift." },
+    { icon: "utensils", title: "Come hungry", text: "We are planning an incredible dinner and cocktails—more details soon." },
+  ],
+  travelTitle: "Travel",
+  travelSubtitle: "Most guests will fly into Milas–Bodrum Airport (BJV). Some routes connect via Istanbul (IST).",
+  travelCards: [
+    { icon: "plane", title: "Airport", text: "BJV is the closest. Plan for about a 45-minute to 1-hour drive to the resort." },
+    {
+      icon: "mapPin",
+      title: "Getting around",
+      text: "Register your flights below and we’ll put you on a shared shuttle between BJV and the resort. Renting a car is also a great option for flexibility.",
+    },
+    { icon: "info", title: "Timezone", text: "Türkiye Time (TRT, UTC+3)." },
+  ],
+  map: {
+    label: "Map of the resort, Milas–Bodrum Airport and Bodrum town",
+    sea: "Aegean Sea",
+    drive: "About {time} by car from the resort",
+    minutes: "{min}–{max} min",
+    copyAddress: "Copy address",
+    copied: "Copied",
+    openMaps: "Open in maps",
+    close: "Close",
+    approximate: "Drive times are approximate and depend on traffic.",
+    places: {
+      resort: { title: "Caresse resort", text: "Home for the weekend — on its own bay between Bitez and Bodrum town." },
+      airport: { title: "Milas–Bodrum Airport (BJV)", text: "Where most of you will land. Shuttles meet flights in the arrivals hall." },
+      bitez: { title: "Bitez Bay", text: "A calm, shallow bay lined with beach clubs — easy swim days next door." },
+      marina: { title: "Old Town + marina", text: "Boutiques, cafés, yachts and warm evening strolls along the waterfront." },
+      castle: { title: "Castle of St. Peter", text: "A crusader castle on the harbour, home to the Museum of Underwater Archaeology." },
+    },
+  },
+  travelForm: {
+    title: "Your flights",
+    intro: "Tell us when you land and leave, and we’ll group you with other guests on a shared shuttle.",
+    passengers: "Travelling",
+    legs: { arrival: "Arriving", departure: "Leaving" },
+    needShuttle: { arrival: "Shuttle from the airport", departure: "Shuttle to the airport" },
+    airports: { BJV: "Direct to Bodrum (BJV)", IST: "Connecting via Istanbul (IST)" },
+    flight: "Flight number",
+    flightPlaceholder: "e.g. TK 2504",
+    time: { arrival: "Landing at BJV (Türkiye time)", departure: "Departing BJV (Türkiye time)" },
+    noShuttle: "No shuttle needed",
+    submit: "Save flights",
+    update: "Update flights",
+    saving: "Saving…",
+    cancel: "Cancel",
+    edit: "Edit flights",
+    loading: "Loading your flights…",
+    saved: "Thanks — we have your flights.",
+    submitFailed: "We couldn’t save your flights. Please try again.",
+    pickupTitle: "Your pickup",
+    pickup: { arrival: "Shuttle {n} · {time} · BJV arrivals hall", departure: "Shuttle {n} · {time} · Resort lobby" },
+    sharing: "Riding with {names}",
+    pickupPending: "We’ll confirm your pickup here once the shuttles are planned.",
+    inviteOnly: "Open the personal link from your invitation to register your flights.",
+    errors: {
+      passengers: "Please choose how many of you are travelling.",
+      flight: "Please enter a flight number like TK 2504.",
+      time: "Please enter the date and time of your flight.",
+      order: "Your departure should be after your arrival.",
+    },
+  },
+  galleryTitle: "Caresse photo gallery",
+  gallerySubtitle: "Tap any photo for full-screen.",
+  loadMore: "Load more photos",
+  galleryFilters: {
+    label: "Filter photos",
+    all: "All",
+    search: "Search photos",
+    results: "{count} photos",
+    empty: "No photos match these filters.",
+    clear: "Clear filters",
+    tags: {
+      beach: "Beach",
+      pool: "Pool",
+      dining: "Dining",
+      wellness: "Wellness",
+      aerial: "Aerial",
+      sunset: "Sunset",
+      resort: "Resort",
+      "beach-club": "Beach Club",
+      bay: "Bay",
+      panorama: "Panorama",
+      deck: "Deck",
+      cabanas: "Cabanas",
+    },
+  },
+  lightbox: {
+    dialog: "Photo viewer",
+    position: "Photo {n} of {total}",
+    close: "Close",
+    previous: "Previous",
+    next: "Next",
+    openPhoto: "Open photo: {title}",
+    openVideo: "Play video: {title}",
+    openPanorama: "Open 360° panorama: {title}",
+    play: "Play",
+    pause: "Pause",
+    dragToLook: "Drag to look around",
+  },
+  albumTitle: "Guest photos",
+  albumSubtitle: "Share your favourite moments from the weekend. Photos appear here once we’ve had a look.",
+  album: {
+    share: "Share a photo",
+    choose: "Choose a photo",
+    change: "Choose another",
+    caption: "Caption",
+    captionPlaceholder: "Optional — who, where, what happened?",
+    upload: "Upload photo",
+    uploading: "Uploading…",
+    thanks: "Thank you! Your photo will appear here once it’s approved.",
+    pending: "Awaiting approval",
+    byline: "Shared by {name}",
+    empty: "No guest photos yet — be the first to share one.",
+    loading: "Loading photos…",
+    inviteOnly: "Open the personal link from your invitation to share photos.",
+    errors: {
+      type: "Please choose an image file.",
+      size: "That file is too large. Please pick a photo under {max} MB.",
+      caption: "Please keep the caption under {max} characters.",
+      failed: "The upload didn’t work. Please try again.",
+    },
+  },
+  albumAdmin: {
+    title: "Guest photo moderation",
+    subtitle: "Approve uploads before they appear in the guest album.",
+    pending: "Waiting for approval",
+    approved: "Published",
+    rejected: "Rejected",
+    approve: "Approve",
+    reject: "Reject",
+    remove: "Delete",
+    confirmRemove: "Delete this photo permanently?",
+    empty: "Nothing here.",
+    loadFailed: "Couldn’t load uploads.",
+    byline: "{name} · {date}",
+  },
+  transfersAdmin: {
+    title: "Airport transfers",
+    subtitle: "Shuttles are grouped automatically from the flights guests register. Publish the plan to show guests their pickup.",
+    window: "Window (minutes)",
+    capacity: "Seats per vehicle",
+    lead: "Leave resort before flight (minutes)",
+    directions: { arrival: "Arrivals · BJV → resort", departure: "Departures · resort → BJV" },
+    shuttle: "Shuttle {n}",
+    pickup: "Pickup {time}",
+    seats: "{seats} of {capacity} seats",
+    overCapacity: "Needs a larger vehicle",
+    connection: "via IST",
+    none: "No flights registered yet.",
+    publish: "Publish to guests",
+    publishing: "Publishing…",
+    published: "Published {date}",
+    unpublished: "Not published yet — guests don’t see a pickup.",
+    changed: "Flights or settings have changed since the plan was published.",
+    loading: "Loading flights…",
+    loadFailed: "Couldn’t load flights.",
+  },
+  kitchenAdmin: {
+    title: "Kitchen report",
+    subtitle: "Main courses and dietary needs of everyone attending. Exports use English names for the Caresse kitchen.",
+    guests: "{count} guests at dinner",
+    coursesTitle: "Main courses",
+    undecided: "Not chosen yet",
+    needsTitle: "Diets and allergies",
+    matrixTitle: "Allergen matrix",
+    matrixHint: "Guests with a diet, allergy or note. The full list is in the export.",
+    columns: { party: "Party", guest: "Guest", course: "Main course", other: "Notes" },
+    conflict: "Dish needs adapting",
+    noneSpecial: "No diets or allergies declared yet.",
+    exportCsv: "Export matrix (CSV)",
+    exportJson: "Export JSON",
+    loading: "Loading RSVPs…",
+    loadFailed: "Couldn’t load RSVPs.",
+  },
+  roomsAdmin: {
+    title: "Rooms",
+    subtitle: "A proposed allocation from RSVPs and room requests. Move parties between rooms, then publish to show guests their room.",
+    staying: "{parties} parties · {people} guests staying",
+    room: "{type} {n}",
+    beds: "{people} of {beds} beds",
+    empty: "Empty",
+    asked: "Asked for {type}",
+    moveTo: "Move {name} to",
+    unassigned: "Unassigned",
+    noneStaying: "No one has RSVP’d for a night at the resort yet.",
+    conflictsTitle: "Needs attention",
+    noConflicts: "Every request is met.",
+    conflicts: {
+      unassigned: "{party} has no room.",
+      overCapacity: "{room} has more guests than beds.",
+      wrongType: "{party} asked for a different room type than {room}.",
+      apart: "{party} asked to share with {other}, who is in another room.",
+      notStaying: "{party} asked to share with {other}, who isn’t staying at the resort.",
+      cancelled: "{party} is in {room} but is no longer staying.",
+    },
+    propose: "Propose again",
+    exportCsv: "Export rooming list (CSV)",
+    publish: "Publish to guests",
+    publishing: "Publishing…",
+    published: "Published {date}",
+    unpublished: "Not published yet — guests don’t see a room.",
+    changed: "The rooms have changed since they were published.",
+    loading: "Loading rooms…",
+    loadFailed: "Couldn’t load rooms.",
+  },
+  seatingAdmin: {
+    title: "Seating",
+    subtitle: "Drag guests onto tables for the wedding dinner. Publish to show guests their table.",
+    seated: "{seated} of {total} guests seated",
+    addTable: "Add table",
+    defaultTable: "Table {n}",
+    tableName: "Table name",
+    seats: "Seats",
+    occupancy: "{count} of {seats}",
+    removeTable: "Remove table",
+    noTables: "No tables yet — add one to start seating guests.",
+    dropHere: "Drop guests here",
+    moveTo: "Move {name} to",
+    unseated: "Not seated",
+    allSeated: "Everyone has a seat.",
+    noDiners: "No one has RSVP’d for dinner yet.",
+    constraintsTitle: "Keep together or apart",
+    constraintKinds: { together: "Keep together", apart: "Keep apart" },
+    pickGuest: "Choose a guest",
+    addConstraint: "Add",
+    removeConstraint: "Remove",
+    noConstraints: "No constraints yet.",
+    warningsTitle: "Warnings",
+    noWarnings: "No warnings.",
+    warnings: {
+      overCapacity: "{table} has more guests than seats.",
+      together: "{a} and {b} should sit together.",
+      apart: "{a} and {b} should not share {table}.",
+      gone: "{a} is no longer coming to dinner.",
+    },
+    print: { title: "Wedding dinner seating", byTable: "By table", byName: "By name", guest: "Guest", table: "Table" },
+    printList: "Printable seating list",
+    exportJson: "Export snapshot (JSON)",
+    importJson: "Import snapshot",
+    importFailed: "That file isn’t a seating snapshot.",
+    publish: "Publish to guests",
+    publishing: "Publishing…",
+    published: "Published {date}",
+    unpublished: "Not published yet — guests can’t look up tables.",
+    changed: "The seating has changed since it was published.",
+    loading: "Loading RSVPs…",
+    loadFailed: "Couldn’t load the seating plan.",
+  },
+  admin: {
+    title: "Organizer dashboard",
+    back: "Back to the invitation",
+    tabs: { responses: "Responses", photos: "Guest photos", transfers: "Transfers", kitchen: "Kitchen", rooms: "Rooms", seating: "Seating" },
+    signIn: "Organizer sign-in",
+    passcode: "Passcode",
+    unlock: "Open dashboard",
+    wrongPasscode: "That passcode isn’t right.",
+    disabled: "The organizer dashboard isn’t set up for this site.",
+    signOut: "Sign out",
+    loading: "Loading responses…",
+    loadFailed: "Couldn’t load responses.",
+    totals: {
+      parties: "Invitations",
+      people: "Guests coming",
+      attending: "Attending",
+      declined: "Declined",
+      pending: "No response yet",
+    },
+    nightsTitle: "Headcount per night",
+    eventsTitle: "Invited & attending per event",
+    guestCount: "{count} guests",
+    eventAttendance: "{attending} attending of {invited} invited",
+    pendingTitle: "Still waiting to hear from",
+    pendingOpen: "RSVPs are due by {deadline}.",
+    pendingOverdue: "The RSVP deadline ({deadline}) has passed.",
+    nonePending: "Everyone has responded.",
+    guestsTitle: "Guests & responses",
+    columns: { guest: "Guest", status: "Status", party: "Party", nights: "Nights", note: "Note", updated: "Updated" },
+    status: { attending: "Attending", declined: "Declined", pending: "Pending" },
+    unlisted: "Not on the guest list",
+    exportCsv: "Export CSV",
+    exportJson: "Export JSON",
+  },
+  pwa: {
+    offline: "You’re offline. The schedule and travel details on this page still work.",
+    offlineGallery: "Photos need a connection — here’s the weekend at a glance in the meantime.",
+    offlineAlbum: "Guest photos will load again once you’re back online.",
+    update: "A new version of this page is available.",
+    refresh: "Refresh",
+    later: "Later",
+  },
+  footer: "We can’t wait to celebrate with you.",
+  footer2: "This page will keep evolving as the timeline locks in.",
+} satisfies Locale;
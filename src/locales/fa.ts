@@ -0,0 +1,492 @@
+import type { Locale } from "./schema";
+
+export const fa = {
+  langName: "فارسی",
+  nav: {
+    venue: "کارِسه",
+    bodrum: "چرا بدروم",
+    istanbul: "استانبول",
+    weekend: "برنامه",
+    rsvp: "تأیید حضور",
+    stay: "اقامت",
+    notes: "نکته‌ها",
+    travel: "سفر",
+    gallery: "عکس‌ها",
+    language: "زبان",
+    evening: "حالت شب",
+    menu: "منو",
+    closeMenu: "بستن منو",
+  },
+  greeting: "{name} عزیز،",
+  title: "یک جشن ایرانی-بین‌المللی کنار دریای اژه",
+  location: "بدروم، ترکیه",
+  countdown: {
+    label: "تا لحظهٔ «بله»",
+    days: "روز",
+    hours: "ساعت",
+    minutes: "دقیقه",
+    seconds: "ثانیه",
+    live: "آخر هفتهٔ عروسی همین حالاست",
+    now: "در حال برگزاری",
+    next: "برنامهٔ بعدی",
+    over: "از اینکه در جشن ما بودید سپاسگزاریم!",
+  },
+  copy:
+    "در کنار آب‌های فیروزه‌ای اژه و زیر آفتاب بدروم، امید و آنیکا شما را دعوت می‌کنند تا در ریزورت Caresse کنارشان باشید و مراسم اصلی عروسی‌شان را در {weddingDate} جشن بگیریم. اقامت در ریزورت از {arrival} تا {departure} فراهم است (شب‌های {arrival} و {wedding}). ورود زودتر در {arrival} و خروج دیرتر در {departure} هماهنگ شده است.",
+  venueSite: "وب‌سایت {venue}",
+  rsvp: "لطفاً حداکثر تا {deadline} حضور خود را با فرم پایین صفحه یا با پیام به امید یا آنیکا تأیید کنید.",
+  venueTitle: "رزورت کارِسه",
+  venueSubtitle: "خلیج دنج، دک‌های ساحلی و نورِ خاصِ بدروم.",
+  venueCards: [
+    { icon: "waves", title: "دسترسی به ساحل", text: "چند قدم تا دریا؛ دک‌ها و تخت‌های ساحلی دقیقاً کنار آب." },
+    { icon: "utensils", title: "غذا و فضا", text: "روزها حال‌وهوای بیچ‌کلاب، شب‌ها شام و کوکتل‌های عالی." },
+    { icon: "sparkles", title: "حس‌وحالِ کارِسه", text: "طراحی مینیمال با بافت‌های گرم و غروب‌های تماشایی." },
+  ],
+  bodrumTitle: "چرا بدروم؟",
+  bodrumSubtitle: "ترکیبی از دریا، غذا، تاریخ و حال‌وهوای مدیترانه‌ای.",
+  bodrumCards: [
+    { icon: "waves", title: "ساحل و خلیج‌ها", text: "آب شفاف، خلیج‌های دنج و روزهای بی‌دغدغه برای شنا." },
+    { icon: "camera", title: "شهر قدیمی و مارینا", text: "بوتیک‌ها، کافه‌ها و قدم‌زدن شبانه در هوای گرم." },
+    { icon: "info", title: "تاریخ نزدیک", text: "قلعه سنت‌پیتر و جاهای دیدنی برای یک گشت کوتاه." },
+  ],
+  istanbulTitle: "چند روزی هم استانبول بمانید",
+  istanbulSubtitle:
+    "اگر برنامه‌تان اجازه می‌دهد، ۲ تا ۴ روز هم به استانبول اختصاص بدهید. منظره‌های بسفر، فرهنگ کافه‌نشینی، غذاهای خیابانی و محله‌های تاریخی واقعاً ارزشش را دارد.",
+  istanbulCards: [
+    { icon: "sparkles", title: "دو قاره، یک افق", text: "فِری روی بسفر و محله‌هایی با حال‌وهوای متفاوت." },
+    { icon: "utensils", title: "غذاهایی که ارزش سفر دارند", text: "مزه، نان و شیرینی، قهوه و خوراکی‌های نیمه‌شب." },
+    { icon: "camera", title: "تاریخِ زنده", text: "بازارها، مسجدها و کاخ‌ها—گذشته و حال کنار هم." },
+  ],
+  weekendTitle: "برنامه کلی",
+  weekendSubtitle: "اقامت دو شب ({arrival} و {wedding}) با ورود زودتر در {arrival} و خروج دیرتر در {departure}.",
+  weekend: [
+    {
+      event: "welcome",
+      title: "ورود + خوش‌آمد",
+      text: "رسیدن، استقرار، شنا و غروب.",
+      tbd: "برنامه شب را بعد از نهایی‌شدن اعلام می‌کنیم.",
+    },
+    {
+      event: "wedding",
+      title: "روز عروسی + افترپارتی",
+      text: "مراسم حوالی غروب، شام کنار دریا و جشن شبانه.",
+      tbd: "برنامه نهایی را نزدیک‌تر ارسال می‌کنیم.",
+    },
+    { event: "farewell", title: "خروج دیرتر + خداحافظی", text: "صبح آرام، قهوه، یک شنا و خداحافظی‌ها—بعد حرکت." },
+  ],
+  agenda: {
+    title: "برنامهٔ زمانی",
+    venueTime: "به وقت ریزورت (ترکیه)",
+    localTime: "به وقت من ({zone})",
+    dressCode: "پوشش",
+    spots: {
+      lobby: "لابی",
+      beachDeck: "عرشهٔ ساحلی",
+      glassRestaurant: "رستوران گلس",
+      sunsetLounge: "سانست لانج",
+    },
+    dress: {
+      resortCasual: "راحت و شیک",
+      formal: "رسمی",
+      swimwear: "لباس شنا",
+    },
+  },
+  calendar: {
+    add: "افزودن به تقویم",
+    google: "تقویم گوگل",
+    wholeWeekend: "افزودن کل برنامه به تقویم (.ics)",
+  },
+  rsvpTitle: "تأیید حضور",
+  rsvpSubtitle: "لطفاً تا {deadline} پاسخ دهید. تا آن زمان هر وقت خواستید می‌توانید پاسخ خود را ویرایش کنید.",
+  rsvpCta: "تأیید حضور",
+  rsvpForm: {
+    attending: "به جشن ما می‌آیید؟",
+    yes: "با کمال میل می‌آیم",
+    no: "متأسفانه نمی‌توانم بیایم",
+    partySize: "تعداد نفرات",
+    names: "نام مهمان‌ها",
+    firstGuestName: "نام و نام خانوادگی شما",
+    guestName: "نام مهمان {n}",
+    nights: "شب‌های اقامت در ریزورت",
+    note: "نکته‌ای هست که باید بدانیم؟",
+    notePlaceholder: "برنامه سفر، آهنگ درخواستی، پیامی برای ما…",
+    submit: "ارسال پاسخ",
+    update: "به‌روزرسانی پاسخ",
+    saving: "در حال ارسال…",
+    cancel: "انصراف",
+    edit: "ویرایش پاسخ",
+    loading: "در حال بارگذاری پاسخ شما…",
+    confirmedYes: "نام شما در فهرست است—بی‌صبرانه منتظریم!",
+    confirmedNo: "ممنون که خبر دادید. جایتان خالی خواهد بود.",
+    submitFailed: "ذخیره پاسخ ممکن نشد. لطفاً دوباره تلاش کنید یا به امید یا آنیکا پیام بدهید.",
+    errors: {
+      partySize: "لطفاً تعداد نفرات را انتخاب کنید.",
+      names: "لطفاً نام همه مهمان‌ها را وارد کنید.",
+      nights: "لطفاً دست‌کم یک شب را انتخاب کنید.",
+      meals: "لطفاً برای هر مهمان یک غذای اصلی انتخاب کنید.",
+      note: "متن یادداشت کمی طولانی است.",
+    },
+  },
+  meals: {
+    title: "شام عروسی",
+    intro: "برای هر مهمان یک غذای اصلی انتخاب کنید و از حساسیت‌ها یا رژیم غذایی بگویید؛ آشپزخانه‌ی Caresse بر اساس آن برنامه‌ریزی می‌کند.",
+    course: "غذای اصلی",
+    diets: "رژیم غذایی",
+    allergens: "حساسیت‌ها",
+    other: "نکته‌ی دیگری که آشپزخانه باید بداند",
+    otherPlaceholder: "مثلاً حساسیت خفیف به خردل، بدون گشنیز",
+    conflict: "این غذا با همه‌ی موارد ذکرشده سازگار نیست ({needs}). غذای دیگری انتخاب کنید یا آشپزخانه آن را تطبیق می‌دهد.",
+    undecided: "غذای اصلی انتخاب نشده",
+    diet: { vegetarian: "گیاه‌خوار", vegan: "وگان", pescatarian: "پسکاتارین", halal: "حلال", kosher: "کوشر" },
+    allergen: {
+      gluten: "گلوتن",
+      milk: "شیر",
+      eggs: "تخم‌مرغ",
+      nuts: "مغزهای درختی",
+      peanuts: "بادام‌زمینی",
+      fish: "ماهی",
+      shellfish: "صدف و سخت‌پوستان",
+      sesame: "کنجد",
+      soy: "سویا",
+    },
+  },
+  stayTitle: "اقامت شما",
+  staySubtitle: "دو شب در ریزورت ({arrival} و {wedding}). بگویید دوست دارید با چه کسی هم‌اتاق باشید.",
+  rooms: {
+    title: "ترجیحات اتاق",
+    intro: "هزینه‌ی اتاق‌ها با ماست. نوع اتاق و کسانی را که دوست دارید با آن‌ها هم‌اتاق باشید انتخاب کنید؛ تمام تلاشمان را می‌کنیم.",
+    roomType: "نوع اتاق",
+    sleeps: "برای {beds} نفر",
+    noPreference: "فرقی نمی‌کند",
+    shareWith: "هم‌اتاق با",
+    shareHint: "اختیاری — فقط اگر تخت خالی باشد. همراهان خودتان همیشه با هم می‌مانند.",
+    note: "نکته‌ی دیگری هست؟",
+    notePlaceholder: "مثلاً دو تخت جدا، طبقه‌ی همکف، همراه با نوزاد",
+    submit: "ثبت ترجیحات",
+    update: "به‌روزرسانی ترجیحات",
+    saving: "در حال ذخیره…",
+    cancel: "انصراف",
+    edit: "ویرایش ترجیحات",
+    loading: "در حال بارگذاری اتاق شما…",
+    saved: "ممنون — ترجیحات اتاق شما ثبت شد.",
+    submitFailed: "ذخیره‌ی ترجیحات ممکن نشد. لطفاً دوباره تلاش کنید.",
+    requested: "درخواست شما",
+    assigned: "{type} · اتاق {n}",
+    roommates: "هم‌اتاق با {names}",
+    ownRoom: "فقط همراهان خودتان",
+    pending: "پس از تقسیم اتاق‌ها، اتاق شما را همین‌جا اعلام می‌کنیم.",
+    inviteOnly: "برای ثبت ترجیحات اتاق، لینک شخصی دعوت‌نامه‌تان را باز کنید.",
+    errors: {
+      shareWith: "لطفاً مهمانان را از فهرست انتخاب کنید.",
+      note: "متن یادداشت کمی طولانی است.",
+    },
+  },
+  seating: {
+    title: "میز خود را پیدا کنید",
+    intro: "شام کنار دریا در {date}. میز هر مهمان را با جستجوی نامش پیدا کنید.",
+    yours: "میز شما",
+    search: "نام مهمان",
+    placeholder: "دست‌کم دو حرف بنویسید",
+    noMatch: "هنوز کسی با این نام جا داده نشده است.",
+    pending: "پس از آماده شدن چیدمان میزها، اینجا نمایش داده می‌شود.",
+    loading: "در حال بارگذاری چیدمان میزها…",
+  },
+  notesTitle: "نکته‌ها",
+  notesSubtitle: "دو مورد کوچک (اما مهم) برای روز عروسی.",
+  notesCards: [
+    { icon: "sparkles", title: "پوشش: رسمی", text: "برای خودِ مراسم عروسی، پوشش رسمی—شیک و آراسته." },
+    { icon: "info", title: "بدون هدیه", text: "لطفاً هیچ هدیه‌ای تهیه نکنید. حضور شما بزرگ‌ترین هدیه است." },
+    { icon: "utensils", title: "با اشتها بیایید", text: "برای شام و کوکتل‌ها برنامه ویژه داریم—جزئیات بعداً." },
+  ],
+  travelTitle: "سفر",
+  travelSubtitle: "بیشتر مهمان‌ها به فرودگاه میلاس–بدروم (BJV) پرواز می‌کنند؛ بعضی مسیرها با اتصال از استانبول (IST) است.",
+  travelCards: [
+    { icon: "plane", title: "فرودگاه", text: "نزدیک‌ترین فرودگاه BJV است؛ مسیر زمینی حدود ۴۵ دقیقه تا ۱ ساعت." },
+    {
+      icon: "mapPin",
+      title: "رفت‌وآمد",
+      text: "پروازهایتان را پایین ثبت کنید تا شما را در یک شاتل مشترک بین BJV و هتل قرار دهیم. اجاره خودرو هم برای انعطاف بیشتر گزینهٔ خوبی است.",
+    },
+    { icon: "info", title: "ساعت", text: "ساعت ترکیه (TRT، UTC+3)." },
+  ],
+  map: {
+    label: "نقشهٔ هتل، فرودگاه میلاس–بدروم و شهر بدروم",
+    sea: "دریای اژه",
+    drive: "حدود {time} رانندگی از هتل",
+    minutes: "{min} تا {max} دقیقه",
+    copyAddress: "کپی نشانی",
+    copied: "کپی شد",
+    openMaps: "باز کردن در نقشه",
+    close: "بستن",
+    approximate: "زمان‌های رانندگی تقریبی است و به ترافیک بستگی دارد.",
+    places: {
+      resort: { title: "هتل Caresse", text: "خانهٔ ما در این آخر هفته — در خلیجی اختصاصی میان بیتز و شهر بدروم." },
+      airport: { title: "فرودگاه میلاس–بدروم (BJV)", text: "بیشتر شما اینجا فرود می‌آیید. شاتل‌ها در سالن ورودی منتظرند." },
+      bitez: { title: "خلیج بیتز", text: "خلیجی آرام و کم‌عمق با بیچ‌کلاب‌ها — برای روزهای شنا، همین نزدیکی." },
+      marina: { title: "شهر قدیم + مارینا", text: "بوتیک‌ها، کافه‌ها، قایق‌ها و قدم‌زدن‌های شبانه کنار آب." },
+      castle: { title: "قلعهٔ سنت پیتر", text: "قلعه‌ای صلیبی کنار بندر و محل موزهٔ باستان‌شناسی زیر آب." },
+    },
+  },
+  travelForm: {
+    title: "پروازهای شما",
+    intro: "بگویید کی می‌رسید و کی می‌روید تا شما را با مهمانان دیگر در یک شاتل مشترک قرار دهیم.",
+    passengers: "تعداد مسافران",
+    legs: { arrival: "رسیدن", departure: "رفتن" },
+    needShuttle: { arrival: "شاتل از فرودگاه", departure: "شاتل به فرودگاه" },
+    airports: { BJV: "مستقیم به بدروم (BJV)", IST: "با اتصال از استانبول (IST)" },
+    flight: "شمارهٔ پرواز",
+    flightPlaceholder: "مثلاً TK 2504",
+    time: { arrival: "نشستن در BJV (به وقت ترکیه)", departure: "پرواز از BJV (به وقت ترکیه)" },
+    noShuttle: "شاتل لازم نیست",
+    submit: "ثبت پروازها",
+    update: "به‌روزرسانی پروازها",
+    saving: "در حال ثبت…",
+    cancel: "انصراف",
+    edit: "ویرایش پروازها",
+    loading: "در حال بارگذاری پروازها…",
+    saved: "ممنون — پروازهای شما ثبت شد.",
+    submitFailed: "ثبت پروازها انجام نشد. لطفاً دوباره تلاش کنید.",
+    pickupTitle: "ترنسفر شما",
+    pickup: { arrival: "شاتل {n} · {time} · سالن ورودی BJV", departure: "شاتل {n} · {time} · لابی هتل" },
+    sharing: "همسفر با {names}",
+    pickupPending: "وقتی برنامهٔ شاتل‌ها آماده شد، ترنسفر شما را همین‌جا اعلام می‌کنیم.",
+    inviteOnly: "برای ثبت پروازها، لینک شخصی دعوت‌نامه‌تان را باز کنید.",
+    errors: {
+      passengers: "لطفاً تعداد مسافران را انتخاب کنید.",
+      flight: "لطفاً شمارهٔ پرواز را مثل TK 2504 وارد کنید.",
+      time: "لطفاً تاریخ و ساعت پرواز را وارد کنید.",
+      order: "زمان رفتن باید بعد از زمان رسیدن باشد.",
+    },
+  },
+  galleryTitle: "گالری عکس‌های Caresse",
+  gallerySubtitle: "برای نمایش تمام‌صفحه روی هر عکس بزنید.",
+  loadMore: "نمایش عکس‌های بیشتر",
+  galleryFilters: {
+    label: "فیلتر عکس‌ها",
+    all: "همه",
+    search: "جستجوی عکس‌ها",
+    results: "{count} عکس",
+    empty: "هیچ عکسی با این فیلترها پیدا نشد.",
+    clear: "حذف فیلترها",
+    tags: {
+      beach: "ساحل",
+      pool: "استخر",
+      dining: "رستوران",
+      wellness: "اسپا و تندرستی",
+      aerial: "نمای هوایی",
+      sunset: "غروب",
+      resort: "ریزورت",
+      "beach-club": "بیچ کلاب",
+      bay: "خلیج",
+      panorama: "پانوراما",
+      deck: "عرشه",
+      cabanas: "کابانا",
+    },
+  },
+  lightbox: {
+    dialog: "نمایشگر عکس",
+    position: "عکس {n} از {total}",
+    close: "بستن",
+    previous: "قبلی",
+    next: "بعدی",
+    openPhoto: "نمایش عکس: {title}",
+    openVideo: "پخش ویدیو: {title}",
+    openPanorama: "باز کردن پانورامای ۳۶۰ درجه: {title}",
+    play: "پخش",
+    pause: "توقف",
+    dragToLook: "برای دیدن اطراف بکشید",
+  },
+  albumTitle: "عکس‌های مهمانان",
+  albumSubtitle: "لحظه‌های دلخواهتان از این آخر هفته را با ما به اشتراک بگذارید. عکس‌ها پس از بررسی اینجا نمایش داده می‌شوند.",
+  album: {
+    share: "اشتراک‌گذاری عکس",
+    choose: "انتخاب عکس",
+    change: "انتخاب عکس دیگر",
+    caption: "توضیح",
+    captionPlaceholder: "اختیاری — چه کسی، کجا، چه اتفاقی؟",
+    upload: "بارگذاری عکس",
+    uploading: "در حال بارگذاری…",
+    thanks: "ممنون! عکس شما پس از تأیید اینجا نمایش داده می‌شود.",
+    pending: "در انتظار تأیید",
+    byline: "ارسال از {name}",
+    empty: "هنوز عکسی از مهمانان نیست — اولین نفر باشید.",
+    loading: "در حال بارگذاری عکس‌ها…",
+    inviteOnly: "برای اشتراک‌گذاری عکس، لینک شخصی دعوت‌نامه‌تان را باز کنید.",
+    errors: {
+      type: "لطفاً یک فایل تصویری انتخاب کنید.",
+      size: "حجم فایل زیاد است. لطفاً عکسی کمتر از {max} مگابایت انتخاب کنید.",
+      caption: "لطفاً توضیح را کوتاه‌تر از {max} نویسه نگه دارید.",
+      failed: "بارگذاری انجام نشد. لطفاً دوباره تلاش کنید.",
+    },
+  },
+  albumAdmin: {
+    title: "بررسی عکس‌های مهمانان",
+    subtitle: "عکس‌ها پیش از نمایش در آلبوم مهمانان باید تأیید شوند.",
+    pending: "در انتظار تأیید",
+    approved: "منتشرشده",
+    rejected: "ردشده",
+    approve: "تأیید",
+    reject: "رد",
+    remove: "حذف",
+    confirmRemove: "این عکس برای همیشه حذف شود؟",
+    empty: "موردی نیست.",
+    loadFailed: "بارگذاری عکس‌ها انجام نشد.",
+    byline: "{name} · {date}",
+  },
+  transfersAdmin: {
+    title: "ترنسفر فرودگاه",
+    subtitle: "شاتل‌ها به‌طور خودکار بر اساس پروازهای ثبت‌شده گروه‌بندی می‌شوند. برنامه را منتشر کنید تا مهمانان ترنسفر خود را ببینند.",
+    window: "بازهٔ زمانی (دقیقه)",
+    capacity: "ظرفیت هر خودرو",
+    lead: "حرکت از هتل پیش از پرواز (دقیقه)",
+    directions: { arrival: "ورود · BJV ← هتل", departure: "خروج · هتل ← BJV" },
+    shuttle: "شاتل {n}",
+    pickup: "حرکت {time}",
+    seats: "{seats} از {capacity} صندلی",
+    overCapacity: "خودروی بزرگ‌تر لازم است",
+    connection: "از طریق IST",
+    none: "هنوز پروازی ثبت نشده است.",
+    publish: "انتشار برای مهمانان",
+    publishing: "در حال انتشار…",
+    published: "منتشرشده در {date}",
+    unpublished: "هنوز منتشر نشده — مهمانان ترنسفری نمی‌بینند.",
+    changed: "از زمان انتشار، پروازها یا تنظیمات تغییر کرده‌اند.",
+    loading: "در حال بارگذاری پروازها…",
+    loadFailed: "بارگذاری پروازها انجام نشد.",
+  },
+  kitchenAdmin: {
+    title: "گزارش آشپزخانه",
+    subtitle: "غذای اصلی و نیازهای غذایی همه‌ی حاضران. خروجی‌ها برای آشپزخانه‌ی Caresse به انگلیسی هستند.",
+    guests: "{count} مهمان در شام",
+    coursesTitle: "غذاهای اصلی",
+    undecided: "هنوز انتخاب نشده",
+    needsTitle: "رژیم‌ها و حساسیت‌ها",
+    matrixTitle: "جدول حساسیت‌ها",
+    matrixHint: "مهمانانی که رژیم، حساسیت یا یادداشت دارند. فهرست کامل در خروجی است.",
+    columns: { party: "گروه", guest: "مهمان", course: "غذای اصلی", other: "یادداشت" },
+    conflict: "غذا نیاز به تطبیق دارد",
+    noneSpecial: "هنوز رژیم یا حساسیتی ثبت نشده است.",
+    exportCsv: "خروجی جدول (CSV)",
+    exportJson: "خروجی JSON",
+    loading: "در حال بارگذاری پاسخ‌ها…",
+    loadFailed: "بارگذاری پاسخ‌ها ممکن نشد.",
+  },
+  roomsAdmin: {
+    title: "اتاق‌ها",
+    subtitle: "پیشنهادی بر اساس پاسخ‌ها و درخواست‌های اتاق. گروه‌ها را بین اتاق‌ها جابه‌جا کنید و سپس منتشر کنید تا مهمانان اتاقشان را ببینند.",
+    staying: "{parties} گروه · {people} مهمان اقامت دارند",
+    room: "{type} {n}",
+    beds: "{people} از {beds} تخت",
+    empty: "خالی",
+    asked: "درخواست: {type}",
+    moveTo: "انتقال {name} به",
+    unassigned: "بدون اتاق",
+    noneStaying: "هنوز کسی برای اقامت در ریزورت پاسخ نداده است.",
+    conflictsTitle: "نیاز به بررسی",
+    noConflicts: "همه‌ی درخواست‌ها برآورده شده‌اند.",
+    conflicts: {
+      unassigned: "{party} اتاق ندارد.",
+      overCapacity: "مهمانان {room} از تعداد تخت‌ها بیشترند.",
+      wrongType: "{party} نوع اتاق دیگری به جز {room} خواسته است.",
+      apart: "{party} خواسته با {other} هم‌اتاق باشد، اما آن‌ها در اتاق دیگری هستند.",
+      notStaying: "{party} خواسته با {other} هم‌اتاق باشد، اما آن‌ها در ریزورت اقامت ندارند.",
+      cancelled: "{party} در {room} است اما دیگر اقامت ندارد.",
+    },
+    propose: "پیشنهاد دوباره",
+    exportCsv: "خروجی فهرست اتاق‌ها (CSV)",
+    publish: "انتشار برای مهمانان",
+    publishing: "در حال انتشار…",
+    published: "منتشر شده در {date}",
+    unpublished: "هنوز منتشر نشده — مهمانان اتاقی نمی‌بینند.",
+    changed: "اتاق‌ها پس از انتشار تغییر کرده‌اند.",
+    loading: "در حال بارگذاری اتاق‌ها…",
+    loadFailed: "بارگذاری اتاق‌ها ممکن نشد.",
+  },
+  seatingAdmin: {
+    title: "چیدمان میزها",
+    subtitle: "مهمانان را برای شام عروسی روی میزها بکشید. منتشر کنید تا مهمانان میزشان را ببینند.",
+    seated: "{seated} از {total} مهمان جا داده شده‌اند",
+    addTable: "افزودن میز",
+    defaultTable: "میز {n}",
+    tableName: "نام میز",
+    seats: "صندلی‌ها",
+    occupancy: "{count} از {seats}",
+    removeTable: "حذف میز",
+    noTables: "هنوز میزی نیست — برای شروع یک میز اضافه کنید.",
+    dropHere: "مهمانان را اینجا رها کنید",
+    moveTo: "انتقال {name} به",
+    unseated: "بدون میز",
+    allSeated: "همه جا دارند.",
+    noDiners: "هنوز کسی برای شام پاسخ نداده است.",
+    constraintsTitle: "کنار هم یا جدا",
+    constraintKinds: { together: "کنار هم", apart: "جدا از هم" },
+    pickGuest: "انتخاب مهمان",
+    addConstraint: "افزودن",
+    removeConstraint: "حذف",
+    noConstraints: "هنوز قیدی تعریف نشده است.",
+    warningsTitle: "هشدارها",
+    noWarnings: "هشداری نیست.",
+    warnings: {
+      overCapacity: "مهمانان {table} از تعداد صندلی‌ها بیشترند.",
+      together: "{a} و {b} باید کنار هم بنشینند.",
+      apart: "{a} و {b} نباید هر دو سر {table} باشند.",
+      gone: "{a} دیگر در شام حضور ندارد.",
+    },
+    print: { title: "چیدمان میزهای شام عروسی", byTable: "بر اساس میز", byName: "بر اساس نام", guest: "مهمان", table: "میز" },
+    printList: "فهرست قابل چاپ",
+    exportJson: "خروجی نسخه (JSON)",
+    importJson: "وارد کردن نسخه",
+    importFailed: "این فایل نسخه‌ی چیدمان میزها نیست.",
+    publish: "انتشار برای مهمانان",
+    publishing: "در حال انتشار…",
+    published: "منتشر شده در {date}",
+    unpublished: "هنوز منتشر نشده — مهمانان نمی‌توانند میزها را جستجو کنند.",
+    changed: "چیدمان پس از انتشار تغییر کرده است.",
+    loading: "در حال بارگذاری پاسخ‌ها…",
+    loadFailed: "بارگذاری چیدمان میزها ممکن نشد.",
+  },
+  admin: {
+    title: "داشبورد برگزارکنندگان",
+    back: "بازگشت به دعوت‌نامه",
+    tabs: { responses: "پاسخ‌ها", photos: "عکس‌های مهمانان", transfers: "ترنسفرها", kitchen: "آشپزخانه", rooms: "اتاق‌ها", seating: "میزها" },
+    signIn: "ورود برگزارکنندگان",
+    passcode: "رمز عبور",
+    unlock: "باز کردن داشبورد",
+    wrongPasscode: "رمز عبور درست نیست.",
+    disabled: "داشبورد برگزارکنندگان برای این سایت راه‌اندازی نشده است.",
+    signOut: "خروج",
+    loading: "در حال بارگذاری پاسخ‌ها…",
+    loadFailed: "بارگذاری پاسخ‌ها انجام نشد.",
+    totals: {
+      parties: "دعوت‌نامه‌ها",
+      people: "مهمانانِ حاضر",
+      attending: "می‌آیند",
+      declined: "نمی‌آیند",
+      pending: "بی‌پاسخ",
+    },
+    nightsTitle: "تعداد مهمانان در هر شب",
+    eventsTitle: "دعوت‌شده و حاضر در هر برنامه",
+    guestCount: "{count} مهمان",
+    eventAttendance: "{attending} حاضر از {invited} دعوت‌شده",
+    pendingTitle: "هنوز منتظر پاسخ",
+    pendingOpen: "مهلت پاسخ تا {deadline} است.",
+    pendingOverdue: "مهلت پاسخ ({deadline}) گذشته است.",
+    nonePending: "همه پاسخ داده‌اند.",
+    guestsTitle: "مهمانان و پاسخ‌ها",
+    columns: { guest: "مهمان", status: "وضعیت", party: "نفرات", nights: "شب‌ها", note: "یادداشت", updated: "به‌روزرسانی" },
+    status: { attending: "می‌آیند", declined: "نمی‌آیند", pending: "در انتظار" },
+    unlisted: "خارج از فهرست مهمانان",
+    exportCsv: "خروجی CSV",
+    exportJson: "خروجی JSON",
+  },
+  pwa: {
+    offline: "شما آفلاین هستید. برنامه و اطلاعات سفر در این صفحه همچنان در دسترس است.",
+    offlineGallery: "عکس‌ها به اینترنت نیاز دارند — تا آن موقع، نگاهی کوتاه به برنامهٔ آخر هفته.",
+    offlineAlbum: "عکس‌های مهمانان با وصل شدن دوبارهٔ اینترنت نمایش داده می‌شوند.",
+    update: "نسخهٔ تازه‌ای از این صفحه آماده است.",
+    refresh: "به‌روزرسانی",
+    later: "بعداً",
+  },
+  footer: "بی‌صبرانه منتظر جشن گرفتن با شما هستیم.",
+  footer2: "جزئیات بیشتر را با نزدیک شدن به تاریخ اضافه می‌کنیم.",
+} satisfies Locale;
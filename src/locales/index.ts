@@ -0,0 +1,7 @@
+import type { Lang } from "../i18n";
+import type { Locale } from "./schema";
+import { de } from "./de";
+import { en } from "./en";
+import { fa } from "./fa";
+
+export const LOCALES: Record<Lang, Locale> = { en, fa, de };
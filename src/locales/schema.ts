@@ -0,0 +1,449 @@
+import type { GuestEvent } from "../guests/types";
+import type { ResponseStatus } from "../admin/report";
+import type { AgendaSpot, DressCode } from "../agenda/types";
+import type { AlbumError } from "../album/types";
+import type { PlaceId } from "../map/places";
+import type { Allergen, Diet } from "../meals/types";
+import type { PhotoTag } from "../photos/filters";
+import type { RoomConflictKind, RoomError } from "../rooms/types";
+import type { SeatingConstraintKind, SeatingWarningKind } from "../seating/types";
+import type { RsvpError } from "../rsvp/types";
+import type { Airport, Direction, TravelError } from "../travel/types";
+
+// Every locale file is declared with `satisfies Locale`, so `tsc -b` (and therefore `npm run build`)
+// fails when a locale is missing a key or carries one the schema does not know about.
+//
+// Dates are never written into copy. Strings that mention them use `{arrival}`, `{wedding}`, `{weddingDate}`,
+// `{departure}`, `{stay}`, `{window}` or `{deadline}`, filled from `eventDateVars` in `src/dates.ts`.
+
+export type IconKey = "waves" | "utensils" | "sparkles" | "camera" | "info" | "plane" | "mapPin";
+
+export type CardCopy = { icon: IconKey; title: string; text: string };
+
+/** `tbd` is shown until every agenda item for the event is published. */
+export type WeekendCopy = { event: GuestEvent; title: string; text: string; tbd?: string };
+
+export type AgendaCopy = {
+  title: string;
+  venueTime: string;
+  localTime: string;
+  dressCode: string;
+  spots: Record<AgendaSpot, string>;
+  dress: Record<DressCode, string>;
+};
+
+export type NavCopy = {
+  venue: string;
+  bodrum: string;
+  istanbul: string;
+  weekend: string;
+  rsvp: string;
+  stay: string;
+  notes: string;
+  travel: string;
+  gallery: string;
+  language: string;
+  /** Label of the evening (dark) theme toggle. */
+  evening: string;
+  menu: string;
+  closeMenu: string;
+};
+
+export type GalleryFiltersCopy = {
+  label: string;
+  all: string;
+  search: string;
+  results: string;
+  empty: string;
+  clear: string;
+  tags: Record<PhotoTag, string>;
+};
+
+export type LightboxCopy = {
+  dialog: string;
+  position: string;
+  close: string;
+  previous: string;
+  next: string;
+  openPhoto: string;
+  openVideo: string;
+  openPanorama: string;
+  play: string;
+  pause: string;
+  dragToLook: string;
+};
+
+export type CountdownCopy = {
+  label: string;
+  days: string;
+  hours: string;
+  minutes: string;
+  seconds: string;
+  live: string;
+  now: string;
+  next: string;
+  over: string;
+};
+
+export type CalendarCopy = {
+  add: string;
+  google: string;
+  wholeWeekend: string;
+};
+
+export type RsvpCopy = {
+  attending: string;
+  yes: string;
+  no: string;
+  partySize: string;
+  names: string;
+  firstGuestName: string;
+  guestName: string;
+  nights: string;
+  note: string;
+  notePlaceholder: string;
+  submit: string;
+  update: string;
+  saving: string;
+  cancel: string;
+  edit: string;
+  loading: string;
+  confirmedYes: string;
+  confirmedNo: string;
+  submitFailed: string;
+  errors: Record<RsvpError, string>;
+};
+
+export type MealsCopy = {
+  title: string;
+  intro: string;
+  course: string;
+  diets: string;
+  allergens: string;
+  other: string;
+  otherPlaceholder: string;
+  /** `{needs}` lists the declared diets and allergens the chosen dish does not fit. */
+  conflict: string;
+  undecided: string;
+  diet: Record<Diet, string>;
+  allergen: Record<Allergen, string>;
+};
+
+export type KitchenAdminCopy = {
+  title: string;
+  subtitle: string;
+  guests: string;
+  coursesTitle: string;
+  undecided: string;
+  needsTitle: string;
+  matrixTitle: string;
+  matrixHint: string;
+  columns: Record<"party" | "guest" | "course" | "other", string>;
+  conflict: string;
+  noneSpecial: string;
+  exportCsv: string;
+  exportJson: string;
+  loading: string;
+  loadFailed: string;
+};
+
+export type RoomsCopy = {
+  title: string;
+  intro: string;
+  roomType: string;
+  /** `{beds}` is how many one room sleeps. */
+  sleeps: string;
+  noPreference: string;
+  shareWith: string;
+  shareHint: string;
+  note: string;
+  notePlaceholder: string;
+  submit: string;
+  update: string;
+  saving: string;
+  cancel: string;
+  edit: string;
+  loading: string;
+  saved: string;
+  submitFailed: string;
+  requested: string;
+  /** `{type}` is the room type name, `{n}` the room number. */
+  assigned: string;
+  roommates: string;
+  ownRoom: string;
+  pending: string;
+  inviteOnly: string;
+  errors: Record<RoomError, string>;
+};
+
+export type RoomsAdminCopy = {
+  title: string;
+  subtitle: string;
+  staying: string;
+  /** `{type}` is the room type name, `{n}` the room number. */
+  room: string;
+  beds: string;
+  empty: string;
+  asked: string;
+  moveTo: string;
+  unassigned: string;
+  noneStaying: string;
+  conflictsTitle: string;
+  noConflicts: string;
+  /** `{party}` asked, `{other}` was asked for, `{room}` is the room; not every kind uses all three. */
+  conflicts: Record<RoomConflictKind, string>;
+  propose: string;
+  exportCsv: string;
+  publish: string;
+  publishing: string;
+  published: string;
+  unpublished: string;
+  changed: string;
+  loading: string;
+  loadFailed: string;
+};
+
+export type SeatingCopy = {
+  title: string;
+  intro: string;
+  yours: string;
+  search: string;
+  placeholder: string;
+  noMatch: string;
+  pending: string;
+  loading: string;
+};
+
+export type SeatingAdminCopy = {
+  title: string;
+  subtitle: string;
+  seated: string;
+  addTable: string;
+  /** `{n}` numbers new tables; organizers rename them freely. */
+  defaultTable: string;
+  tableName: string;
+  seats: string;
+  occupancy: string;
+  removeTable: string;
+  noTables: string;
+  dropHere: string;
+  moveTo: string;
+  unseated: string;
+  allSeated: string;
+  noDiners: string;
+  constraintsTitle: string;
+  constraintKinds: Record<SeatingConstraintKind, string>;
+  pickGuest: string;
+  addConstraint: string;
+  removeConstraint: string;
+  noConstraints: string;
+  warningsTitle: string;
+  noWarnings: string;
+  /** `{a}` and `{b}` are guests, `{table}` a table name; not every kind uses all three. */
+  warnings: Record<SeatingWarningKind, string>;
+  print: Record<"title" | "byTable" | "byName" | "guest" | "table", string>;
+  printList: string;
+  exportJson: string;
+  importJson: string;
+  importFailed: string;
+  publish: string;
+  publishing: string;
+  published: string;
+  unpublished: string;
+  changed: string;
+  loading: string;
+  loadFailed: string;
+};
+
+export type AlbumCopy = {
+  share: string;
+  choose: string;
+  change: string;
+  caption: string;
+  captionPlaceholder: string;
+  upload: string;
+  uploading: string;
+  thanks: string;
+  pending: string;
+  byline: string;
+  empty: string;
+  loading: string;
+  inviteOnly: string;
+  errors: Record<AlbumError, string>;
+};
+
+export type AlbumAdminCopy = {
+  title: string;
+  subtitle: string;
+  pending: string;
+  approved: string;
+  rejected: string;
+  approve: string;
+  reject: string;
+  remove: string;
+  confirmRemove: string;
+  empty: string;
+  loadFailed: string;
+  byline: string;
+};
+
+export type MapCopy = {
+  label: string;
+  sea: string;
+  drive: string;
+  minutes: string;
+  copyAddress: string;
+  copied: string;
+  openMaps: string;
+  close: string;
+  approximate: string;
+  places: Record<PlaceId, { title: string; text: string }>;
+};
+
+export type TravelCopy = {
+  title: string;
+  intro: string;
+  passengers: string;
+  legs: Record<Direction, string>;
+  needShuttle: Record<Direction, string>;
+  airports: Record<Airport, string>;
+  flight: string;
+  flightPlaceholder: string;
+  time: Record<Direction, string>;
+  noShuttle: string;
+  submit: string;
+  update: string;
+  saving: string;
+  cancel: string;
+  edit: string;
+  loading: string;
+  saved: string;
+  submitFailed: string;
+  pickupTitle: string;
+  pickup: Record<Direction, string>;
+  sharing: string;
+  pickupPending: string;
+  inviteOnly: string;
+  errors: Record<TravelError, string>;
+};
+
+export type TransfersAdminCopy = {
+  title: string;
+  subtitle: string;
+  window: string;
+  capacity: string;
+  lead: string;
+  directions: Record<Direction, string>;
+  shuttle: string;
+  pickup: string;
+  seats: string;
+  overCapacity: string;
+  connection: string;
+  none: string;
+  publish: string;
+  publishing: string;
+  published: string;
+  unpublished: string;
+  changed: string;
+  loading: string;
+  loadFailed: string;
+};
+
+export type PwaCopy = {
+  offline: string;
+  offlineGallery: string;
+  offlineAlbum: string;
+  update: string;
+  refresh: string;
+  later: string;
+};
+
+export type AdminCopy = {
+  title: string;
+  back: string;
+  tabs: { responses: string; photos: string; transfers: string; kitchen: string; rooms: string; seating: string };
+  signIn: string;
+  passcode: string;
+  unlock: string;
+  wrongPasscode: string;
+  disabled: string;
+  signOut: string;
+  loading: string;
+  loadFailed: string;
+  totals: Record<"parties" | "people" | "attending" | "declined" | "pending", string>;
+  nightsTitle: string;
+  eventsTitle: string;
+  guestCount: string;
+  eventAttendance: string;
+  pendingTitle: string;
+  pendingOpen: string;
+  pendingOverdue: string;
+  nonePending: string;
+  guestsTitle: string;
+  columns: Record<"guest" | "status" | "party" | "nights" | "note" | "updated", string>;
+  status: Record<ResponseStatus, string>;
+  unlisted: string;
+  exportCsv: string;
+  exportJson: string;
+};
+
+export type Locale = {
+  langName: string;
+  nav: NavCopy;
+  greeting: string;
+  title: string;
+  location: string;
+  countdown: CountdownCopy;
+  copy: string;
+  /** `{venue}` is the venue name from the event config. */
+  venueSite: string;
+  rsvp: string;
+  venueTitle: string;
+  venueSubtitle: string;
+  venueCards: CardCopy[];
+  bodrumTitle: string;
+  bodrumSubtitle: string;
+  bodrumCards: CardCopy[];
+  istanbulTitle: string;
+  istanbulSubtitle: string;
+  istanbulCards: CardCopy[];
+  weekendTitle: string;
+  weekendSubtitle: string;
+  weekend: WeekendCopy[];
+  agenda: AgendaCopy;
+  calendar: CalendarCopy;
+  rsvpTitle: string;
+  rsvpSubtitle: string;
+  rsvpCta: string;
+  rsvpForm: RsvpCopy;
+  meals: MealsCopy;
+  stayTitle: string;
+  staySubtitle: string;
+  rooms: RoomsCopy;
+  seating: SeatingCopy;
+  notesTitle: string;
+  notesSubtitle: string;
+  notesCards: CardCopy[];
+  travelTitle: string;
+  travelSubtitle: string;
+  travelCards: CardCopy[];
+  map: MapCopy;
+  travelForm: TravelCopy;
+  galleryTitle: string;
+  gallerySubtitle: string;
+  loadMore: string;
+  galleryFilters: GalleryFiltersCopy;
+  lightbox: LightboxCopy;
+  albumTitle: string;
+  albumSubtitle: string;
+  album: AlbumCopy;
+  albumAdmin: AlbumAdminCopy;
+  transfersAdmin: TransfersAdminCopy;
+  kitchenAdmin: KitchenAdminCopy;
+  roomsAdmin: RoomsAdminCopy;
+  seatingAdmin: SeatingAdminCopy;
+  admin: AdminCopy;
+  pwa: PwaCopy;
+  footer: string;
+  footer2: string;
+};
@@ -2,9 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './pwa/serviceWorker'
 
+// The root may hold prerendered markup (scripts/prerender.mjs). It is replaced rather than hydrated:
+// personalized links (?g=…) and saved languages legitimately render something different.
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>,
 )
+
+registerServiceWorker()
@@ -0,0 +1,167 @@
+import { useEffect, useState, type CSSProperties, type KeyboardEvent } from "react";
+import { Check, Copy, ExternalLink, X } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { MapCopy } from "../locales/schema";
+import InfoCard from "../cards/InfoCard";
+import { ICONS } from "../cards/icons";
+import { LAND_PATH, MAP_HEIGHT, MAP_WIDTH, PLACES, ROUTE_PATH, mapsUrl, project, type Place, type PlaceId } from "./places";
+
+const SEA_LABEL = project(27.3, 37.2);
+
+function percent(place: Place) {
+  const { x, y } = project(place.lon, place.lat);
+  return { x: (x / MAP_WIDTH) * 100, y: (y / MAP_HEIGHT) * 100 };
+}
+
+export default function ResortMap({ copy, lang, rtl }: { copy: MapCopy; lang: Lang; rtl: boolean }) {
+  const [openId, setOpenId] = useState<PlaceId | null>(null);
+  const [copied, setCopied] = useState<PlaceId | null>(null);
+
+  useEffect(() => {
+    if (!copied) return;
+    const t = window.setTimeout(() => setCopied(null), 2000);
+    return () => window.clearTimeout(t);
+  }, [copied]);
+
+  const open = PLACES.find((p) => p.id === openId) ?? null;
+
+  const copyAddress = async (place: Place) => {
+    try {
+      await navigator.clipboard.writeText(place.address);
+      setCopied(place.id);
+    } catch {
+      // No clipboard access (insecure origin, denied permission): the address is on screen to select.
+    }
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape") setOpenId(null);
+  };
+
+  const minutes = ([min, max]: [number, number]) =>
+    fill(copy.minutes, { min: formatNumber(min, lang), max: formatNumber(max, lang) });
+
+  const popover = (place: Place) => {
+    const { x, y } = percent(place);
+    const action =
+      "inline-flex items-center gap-1.5 rounded-xl border border-ink/10 bg-surface/80 px-3 py-1.5 text-xs font-semibold text-ink shadow-sm hover:bg-surface";
+    return (
+      <div
+        id={`map-place-${place.id}`}
+        role="dialog"
+        aria-label={copy.places[place.id].title}
+        style={
+          {
+            "--x": `${x}%`,
+            "--y": `${y}%`,
+            "--tx": x > 50 ? "calc(-100% - 1rem)" : "1rem",
+            "--ty": y > 50 ? "calc(-100% - 0.5rem)" : "0.5rem",
+          } as CSSProperties
+        }
+        className="relative z-10 mt-3 sm:absolute sm:left-(--x) sm:top-(--y) sm:mt-0 sm:w-80 sm:translate-x-(--tx) sm:translate-y-(--ty)"
+      >
+        <InfoCard icon={place.icon} title={copy.places[place.id].title} text={copy.places[place.id].text} className="bg-surface/95 pe-10 backdrop-blur">
+          {place.drive ? (
+            <div className="mt-2 text-sm font-semibold text-accent-ink">{fill(copy.drive, { time: minutes(place.drive) })}</div>
+          ) : null}
+          <div dir="ltr" className={cx("mt-2 select-all text-xs text-subtle", rtl && "text-right")}>
+            {place.address}
+          </div>
+          <div className={cx("mt-3 flex flex-wrap gap-2", rtl && "justify-end")}>
+            <button type="button" onClick={() => void copyAddress(place)} className={action}>
+              {copied === place.id ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+              {copied === place.id ? copy.copied : copy.copyAddress}
+            </button>
+            <a href={mapsUrl(place)} target="_blank" rel="noreferrer" className={action}>
+              {copy.openMaps} <ExternalLink className="h-3.5 w-3.5" />
+            </a>
+          </div>
+        </InfoCard>
+        <button
+          type="button"
+          onClick={() => setOpenId(null)}
+          aria-label={copy.close}
+          className="absolute end-3 top-3 rounded-xl p-1.5 text-muted hover:bg-ink/5"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div onKeyDown={onKeyDown} className="mt-6">
+      <div className="relative">
+        <div className="overflow-hidden rounded-3xl border border-ink/10 bg-sea shadow-sm">
+          <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} role="img" aria-label={copy.label} className="block h-auto w-full">
+            <path d={LAND_PATH} className="fill-land stroke-ink/20" strokeWidth={2} strokeLinejoin="round" />
+            <path
+              d={ROUTE_PATH}
+              fill="none"
+              className="stroke-accent-ink"
+              strokeWidth={4}
+              strokeDasharray="10 8"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+            <text
+              x={SEA_LABEL.x}
+              y={SEA_LABEL.y}
+              textAnchor="middle"
+              className="fill-accent-ink/60 text-[28px] italic tracking-widest"
+            >
+              {copy.sea}
+            </text>
+          </svg>
+        </div>
+
+        {PLACES.map((place) => {
+          const Icon = ICONS[place.icon];
+          const { x, y } = percent(place);
+          const active = place.id === openId;
+          return (
+            <button
+              key={place.id}
+              type="button"
+              onClick={() => setOpenId(active ? null : place.id)}
+              aria-label={copy.places[place.id].title}
+              aria-expanded={active}
+              aria-controls={active ? `map-place-${place.id}` : undefined}
+              style={{ left: `${x}%`, top: `${y}%` }}
+              className={cx(
+                "absolute grid h-8 w-8 -translate-x-1/2 -translate-y-1/2 place-items-center rounded-full border-2 border-surface text-on-ink shadow-md transition hover:scale-110 motion-reduce:transform-none sm:h-9 sm:w-9",
+                active ? "z-20 bg-ink" : "bg-gradient-to-br from-accent to-highlight",
+                place.id === "resort" && "ring-4 ring-accent/25"
+              )}
+            >
+              <Icon className="h-4 w-4" />
+            </button>
+          );
+        })}
+
+        {open ? popover(open) : null}
+      </div>
+
+      <ul className={cx("mt-3 flex flex-wrap gap-2", rtl && "justify-end")}>
+        {PLACES.map((place) => (
+          <li key={place.id}>
+            <button
+              type="button"
+              onClick={() => setOpenId(place.id === openId ? null : place.id)}
+              aria-pressed={place.id === openId}
+              className={cx(
+                "rounded-full border px-3 py-1 text-xs font-semibold shadow-sm",
+                place.id === openId ? "border-ink bg-ink text-on-ink" : "border-ink/10 bg-surface/70 text-ink hover:bg-surface"
+              )}
+            >
+              {copy.places[place.id].title}
+              {place.drive ? <span className="ms-1.5 font-normal opacity-75">{minutes(place.drive)}</span> : null}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <p className={cx("mt-2 text-xs text-subtle", rtl && "text-right")}>{copy.approximate}</p>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { VENUE_LOCATION } from "../calendar/schedule";
+import type { IconKey } from "../locales/schema";
+
+export type PlaceId = "resort" | "airport" | "bitez" | "marina" | "castle";
+
+export type Place = {
+  id: PlaceId;
+  icon: IconKey;
+  lat: number;
+  lon: number;
+  /** What gets copied and handed to the maps app; kept in the local (Turkish) form taxi drivers know. */
+  address: string;
+  /** Approximate drive from the resort, in minutes; absent for the resort itself. */
+  drive?: [min: number, max: number];
+};
+
+export const PLACES: Place[] = [
+  { id: "resort", icon: "sparkles", lat: 37.0262, lon: 27.3978, address: VENUE_LOCATION },
+  {
+    id: "airport",
+    icon: "plane",
+    lat: 37.2506,
+    lon: 27.6643,
+    address: "Milas-Bodrum Havalimanı (BJV), Ekinanbarı, 48200 Milas/Muğla, Türkiye",
+    drive: [45, 60],
+  },
+  { id: "bitez", icon: "waves", lat: 37.0352, lon: 27.3715, address: "Bitez Plajı, Bitez, 48400 Bodrum/Muğla, Türkiye", drive: [5, 10] },
+  {
+    id: "marina",
+    icon: "camera",
+    lat: 37.0348,
+    lon: 27.4208,
+    address: "Milta Bodrum Marina, Neyzen Tevfik Cd., 48400 Bodrum/Muğla, Türkiye",
+    drive: [10, 15],
+  },
+  {
+    id: "castle",
+    icon: "info",
+    lat: 37.0317,
+    lon: 27.4297,
+    address: "Bodrum Kalesi, Kale Cd., 48400 Bodrum/Muğla, Türkiye",
+    drive: [10, 15],
+  },
+];
+
+// A hand-simplified outline of the Bodrum peninsula and the mainland up to BJV, as [lon, lat].
+// It only has to be recognisable at this scale; the maps app is one tap away for anything precise.
+const LAND: [number, number][] = [
+  [27.22, 37.0], [27.25, 36.995], [27.27, 36.995], [27.3, 37.01], [27.34, 37.02], [27.37, 37.028],
+  [27.385, 37.03], [27.395, 37.021], [27.405, 37.024], [27.415, 37.031], [27.425, 37.033], [27.43, 37.028],
+  [27.435, 37.031], [27.445, 37.035], [27.48, 37.03], [27.52, 37.035], [27.56, 37.04], [27.62, 37.045],
+  [27.66, 37.04], [27.72, 37.045], [27.72, 37.3], [27.56, 37.3], [27.58, 37.265], [27.605, 37.235],
+  [27.62, 37.2], [27.6, 37.17], [27.575, 37.14], [27.53, 37.13], [27.49, 37.1], [27.455, 37.09],
+  [27.42, 37.12], [27.385, 37.135], [27.35, 37.135], [27.31, 37.11], [27.28, 37.08], [27.255, 37.05],
+  [27.22, 37.035],
+];
+
+// The D330 towards Milas, bent through the real towns so the dashed line reads as a road.
+const ROUTE: [number, number][] = [
+  [27.3978, 37.0262], [27.415, 37.04], [27.44, 37.045], [27.47, 37.065], [27.52, 37.09], [27.56, 37.12],
+  [27.6, 37.16], [27.635, 37.21], [27.6643, 37.2506],
+];
+
+const BOUNDS = { west: 27.22, east: 27.72, north: 37.29, south: 36.97 };
+const LAT_SCALE = Math.cos((((BOUNDS.north + BOUNDS.south) / 2) * Math.PI) / 180);
+
+export const MAP_WIDTH = 1000;
+export const MAP_HEIGHT = Math.round(
+  (MAP_WIDTH * (BOUNDS.north - BOUNDS.south)) / ((BOUNDS.east - BOUNDS.west) * LAT_SCALE)
+);
+
+/** Equirectangular projection into the map's viewBox; fine over a few dozen kilometres. */
+export function project(lon: number, lat: number) {
+  return {
+    x: ((lon - BOUNDS.west) / (BOUNDS.east - BOUNDS.west)) * MAP_WIDTH,
+    y: ((BOUNDS.north - lat) / (BOUNDS.north - BOUNDS.south)) * MAP_HEIGHT,
+  };
+}
+
+function toPath(points: [number, number][], closed: boolean) {
+  const d = points
+    .map(([lon, lat], i) => {
+      const { x, y } = project(lon, lat);
+      return `${i ? "L" : "M"}${x.toFixed(1)} ${y.toFixed(1)}`;
+    })
+    .join(" ");
+  return closed ? `${d} Z` : d;
+}
+
+export const LAND_PATH = toPath(LAND, true);
+export const ROUTE_PATH = toPath(ROUTE, false);
+
+export function mapsUrl(place: Place) {
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(place.address)}`;
+}
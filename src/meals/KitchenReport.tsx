@@ -0,0 +1,199 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { AlertTriangle, Check, Download } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import { LOCALES } from "../locales";
+import type { KitchenAdminCopy, MealsCopy } from "../locales/schema";
+import { downloadText } from "../lib/download";
+import { EVENT } from "../event";
+import type { Guest } from "../guests/types";
+import type { RsvpAdapter, RsvpResponse } from "../rsvp/types";
+import { buildKitchenReport, kitchenToCsv, kitchenToJson, specialMeals } from "./kitchen";
+import { ALLERGENS, DIETS, type Course } from "./types";
+
+function Stat({ label, value, hint }: { label: string; value: ReactNode; hint?: string }) {
+  return (
+    <div className="rounded-3xl border border-ink/10 bg-surface/70 p-4 shadow-sm">
+      <div className="text-xs font-semibold uppercase tracking-wide text-subtle">{label}</div>
+      <div className="mt-1 text-2xl font-semibold">{value}</div>
+      {hint ? <div className="mt-1 text-xs text-subtle">{hint}</div> : null}
+    </div>
+  );
+}
+
+export default function KitchenReport({
+  adapter,
+  guests,
+  menu,
+  copy,
+  mealCopy,
+  lang,
+}: {
+  adapter: RsvpAdapter;
+  guests: Guest[];
+  menu: Course[];
+  copy: KitchenAdminCopy;
+  mealCopy: MealsCopy;
+  lang: Lang;
+}) {
+  const [responses, setResponses] = useState<Record<string, RsvpResponse> | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    adapter
+      .list()
+      .then((r) => {
+        if (live) setResponses(r);
+      })
+      .catch(() => {
+        if (live) setFailed(true);
+      });
+    return () => {
+      live = false;
+    };
+  }, [adapter]);
+
+  const parties = useMemo(() => Object.fromEntries(guests.map((g) => [g.token, g.name])), [guests]);
+  const report = useMemo(() => (responses ? buildKitchenReport(responses, menu, parties) : null), [responses, menu, parties]);
+
+  const n = (v: number) => formatNumber(v, lang);
+  const stamp = new Date().toISOString().slice(0, 10);
+  const button =
+    "inline-flex items-center gap-2 rounded-2xl border border-ink/10 bg-surface/80 px-4 py-2 text-sm font-semibold shadow-sm hover:bg-surface";
+  const special = report ? specialMeals(report) : [];
+
+  return (
+    <div>
+      <h2 className="text-2xl font-semibold tracking-tight">{copy.title}</h2>
+      <p className="mt-2 max-w-2xl text-muted">{copy.subtitle}</p>
+
+      {failed ? <div className="mt-6 text-sm font-medium text-rose-600">{copy.loadFailed}</div> : null}
+      {!report && !failed ? <div className="mt-6 text-sm text-muted">{copy.loading}</div> : null}
+
+      {report ? (
+        <div className="mt-6 space-y-10">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                downloadText(
+                  `${EVENT.slug}-kitchen-${stamp}.csv`,
+                  kitchenToCsv(report, menu, LOCALES.en.meals),
+                  "text/csv;charset=utf-8"
+                )
+              }
+              className={button}
+            >
+              <Download className="h-4 w-4" />
+              {copy.exportCsv}
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadText(`${EVENT.slug}-kitchen-${stamp}.json`, kitchenToJson(report, menu), "application/json")}
+              className={button}
+            >
+              <Download className="h-4 w-4" />
+              {copy.exportJson}
+            </button>
+            <span className="text-sm text-muted">{fill(copy.guests, { count: n(report.rows.length) })}</span>
+          </div>
+
+          <section>
+            <h3 className="text-xl font-semibold">{copy.coursesTitle}</h3>
+            <div className="mt-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {menu.map((c) => (
+                <Stat key={c.id} label={c.name[lang]} value={n(report.courses[c.id] ?? 0)} />
+              ))}
+              <Stat label={copy.undecided} value={n(report.undecided)} />
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-xl font-semibold">{copy.needsTitle}</h3>
+            <ul className="mt-3 flex flex-wrap gap-2">
+              {[
+                ...DIETS.map((d) => [mealCopy.diet[d], report.diets[d]] as const),
+                ...ALLERGENS.map((a) => [mealCopy.allergen[a], report.allergens[a]] as const),
+              ].map(([label, count]) => (
+                <li
+                  key={label}
+                  className={cx(
+                    "rounded-full border px-3 py-1 text-sm",
+                    count > 0 ? "border-ink/20 bg-surface font-semibold" : "border-ink/10 text-subtle"
+                  )}
+                >
+                  {label} · {n(count)}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section>
+            <h3 className="text-xl font-semibold">{copy.matrixTitle}</h3>
+            <p className="mt-1 text-sm text-muted">{copy.matrixHint}</p>
+            {special.length === 0 ? (
+              <p className="mt-3 text-sm text-muted">{copy.noneSpecial}</p>
+            ) : (
+              <div className="mt-3 overflow-x-auto rounded-3xl border border-ink/10 bg-surface/70 shadow-sm">
+                <table className="w-full text-start text-sm">
+                  <thead className="border-b border-ink/10 text-xs uppercase tracking-wide text-subtle">
+                    <tr>
+                      <th className="px-4 py-3 text-start font-semibold">{copy.columns.guest}</th>
+                      <th className="px-4 py-3 text-start font-semibold">{copy.columns.course}</th>
+                      {DIETS.map((d) => (
+                        <th key={d} className="px-2 py-3 text-center font-semibold">
+                          {mealCopy.diet[d]}
+                        </th>
+                      ))}
+                      {ALLERGENS.map((a) => (
+                        <th key={a} className="px-2 py-3 text-center font-semibold">
+                          {mealCopy.allergen[a]}
+                        </th>
+                      ))}
+                      <th className="px-4 py-3 text-start font-semibold">{copy.columns.other}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {special.map((row, i) => (
+                      <tr key={`${row.key}-${i}`} className="border-b border-ink/5 align-top last:border-0">
+                        <td className="px-4 py-3">
+                          <div className="font-semibold">{row.name}</div>
+                          <div className="text-xs text-subtle">
+                            {copy.columns.party}: {row.party}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3">
+                          {menu.find((c) => c.id === row.meal.course)?.name[lang] ?? <span className="text-subtle">{mealCopy.undecided}</span>}
+                          {row.conflict ? (
+                            <div className="mt-1 inline-flex items-center gap-1 text-xs font-semibold text-rose-700">
+                              <AlertTriangle className="h-3.5 w-3.5" />
+                              {copy.conflict}
+                            </div>
+                          ) : null}
+                        </td>
+                        {DIETS.map((d) => (
+                          <td key={d} className="px-2 py-3 text-center">
+                            {row.meal.diets.includes(d) ? <Check className="mx-auto h-4 w-4 text-accent-ink" aria-label={mealCopy.diet[d]} /> : null}
+                          </td>
+                        ))}
+                        {ALLERGENS.map((a) => (
+                          <td key={a} className="px-2 py-3 text-center">
+                            {row.meal.allergens.includes(a) ? (
+                              <AlertTriangle className="mx-auto h-4 w-4 text-rose-600" aria-label={mealCopy.allergen[a]} />
+                            ) : null}
+                          </td>
+                        ))}
+                        <td className="max-w-xs px-4 py-3 text-muted">{row.meal.other}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useId } from "react";
+import { AlertTriangle } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, type Lang } from "../i18n";
+import type { MealsCopy } from "../locales/schema";
+import { mealConflict, needsLabel } from "./meals";
+import { ALLERGENS, DIETS, MAX_MEAL_NOTE_LENGTH, type Course, type MealChoice } from "./types";
+
+function toggle<T>(list: T[], value: T) {
+  return list.includes(value) ? list.filter((x) => x !== value) : [...list, value];
+}
+
+/** One guest's dinner: main course, diets, allergies and a free-text note. */
+export default function MealFields({
+  label,
+  meal,
+  menu,
+  copy,
+  lang,
+  rtl,
+  invalid,
+  onChange,
+}: {
+  label: string;
+  meal: MealChoice;
+  menu: Course[];
+  copy: MealsCopy;
+  lang: Lang;
+  rtl: boolean;
+  invalid: boolean;
+  onChange: (meal: MealChoice) => void;
+}) {
+  const group = useId();
+  const conflict = mealConflict(meal, menu);
+  const update = (patch: Partial<MealChoice>) => onChange({ ...meal, ...patch });
+
+  const chip = (on: boolean) =>
+    cx(
+      "cursor-pointer rounded-2xl border px-3 py-1.5 text-xs font-semibold shadow-sm",
+      on ? "border-ink bg-ink text-on-ink" : "border-ink/10 bg-surface/70 text-ink hover:bg-surface"
+    );
+  const heading = "text-xs font-semibold uppercase tracking-wide text-subtle";
+
+  return (
+    <fieldset className="space-y-4 rounded-2xl border border-ink/10 bg-surface/50 p-4">
+      <legend className="px-1 text-sm font-semibold">{label}</legend>
+
+      <div role="radiogroup" aria-label={copy.course} aria-invalid={invalid && meal.course === null}>
+        <div className={heading}>{copy.course}</div>
+        <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-3">
+          {menu.map((c) => {
+            const on = meal.course === c.id;
+            return (
+              <label key={c.id} className={cx(chip(on), "block px-4 py-3 text-start", rtl && "text-right")}>
+                <input type="radio" name={group} className="sr-only" checked={on} onChange={() => update({ course: c.id })} />
+                <span className="block text-sm">{c.name[lang]}</span>
+                <span className={cx("mt-1 block font-normal", on ? "text-on-ink/80" : "text-muted")}>{c.description[lang]}</span>
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <div className={heading}>{copy.diets}</div>
+        <div className={cx("mt-2 flex flex-wrap gap-2", rtl && "justify-end")}>
+          {DIETS.map((d) => (
+            <label key={d} className={chip(meal.diets.includes(d))}>
+              <input
+                type="checkbox"
+                className="sr-only"
+                checked={meal.diets.includes(d)}
+                onChange={() => update({ diets: toggle(meal.diets, d) })}
+              />
+              {copy.diet[d]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className={heading}>{copy.allergens}</div>
+        <div className={cx("mt-2 flex flex-wrap gap-2", rtl && "justify-end")}>
+          {ALLERGENS.map((a) => (
+            <label key={a} className={chip(meal.allergens.includes(a))}>
+              <input
+                type="checkbox"
+                className="sr-only"
+                checked={meal.allergens.includes(a)}
+                onChange={() => update({ allergens: toggle(meal.allergens, a) })}
+              />
+              {copy.allergen[a]}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <label className="block">
+        <span className={heading}>{copy.other}</span>
+        <input
+          value={meal.other}
+          onChange={(e) => update({ other: e.target.value })}
+          placeholder={copy.otherPlaceholder}
+          maxLength={MAX_MEAL_NOTE_LENGTH}
+          className="mt-2 w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent"
+        />
+      </label>
+
+      {conflict ? (
+        <p role="status" className="flex items-start gap-2 text-xs font-medium text-amber-700">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          {fill(copy.conflict, { needs: needsLabel(conflict, copy) })}
+        </p>
+      ) : null}
+    </fieldset>
+  );
+}
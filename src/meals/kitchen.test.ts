@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { LOCALES } from "../locales";
+import type { RsvpResponse } from "../rsvp/types";
+import { buildKitchenReport, kitchenToCsv, specialMeals } from "./kitchen";
+import type { Course, MealChoice } from "./types";
+
+const text = (en: string) => ({ en, fa: en, de: en });
+
+const menu: Course[] = [
+  { id: "fish", name: text("Sea bass"), description: text("Grilled"), suits: ["pescatarian"], contains: ["fish"] },
+  { id: "veg", name: text("Stuffed peppers, tahini"), description: text("Baked"), suits: ["vegetarian", "vegan"], contains: ["sesame"] },
+];
+
+const meal = (course: string | null, patch: Partial<MealChoice> = {}): MealChoice => ({
+  course,
+  diets: [],
+  allergens: [],
+  other: "",
+  ...patch,
+});
+
+const response = (names: string[], meals?: MealChoice[], attending = true): RsvpResponse => ({
+  attending,
+  partySize: names.length,
+  names,
+  nights: [],
+  note: "",
+  meals,
+});
+
+const responses: Record<string, RsvpResponse> = {
+  k1: response(["Sara", "Dariush"], [meal("veg", { diets: ["vegan"], allergens: ["sesame"] }), meal("fish", { allergens: ["nuts"] })]),
+  // From before meal choices existed: both guests are undecided.
+  k2: response(["Lena", "Tom"]),
+  k3: response(["Declined Guest"], [meal("fish")], false),
+  k4: response(["Mina"], [meal("fish", { diets: ["vegetarian"], other: 'No "spicy", please' })]),
+};
+
+describe("buildKitchenReport", () => {
+  const report = buildKitchenReport(responses, menu, { k1: "Sara & Dariush", k2: "Lena" });
+
+  it("leaves out declined RSVPs", () => {
+    expect(report.rows.map((r) => r.name)).not.toContain("Declined Guest");
+    expect(report.rows).toHaveLength(5);
+  });
+
+  it("counts guests without a meal entry as undecided", () => {
+    expect(report.undecided).toBe(2);
+    expect(report.rows.filter((r) => r.key === "k2").every((r) => r.meal.course === null)).toBe(true);
+  });
+
+  it("counts per course, diet and allergen", () => {
+    expect(report.courses).toEqual({ fish: 2, veg: 1 });
+    expect(report.diets).toEqual({ vegetarian: 1, vegan: 1, pescatarian: 0, halal: 0, kosher: 0 });
+    expect(report.allergens).toMatchObject({ sesame: 1, nuts: 1, fish: 0, gluten: 0 });
+  });
+
+  it("flags a course that contains a declared allergen or does not suit a declared diet", () => {
+    const conflicted = report.rows.filter((r) => r.conflict).map((r) => r.name);
+    expect(conflicted.sort()).toEqual(["Mina", "Sara"]);
+  });
+
+  it("groups rows by party name and lists only guests with needs as special", () => {
+    expect(report.rows.map((r) => r.party)).toEqual(["Lena", "Lena", "Mina", "Sara & Dariush", "Sara & Dariush"]);
+    expect(specialMeals(report).map((r) => r.name)).toEqual(["Mina", "Dariush", "Sara"]);
+  });
+});
+
+describe("kitchenToCsv", () => {
+  const report = buildKitchenReport(responses, menu, { k1: "Sara & Dariush", k2: "Lena" });
+  const csv = kitchenToCsv(report, menu, LOCALES.en.meals);
+  const lines = csv.split("\r\n");
+
+  it("writes a header with one column per diet and allergen, and CRLF rows", () => {
+    expect(lines[0]).toBe(
+      "party,guest,main_course,Vegetarian,Vegan,Pescatarian,Halal,Kosher,Gluten,Milk,Eggs,Tree nuts,Peanuts,Fish,Shellfish,Sesame,Soy,other,conflict"
+    );
+    expect(lines).toHaveLength(report.rows.length + 2);
+    expect(lines.at(-1)).toBe("");
+  });
+
+  it("quotes cells with commas and doubles embedded quotes", () => {
+    expect(lines).toContain('Mina,Mina,Sea bass,x,,,,,,,,,,,,,,"No ""spicy"", please",yes');
+    expect(lines).toContain('Sara & Dariush,Sara,"Stuffed peppers, tahini",,x,,,,,,,,,,,x,,,yes');
+  });
+});
@@ -0,0 +1,111 @@
+import type { RsvpResponse } from "../rsvp/types";
+import { csvCell } from "../lib/download";
+import { EMPTY_MEAL, mealConflict } from "./meals";
+import { ALLERGENS, DIETS, type Allergen, type Course, type Diet, type MealChoice } from "./types";
+
+export type KitchenRow = {
+  /** RSVP key the guest answered under. */
+  key: string;
+  party: string;
+  name: string;
+  meal: MealChoice;
+  /** The course does not fit a declared diet or contains a declared allergen. */
+  conflict: boolean;
+};
+
+export type KitchenReport = {
+  rows: KitchenRow[];
+  /** Per course id; guests without a choice are counted in `undecided`. */
+  courses: Record<string, number>;
+  undecided: number;
+  diets: Record<Diet, number>;
+  allergens: Record<Allergen, number>;
+};
+
+export type KitchenLabels = { diet: Record<Diet, string>; allergen: Record<Allergen, string> };
+
+/**
+ * One row per attending person across `responses`, with per-course and per-need counts. `parties` maps RSVP keys
+ * to guest-list names; responses from the generic page fall back to their first name.
+ */
+export function buildKitchenReport(
+  responses: Record<string, RsvpResponse>,
+  menu: Course[],
+  parties: Record<string, string> = {}
+): KitchenReport {
+  const rows: KitchenRow[] = [];
+  for (const [key, r] of Object.entries(responses)) {
+    if (!r.attending) continue;
+    const party = parties[key] ?? (r.names[0] || key);
+    for (let i = 0; i < r.partySize; i++) {
+      const meal = r.meals?.[i] ?? EMPTY_MEAL;
+      rows.push({ key, party, name: r.names[i] || party, meal, conflict: mealConflict(meal, menu) !== null });
+    }
+  }
+  rows.sort((a, b) => a.party.localeCompare(b.party) || a.name.localeCompare(b.name));
+
+  const courses = Object.fromEntries(menu.map((c) => [c.id, 0]));
+  const diets = Object.fromEntries(DIETS.map((d) => [d, 0])) as Record<Diet, number>;
+  const allergens = Object.fromEntries(ALLERGENS.map((a) => [a, 0])) as Record<Allergen, number>;
+  let undecided = 0;
+
+  for (const { meal } of rows) {
+    if (meal.course !== null && meal.course in courses) courses[meal.course] += 1;
+    else undecided += 1;
+    for (const d of meal.diets) diets[d] += 1;
+    for (const a of meal.allergens) allergens[a] += 1;
+  }
+
+  return { rows, courses, undecided, diets, allergens };
+}
+
+/** Rows that need the kitchen's attention: any diet, allergen, note or conflict. */
+export function specialMeals(report: KitchenReport) {
+  return report.rows.filter((r) => r.conflict || r.meal.diets.length || r.meal.allergens.length || r.meal.other);
+}
+
+/**
+ * The allergen matrix for the kitchen: one row per guest, one "x" column per diet and allergen. Course and
+ * column names are English; the kitchen team works from those.
+ */
+export function kitchenToCsv(report: KitchenReport, menu: Course[], labels: KitchenLabels) {
+  const courseName = (id: string | null) => menu.find((c) => c.id === id)?.name.en ?? "";
+  const header = [
+    "party",
+    "guest",
+    "main_course",
+    ...DIETS.map((d) => labels.diet[d]),
+    ...ALLERGENS.map((a) => labels.allergen[a]),
+    "other",
+    "conflict",
+  ];
+  const lines = report.rows.map((r) =>
+    [
+      r.party,
+      r.name,
+      courseName(r.meal.course),
+      ...DIETS.map((d) => (r.meal.diets.includes(d) ? "x" : "")),
+      ...ALLERGENS.map((a) => (r.meal.allergens.includes(a) ? "x" : "")),
+      r.meal.other,
+      r.conflict ? "yes" : "",
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [header.map(csvCell).join(","), ...lines].join("\r\n") + "\r\n";
+}
+
+export function kitchenToJson(report: KitchenReport, menu: Course[], now = new Date()) {
+  return JSON.stringify(
+    {
+      generatedAt: now.toISOString(),
+      courses: menu.map((c) => ({ id: c.id, name: c.name.en, count: report.courses[c.id] ?? 0, contains: c.contains })),
+      undecided: report.undecided,
+      diets: report.diets,
+      allergens: report.allergens,
+      guests: report.rows.map(({ party, name, meal, conflict }) => ({ party, name, ...meal, conflict })),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,35 @@
+import type { MealsCopy } from "../locales/schema";
+import { ALLERGENS, DIETS, MAX_MEAL_NOTE_LENGTH, type Course, type MealChoice, type MealConflict } from "./types";
+
+export const EMPTY_MEAL: MealChoice = { course: null, diets: [], allergens: [], other: "" };
+
+/** What in `meal` the chosen course does not fit: declared diets it does not suit and allergens it contains. */
+export function mealConflict(meal: MealChoice, menu: Course[]): MealConflict | null {
+  const course = menu.find((c) => c.id === meal.course);
+  if (!course) return null;
+  const diets = meal.diets.filter((d) => !course.suits.includes(d));
+  const allergens = meal.allergens.filter((a) => course.contains.includes(a));
+  return diets.length || allergens.length ? { diets, allergens } : null;
+}
+
+/** Diets and allergens as one readable list, e.g. "Vegetarian, Sesame". */
+export function needsLabel({ diets, allergens }: MealConflict, copy: MealsCopy) {
+  return [...diets.map((d) => copy.diet[d]), ...allergens.map((a) => copy.allergen[a])].join(", ");
+}
+
+export function mealComplete(meal: MealChoice | undefined, menu: Course[]) {
+  return !!meal && menu.some((c) => c.id === meal.course) && meal.other.length <= MAX_MEAL_NOTE_LENGTH;
+}
+
+/** Exactly `count` meals, known options only, in list order. */
+export function normalizeMeals(meals: MealChoice[] | undefined, count: number, menu: Course[]): MealChoice[] {
+  return Array.from({ length: count }, (_, i) => {
+    const m = meals?.[i] ?? EMPTY_MEAL;
+    return {
+      course: menu.some((c) => c.id === m.course) ? m.course : null,
+      diets: DIETS.filter((d) => m.diets.includes(d)),
+      allergens: ALLERGENS.filter((a) => m.allergens.includes(a)),
+      other: m.other.trim(),
+    };
+  });
+}
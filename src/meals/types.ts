@@ -0,0 +1,32 @@
+import type { Lang } from "../i18n";
+
+export const DIETS = ["vegetarian", "vegan", "pescatarian", "halal", "kosher"] as const;
+
+export type Diet = (typeof DIETS)[number];
+
+/** The kitchen's allergen list; anything else goes into a meal's free-text `other`. */
+export const ALLERGENS = ["gluten", "milk", "eggs", "nuts", "peanuts", "fish", "shellfish", "sesame", "soy"] as const;
+
+export type Allergen = (typeof ALLERGENS)[number];
+
+export const MAX_MEAL_NOTE_LENGTH = 200;
+
+/** A main course on the wedding dinner menu (see the event config's `menu`). */
+export type Course = {
+  id: string;
+  name: Record<Lang, string>;
+  description: Record<Lang, string>;
+  /** Diets the dish already fits as served. */
+  suits: Diet[];
+  contains: Allergen[];
+};
+
+/** One attending guest's dinner; `meals[i]` in an RSVP belongs to `names[i]`. */
+export type MealChoice = {
+  course: string | null;
+  diets: Diet[];
+  allergens: Allergen[];
+  other: string;
+};
+
+export type MealConflict = { diets: Diet[]; allergens: Allergen[] };
@@ -0,0 +1,171 @@
+import { useEffect, useId, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Languages, Menu, Moon, Sun, X } from "lucide-react";
+import { cx } from "../lib/cx";
+import { LANGS, isLang, type Lang } from "../i18n";
+import { LOCALES } from "../locales";
+import type { NavCopy } from "../locales/schema";
+import type { SectionId } from "../event/types";
+import { scrollToSection } from "./scroll";
+import { useScrollSpy } from "./useScrollSpy";
+import { chooseTheme, useTheme } from "../theme/theme";
+
+type NavProps = {
+  lang: Lang;
+  copy: NavCopy;
+  couple: string;
+  /** The page's sections in order; those without a nav label (e.g. the album) are left out. */
+  sections: SectionId[];
+  setLang: (l: Lang) => void;
+};
+
+export default function Nav({ lang, copy, couple, sections, setLang }: NavProps) {
+  const labels: Partial<Record<SectionId, string>> = {
+    venue: copy.venue,
+    bodrum: copy.bodrum,
+    istanbul: copy.istanbul,
+    weekend: copy.weekend,
+    rsvp: copy.rsvp,
+    stay: copy.stay,
+    notes: copy.notes,
+    travel: copy.travel,
+    gallery: copy.gallery,
+  };
+  const links = sections.flatMap((id) => (labels[id] ? [{ id, label: labels[id] }] : []));
+
+  const active = useScrollSpy(links.map((l) => l.id));
+  const evening = useTheme() === "evening";
+  const [open, setOpen] = useState(false);
+  const menuId = useId();
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    const onResize = () => {
+      if (window.matchMedia("(min-width: 640px)").matches) setOpen(false);
+    };
+    window.addEventListener("keydown", onKey);
+    window.addEventListener("resize", onResize);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener("resize", onResize);
+    };
+  }, [open]);
+
+  const scrollToId = (id: string) => {
+    setOpen(false);
+    scrollToSection(id);
+  };
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 top-0 z-50">
+      <div className="pointer-events-auto mx-auto max-w-6xl px-4 sm:px-6">
+        <nav
+          id="site-nav"
+          className="mt-3 rounded-2xl border border-surface/50 bg-surface/45 p-2 shadow-[0_18px_60px_--alpha(var(--theme-shadow)/10%)] backdrop-blur"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <button
+              type="button"
+              onClick={() => scrollToId("top")}
+              className="rounded-xl px-3 py-2 text-sm font-semibold tracking-tight text-ink hover:bg-surface/60"
+            >
+              {couple}
+            </button>
+
+            <div className="hidden sm:flex items-center gap-1">
+              {links.map((l) => (
+                <button
+                  key={l.id}
+                  type="button"
+                  onClick={() => scrollToId(l.id)}
+                  aria-current={active === l.id ? "location" : undefined}
+                  className={cx(
+                    "rounded-xl px-3 py-2 text-sm text-ink hover:bg-surface/60",
+                    active === l.id && "bg-surface/70 font-semibold text-ink shadow-sm"
+                  )}
+                >
+                  {l.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <label className="relative inline-flex items-center rounded-xl border border-ink/10 bg-surface/70 text-sm font-semibold text-ink shadow-sm hover:bg-surface">
+                <Languages className="pointer-events-none absolute start-3 h-4 w-4 opacity-70" />
+                <select
+                  value={lang}
+                  onChange={(e) => {
+                    if (isLang(e.target.value)) setLang(e.target.value);
+                  }}
+                  aria-label={copy.language}
+                  className="cursor-pointer appearance-none rounded-xl bg-transparent py-2 pe-3 ps-9 outline-none"
+                >
+                  {LANGS.map((l) => (
+                    <option key={l} value={l} lang={l}>
+                      {LOCALES[l].langName}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <button
+                type="button"
+                onClick={() => chooseTheme(evening ? "day" : "evening")}
+                aria-pressed={evening}
+                aria-label={copy.evening}
+                title={copy.evening}
+                className="inline-flex h-9 w-9 items-center justify-center rounded-xl border border-ink/10 bg-surface/70 text-ink shadow-sm hover:bg-surface"
+              >
+                {evening ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => setOpen((o) => !o)}
+                aria-expanded={open}
+                aria-controls={menuId}
+                aria-label={open ? copy.closeMenu : copy.menu}
+                className="inline-flex h-9 w-9 items-center justify-center rounded-xl border border-ink/10 bg-surface/70 text-ink shadow-sm hover:bg-surface sm:hidden"
+              >
+                {open ? <X className="h-4 w-4" /> : <Menu className="h-4 w-4" />}
+              </button>
+            </div>
+          </div>
+
+          <AnimatePresence initial={false}>
+            {open ? (
+              <motion.div
+                id={menuId}
+                initial={{ height: 0, opacity: 0 }}
+                animate={{ height: "auto", opacity: 1 }}
+                exit={{ height: 0, opacity: 0 }}
+                transition={{ duration: 0.2, ease: "easeOut" }}
+                className="overflow-hidden sm:hidden"
+              >
+                <div className="mt-2 grid gap-1 border-t border-ink/10 pt-2">
+                  {links.map((l) => (
+                    <button
+                      key={l.id}
+                      type="button"
+                      onClick={() => scrollToId(l.id)}
+                      aria-current={active === l.id ? "location" : undefined}
+                      className={cx(
+                        "rounded-xl px-3 py-2.5 text-start text-sm text-ink hover:bg-surface/60",
+                        active === l.id && "bg-surface/70 font-semibold text-ink shadow-sm"
+                      )}
+                    >
+                      {l.label}
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            ) : null}
+          </AnimatePresence>
+        </nav>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { scrollBehavior } from "../lib/a11y";
+
+const NAV_ID = "site-nav";
+const NAV_GAP = 12;
+const PENDING_MS = 1200;
+
+let pending: { id: string; until: number } | null = null;
+
+export function navOffset() {
+  const nav = document.getElementById(NAV_ID);
+  return (nav?.getBoundingClientRect().height ?? 88) + NAV_GAP;
+}
+
+export function sectionTop(id: string) {
+  if (id === "top") return 0;
+  const el = document.getElementById(id);
+  if (!el) return null;
+  return el.getBoundingClientRect().top + window.scrollY - navOffset();
+}
+
+export function scrollToSection(id: string, { updateHash = true } = {}) {
+  if (typeof window === "undefined") return;
+  const top = sectionTop(id);
+  if (top === null) return;
+
+  if (updateHash) window.history.replaceState(null, "", `#${id}`);
+  pending = { id, until: Date.now() + PENDING_MS };
+  window.scrollTo({ top, behavior: scrollBehavior() });
+}
+
+// While a nav click is still smooth-scrolling, the sections it passes over
+// should not take over the highlight or the hash.
+export function scrollTarget() {
+  if (pending && Date.now() > pending.until) pending = null;
+  return pending?.id ?? null;
+}
+
+export function clearScrollTarget() {
+  pending = null;
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { photoIdFromHash } from "../photos/deepLink";
+import { clearScrollTarget, navOffset, scrollTarget } from "./scroll";
+
+function sectionInView(ids: string[]) {
+  const line = navOffset() + 1;
+  const atBottom = window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 2;
+  let current = "top";
+
+  for (const id of ids) {
+    const el = document.getElementById(id);
+    if (!el) continue;
+    if (el.getBoundingClientRect().top <= line) current = id;
+  }
+  if (atBottom) {
+    const last = [...ids].reverse().find((id) => document.getElementById(id));
+    if (last) current = last;
+  }
+  return current;
+}
+
+function syncHash(id: string) {
+  const { hash } = window.location;
+  // Lightbox deep links own the hash while a photo is open.
+  if (photoIdFromHash(hash) !== null || hash === `#${id}`) return;
+  window.history.replaceState(null, "", `#${id}`);
+}
+
+export function useScrollSpy(ids: string[]) {
+  const [active, setActive] = useState("top");
+  const key = ids.join(" ");
+
+  useEffect(() => {
+    const list = key.split(" ");
+    let frame = 0;
+
+    const update = (fromScroll: boolean) => {
+      frame = 0;
+      const current = sectionInView(list);
+      const target = scrollTarget();
+      if (target !== null && current !== target) return;
+      if (target !== null) clearScrollTarget();
+      setActive(current);
+      if (fromScroll) syncHash(current);
+    };
+
+    const onScroll = () => {
+      if (!frame) frame = requestAnimationFrame(() => update(true));
+    };
+
+    frame = requestAnimationFrame(() => update(false));
+    window.addEventListener("scroll", onScroll, { passive: true });
+    window.addEventListener("resize", onScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", onScroll);
+      window.removeEventListener("resize", onScroll);
+    };
+  }, [key]);
+
+  return active;
+}
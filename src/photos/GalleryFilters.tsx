@@ -0,0 +1,77 @@
+import { useMemo } from "react";
+import { Search, X } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { GalleryFiltersCopy } from "../locales/schema";
+import { NO_FILTER, isFiltered, tagCounts, toggleTag, type GalleryFilter } from "./filters";
+import type { Photo } from "./types";
+
+type GalleryFiltersProps = {
+  photos: Photo[];
+  filter: GalleryFilter;
+  resultCount: number;
+  copy: GalleryFiltersCopy;
+  lang: Lang;
+  onChange: (filter: GalleryFilter) => void;
+};
+
+export default function GalleryFilters({ photos, filter, resultCount, copy, lang, onChange }: GalleryFiltersProps) {
+  const counts = useMemo(() => tagCounts(photos), [photos]);
+
+  const chip = (on: boolean) =>
+    cx(
+      "inline-flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-sm font-semibold shadow-sm",
+      on ? "border-ink bg-ink text-on-ink" : "border-ink/10 bg-surface/70 text-ink hover:bg-surface"
+    );
+
+  return (
+    <div className="mb-5 space-y-3">
+      <div role="group" aria-label={copy.label} className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          aria-pressed={filter.tags.length === 0}
+          onClick={() => onChange({ ...filter, tags: [] })}
+          className={chip(filter.tags.length === 0)}
+        >
+          {copy.all}
+        </button>
+        {counts.map(([tag, n]) => {
+          const on = filter.tags.includes(tag);
+          return (
+            <button key={tag} type="button" aria-pressed={on} onClick={() => onChange(toggleTag(filter, tag))} className={chip(on)}>
+              {copy.tags[tag]}
+              <span className={cx("text-xs font-medium", on ? "text-on-ink/70" : "text-subtle")}>{formatNumber(n, lang)}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="relative block w-full sm:w-72">
+          <Search className="pointer-events-none absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 opacity-60" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(e) => onChange({ ...filter, query: e.target.value })}
+            placeholder={copy.search}
+            aria-label={copy.search}
+            className="w-full rounded-2xl border border-ink/10 bg-surface/80 py-2 pe-3 ps-9 text-sm shadow-sm outline-none focus:border-accent"
+          />
+        </label>
+        <div role="status" className="text-sm text-muted">
+          {fill(copy.results, { count: formatNumber(resultCount, lang) })}
+        </div>
+        {isFiltered(filter) ? (
+          <button
+            type="button"
+            onClick={() => onChange(NO_FILTER)}
+            className="inline-flex items-center gap-1 rounded-xl px-2 py-1 text-sm font-semibold text-muted hover:bg-surface/60"
+          >
+            <X className="h-4 w-4" />
+            {copy.clear}
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+// @vitest-environment jsdom
+import { useState } from "react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { LOCALES } from "../locales";
+import Lightbox from "./Lightbox";
+import type { PanoramaMedia, Photo, VideoMedia } from "./types";
+
+const photos: Photo[] = ["Beach", "Pool", "Sunset"].map((title, i) => ({
+  kind: "image",
+  id: `photo-${i}`,
+  title,
+  tags: [],
+  sources: [`https://example.com/${i}.jpg`],
+  aspectRatio: 1.5,
+}));
+
+const copy = LOCALES.en.lightbox;
+
+function Harness({ rtl = false, onPrev = () => {}, onNext = () => {} }: { rtl?: boolean; onPrev?: () => void; onNext?: () => void }) {
+  const [index, setIndex] = useState<number | null>(null);
+  return (
+    <>
+      <button type="button" onClick={() => setIndex(1)}>
+        Open
+      </button>
+      {index !== null ? (
+        <Lightbox
+          photos={photos}
+          index={index}
+          copy={copy}
+          lang="en"
+          rtl={rtl}
+          onClose={() => setIndex(null)}
+          onPrev={() => {
+            onPrev();
+            setIndex((i) => (i === null ? i : (i - 1 + photos.length) % photos.length));
+          }}
+          onNext={() => {
+            onNext();
+            setIndex((i) => (i === null ? i : (i + 1) % photos.length));
+          }}
+        />
+      ) : null}
+    </>
+  );
+}
+
+async function open(props: Parameters<typeof Harness>[0] = {}) {
+  const user = userEvent.setup();
+  render(<Harness {...props} />);
+  const opener = screen.getByRole("button", { name: "Open" });
+  await user.click(opener);
+  return { user, opener, dialog: screen.getByRole("dialog") };
+}
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("Lightbox keyboard behaviour", () => {
+  it("moves focus into the dialog and wraps Tab and Shift+Tab inside it", async () => {
+    const { user, dialog } = await open();
+    const close = screen.getByRole("button", { name: copy.close });
+    const previous = screen.getByRole("button", { name: copy.previous });
+    const next = screen.getByRole("button", { name: copy.next });
+
+    expect(dialog.contains(document.activeElement)).toBe(true);
+    expect(document.activeElement).toBe(close);
+
+    await user.tab();
+    expect(document.activeElement).toBe(previous);
+    await user.tab();
+    expect(document.activeElement).toBe(next);
+    await user.tab();
+    expect(document.activeElement).toBe(close);
+    await user.tab({ shift: true });
+    expect(document.activeElement).toBe(next);
+  });
+
+  it("closes on Escape and gives focus back to the button that opened it", async () => {
+    const { user, opener } = await open();
+    await user.keyboard("{Escape}");
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(document.activeElement).toBe(opener);
+  });
+
+  it("maps ArrowLeft and ArrowRight to previous and next", async () => {
+    const onPrev = vi.fn();
+    const onNext = vi.fn();
+    const { user } = await open({ onPrev, onNext });
+    await user.keyboard("{ArrowRight}");
+    expect(onNext).toHaveBeenCalledTimes(1);
+    await user.keyboard("{ArrowLeft}");
+    expect(onPrev).toHaveBeenCalledTimes(1);
+  });
+
+  it("swaps the arrow keys in right-to-left layouts", async () => {
+    const onPrev = vi.fn();
+    const onNext = vi.fn();
+    const { user } = await open({ rtl: true, onPrev, onNext });
+    await user.keyboard("{ArrowLeft}");
+    expect(onNext).toHaveBeenCalledTimes(1);
+    expect(onPrev).not.toHaveBeenCalled();
+    await user.keyboard("{ArrowRight}");
+    expect(onPrev).toHaveBeenCalledTimes(1);
+  });
+
+  it("announces the position and title in a live region", async () => {
+    const { user } = await open();
+    const live = screen.getByText("Photo 2 of 3: Pool");
+    expect(live.getAttribute("aria-live")).toBe("polite");
+    await user.keyboard("{ArrowRight}");
+    expect(live.textContent).toBe("Photo 3 of 3: Sunset");
+  });
+});
+
+const still = { tags: [], sources: ["https://example.com/poster.jpg"], aspectRatio: 16 / 9 };
+
+const clip: VideoMedia = {
+  ...still,
+  kind: "video",
+  id: "clip",
+  title: "Bay flight",
+  video: [
+    { src: "/media/clip.webm", type: 'video/webm; codecs="vp9"' },
+    { src: "/media/clip.mp4", type: 'video/mp4; codecs="avc1.4d002a"' },
+  ],
+};
+
+const deck: PanoramaMedia = { ...still, kind: "panorama", id: "deck", title: "Beach deck", panorama: "/media/deck-360.jpg" };
+
+function show(photo: Photo) {
+  render(<Lightbox photos={[photo]} index={0} copy={copy} lang="en" rtl={false} onClose={() => {}} onPrev={() => {}} onNext={() => {}} />);
+}
+
+const poster = (title: string) => screen.getAllByRole("img", { name: title }).find((el) => el.tagName === "IMG");
+
+describe("Lightbox video", () => {
+  it("plays the clip over its poster, offering every source with its type", () => {
+    vi.spyOn(HTMLMediaElement.prototype, "canPlayType").mockReturnValue("probably");
+    show(clip);
+    const video = document.querySelector("video");
+    expect(video?.getAttribute("aria-label")).toBe("Bay flight");
+    expect([...(video?.querySelectorAll("source") ?? [])].map((el) => [el.getAttribute("src"), el.getAttribute("type")])).toEqual(
+      clip.video.map((v) => [v.src, v.type])
+    );
+    expect(poster("Bay flight")).toBeDefined();
+    expect(screen.queryByRole("button", { name: copy.play })).toBeNull();
+
+    if (video) fireEvent.canPlay(video);
+    expect(screen.getByRole("button", { name: copy.play })).toBeDefined();
+  });
+
+  it("shows only the poster when the browser can play none of the sources", () => {
+    vi.spyOn(HTMLMediaElement.prototype, "canPlayType").mockReturnValue("");
+    show(clip);
+    expect(document.querySelector("video")).toBeNull();
+    expect(poster("Bay flight")).toBeDefined();
+  });
+
+  it("falls back to the poster when the last source fails to load", () => {
+    vi.spyOn(HTMLMediaElement.prototype, "canPlayType").mockReturnValue("maybe");
+    show(clip);
+    const sources = document.querySelectorAll("source");
+    fireEvent.error(sources[sources.length - 1]);
+    expect(document.querySelector("video")).toBeNull();
+  });
+});
+
+describe("Lightbox panorama", () => {
+  // jsdom never loads images; this one settles when the test says so.
+  class FakeImage {
+    static last: FakeImage | null = null;
+    onload: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+    naturalWidth = 4096;
+    src = "";
+    constructor() {
+      FakeImage.last = this;
+    }
+  }
+
+  it("shows the poster until the panorama loads, then a draggable view with a hint", () => {
+    vi.stubGlobal("Image", FakeImage);
+    show(deck);
+    expect(FakeImage.last?.src).toBe("/media/deck-360.jpg");
+    expect(poster("Beach deck")).toBeDefined();
+    expect(screen.queryByText(copy.dragToLook)).toBeNull();
+
+    act(() => FakeImage.last?.onload?.());
+    const view = screen.getByRole("img", { name: "Beach deck" });
+    expect(view.tagName).toBe("DIV");
+    expect(view.style.backgroundImage).toBe('url("/media/deck-360.jpg")');
+    expect(screen.getByText(copy.dragToLook)).toBeDefined();
+
+    view.setPointerCapture = () => {};
+    fireEvent.pointerDown(view, { pointerId: 1, clientX: 100 });
+    fireEvent.pointerMove(view, { pointerId: 1, clientX: 40 });
+    fireEvent.pointerUp(view, { pointerId: 1, clientX: 40 });
+    expect(view.style.backgroundPosition).toBe("-60px center");
+  });
+
+  it("keeps the poster for good when the panorama cannot be loaded", () => {
+    vi.stubGlobal("Image", FakeImage);
+    show(deck);
+    act(() => FakeImage.last?.onerror?.());
+    expect(poster("Beach deck")).toBeDefined();
+    expect(screen.queryByText(copy.dragToLook)).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+import { useEffect, useId, useRef } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import { useFocusTrap, useScrollLock } from "../lib/a11y";
+import type { LightboxCopy } from "../locales/schema";
+import PanoramaViewer from "./PanoramaViewer";
+import SmartImage from "./SmartImage";
+import VideoPlayer from "./VideoPlayer";
+import { preloadPhoto } from "./deepLink";
+import type { Photo } from "./types";
+import { useZoomGestures } from "./useZoomGestures";
+
+const SIZES = "(min-width: 1152px) 1152px, 100vw";
+
+export default function Lightbox({
+  photos,
+  index,
+  copy,
+  lang,
+  rtl,
+  onClose,
+  onPrev,
+  onNext,
+}: {
+  photos: Photo[];
+  index: number;
+  copy: LightboxCopy;
+  lang: Lang;
+  rtl: boolean;
+  onClose: () => void;
+  onPrev: () => void;
+  onNext: () => void;
+}) {
+  const p = photos[index];
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const titleId = useId();
+
+  useFocusTrap(dialogRef);
+  useScrollLock();
+  const toLeft = rtl ? onNext : onPrev;
+  const toRight = rtl ? onPrev : onNext;
+
+  const { ref, zoom, dragX, active, reset, handlers } = useZoomGestures({
+    onSwipe: (direction) => (direction === "left" ? toRight : toLeft)(),
+  });
+
+  useEffect(() => {
+    reset();
+  }, [p?.id, reset]);
+
+  useEffect(() => {
+    if (photos.length < 2) return;
+    const cleanups = [
+      preloadPhoto(photos[(index + 1) % photos.length], SIZES),
+      preloadPhoto(photos[(index - 1 + photos.length) % photos.length], SIZES),
+    ];
+    return () => cleanups.forEach((c) => c());
+  }, [photos, index]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowLeft") toLeft();
+      if (e.key === "ArrowRight") toRight();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose, toLeft, toRight]);
+
+  if (!p) return null;
+
+  const position = fill(copy.position, { n: formatNumber(index + 1, lang), total: formatNumber(photos.length, lang) });
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-950/70 p-4"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onMouseDown={(e) => {
+          if (e.target === e.currentTarget) onClose();
+        }}
+      >
+        <motion.div
+          ref={dialogRef}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby={`${titleId}-label ${titleId}`}
+          tabIndex={-1}
+          className="relative w-full max-w-6xl outline-none overflow-hidden rounded-2xl border border-white/10 bg-slate-950 shadow-[0_40px_120px_rgba(0,0,0,0.6)]"
+          initial={{ y: 16, scale: 0.99, opacity: 0 }}
+          animate={{ y: 0, scale: 1, opacity: 1 }}
+          exit={{ y: 10, scale: 0.995, opacity: 0 }}
+          transition={{ type: "spring", stiffness: 220, damping: 26 }}
+        >
+          <div className="flex items-center justify-between gap-3 border-b border-white/10 px-4 py-3">
+            <div className="min-w-0">
+              <span id={`${titleId}-label`} className="sr-only">
+                {copy.dialog}
+              </span>
+              <h2 id={titleId} className="truncate text-sm font-semibold text-white">
+                {p.title}
+              </h2>
+              {p.tag ? <div className="truncate text-xs text-white/70">{p.tag}</div> : null}
+            </div>
+            <button
+              onClick={onClose}
+              className="rounded-xl p-2 text-white/80 hover:bg-white/10 hover:text-white"
+              aria-label={copy.close}
+              type="button"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div
+            ref={ref}
+            {...(p.kind === "panorama" ? {} : handlers)}
+            className={cx("relative touch-none select-none overflow-hidden bg-slate-950", zoom.scale > 1 ? "cursor-grab" : "cursor-default")}
+          >
+            {p.kind === "panorama" ? (
+              <PanoramaViewer key={p.id} media={p} alt={p.title} sizes={SIZES} hint={copy.dragToLook} className="h-[70vh] w-full" />
+            ) : (
+              <div
+                className={cx(!active && "transition-transform duration-200 ease-out motion-reduce:transition-none")}
+                style={{
+                  transform: `translate(${zoom.x + dragX}px, ${zoom.y}px) scale(${zoom.scale})`,
+                  transformOrigin: "center",
+                }}
+              >
+                {p.kind === "video" ? (
+                  <VideoPlayer
+                    key={p.id}
+                    media={p}
+                    alt={p.title}
+                    sizes={SIZES}
+                    labels={{ play: copy.play, pause: copy.pause }}
+                    className="h-[70vh] w-full"
+                  />
+                ) : (
+                  <SmartImage
+                    key={p.id}
+                    priority
+                    alt={p.title}
+                    photo={p}
+                    fit="contain"
+                    sizes={SIZES}
+                    className="pointer-events-none h-[70vh] w-full bg-slate-950"
+                  />
+                )}
+              </div>
+            )}
+
+            <div
+              className={cx(
+                "pointer-events-none absolute inset-x-0 top-1/2 flex -translate-y-1/2 items-center justify-between px-3 transition-opacity",
+                zoom.scale > 1 && "opacity-0"
+              )}
+            >
+              <button
+                onClick={onPrev}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="pointer-events-auto rounded-2xl border border-white/15 bg-white/10 p-3 text-white/90 backdrop-blur hover:bg-white/15"
+                aria-label={copy.previous}
+                type="button"
+              >
+                {rtl ? <ChevronRight className="h-5 w-5" /> : <ChevronLeft className="h-5 w-5" />}
+              </button>
+              <button
+                onClick={onNext}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="pointer-events-auto rounded-2xl border border-white/15 bg-white/10 p-3 text-white/90 backdrop-blur hover:bg-white/15"
+                aria-label={copy.next}
+                type="button"
+              >
+                {rtl ? <ChevronLeft className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
+              </button>
+            </div>
+
+            <div
+              aria-hidden
+              className="pointer-events-none absolute bottom-3 start-3 rounded-full border border-white/15 bg-white/10 px-3 py-1 text-xs text-white/90 backdrop-blur"
+            >
+              {formatNumber(index + 1, lang)} / {formatNumber(photos.length, lang)}
+            </div>
+            <div className="sr-only" aria-live="polite" aria-atomic="true">
+              {position}: {p.title}
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
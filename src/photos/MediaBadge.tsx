@@ -0,0 +1,25 @@
+import { Play, Rotate3d } from "lucide-react";
+import { cx } from "../lib/cx";
+import type { Photo } from "./types";
+
+/** Play icon / 360° marker over a grid poster; images get nothing. */
+export default function MediaBadge({ photo, small }: { photo: Photo; small?: boolean }) {
+  if (photo.kind === "image") return null;
+
+  return (
+    <div aria-hidden className="pointer-events-none absolute inset-0 grid place-items-center">
+      <div
+        className={cx(
+          "grid place-items-center rounded-full border border-white/40 bg-slate-950/45 text-white shadow-lg backdrop-blur",
+          small ? "h-9 w-9" : "h-14 w-14"
+        )}
+      >
+        {photo.kind === "video" ? (
+          <Play className={cx("translate-x-[1px] fill-current", small ? "h-4 w-4" : "h-6 w-6")} />
+        ) : (
+          <Rotate3d className={small ? "h-4 w-4" : "h-6 w-6"} />
+        )}
+      </div>
+    </div>
+  );
+}
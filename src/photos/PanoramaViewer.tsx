@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { Rotate3d } from "lucide-react";
+import { cx } from "../lib/cx";
+import SmartImage from "./SmartImage";
+import type { ImageStatus, PanoramaMedia } from "./types";
+
+/**
+ * Drag-to-look viewer for an equirectangular panorama: the image is scaled to the frame height
+ * and wraps horizontally, so dragging pans around the full 360°. Falls back to the poster while
+ * loading and for good if the panorama cannot be loaded.
+ */
+export default function PanoramaViewer({
+  media,
+  alt,
+  sizes,
+  className,
+  hint,
+}: {
+  media: PanoramaMedia;
+  alt: string;
+  sizes?: string;
+  className?: string;
+  hint: string;
+}) {
+  const [status, setStatus] = useState<ImageStatus>("loading");
+  const [offset, setOffset] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const drag = useRef<{ id: number; x: number; origin: number } | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setStatus(img.naturalWidth > 0 ? "loaded" : "failed");
+    img.onerror = () => setStatus("failed");
+    img.src = media.panorama;
+    return () => {
+      img.onload = null;
+      img.onerror = null;
+    };
+  }, [media.panorama]);
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { id: e.pointerId, x: e.clientX, origin: offset };
+    setDragging(true);
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const d = drag.current;
+    if (!d || d.id !== e.pointerId) return;
+    setOffset(d.origin + e.clientX - d.x);
+  };
+
+  const onPointerEnd = (e: PointerEvent<HTMLDivElement>) => {
+    if (drag.current?.id !== e.pointerId) return;
+    drag.current = null;
+    setDragging(false);
+  };
+
+  if (status !== "loaded") {
+    return (
+      <div className={cx("relative", className)}>
+        <SmartImage priority alt={alt} photo={media} fit="contain" sizes={sizes} className="pointer-events-none h-full w-full bg-slate-950" />
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="img"
+      aria-label={alt}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerEnd}
+      onPointerCancel={onPointerEnd}
+      className={cx(
+        "relative touch-none select-none bg-slate-950",
+        dragging ? "cursor-grabbing" : "cursor-grab",
+        className
+      )}
+      style={{
+        backgroundImage: `url("${media.panorama}")`,
+        backgroundRepeat: "repeat-x",
+        backgroundSize: "auto 100%",
+        backgroundPosition: `${offset}px center`,
+      }}
+    >
+      <div className="pointer-events-none absolute inset-x-0 top-3 flex justify-center">
+        <div className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/10 px-3 py-1 text-xs text-white/90 backdrop-blur">
+          <Rotate3d className="h-4 w-4" />
+          {hint}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { cx } from "../lib/cx";
+import { useThemeTokens } from "../theme/theme";
+import { svgPlaceholderDataUri } from "./placeholder";
+import type { ImageStatus, Photo } from "./types";
+
+function srcSet(list: Array<[string, number]>) {
+  return list.map(([url, w]) => `${url} ${w}w`).join(", ");
+}
+
+export default function SmartImage({
+  photo,
+  alt,
+  className,
+  fit = "cover",
+  sizes = "100vw",
+  priority,
+  onStatusChange,
+}: {
+  photo?: Pick<Photo, "sources" | "srcSet" | "local" | "aspectRatio" | "placeholder">;
+  alt: string;
+  className?: string;
+  fit?: "cover" | "contain";
+  sizes?: string;
+  priority?: boolean;
+  onStatusChange?: (status: ImageStatus) => void;
+}) {
+  const sources = photo?.sources ?? [];
+  const local = photo?.local;
+  const theme = useThemeTokens();
+  const [i, setI] = useState(local ? -1 : 0);
+  const [status, setStatus] = useState<ImageStatus>(sources.length || local ? "loading" : "failed");
+
+  useEffect(() => {
+    onStatusChange?.(status);
+  }, [status, onStatusChange]);
+
+  const fail = () => {
+    if (i + 1 < sources.length) setI(i + 1);
+    else setStatus("failed");
+  };
+
+  const imgClass = cx(
+    "absolute inset-0 h-full w-full transition-opacity duration-500 motion-reduce:transition-none",
+    fit === "cover" ? "object-cover" : "object-contain",
+    status === "loading" && "opacity-0"
+  );
+  const shared = {
+    alt,
+    className: imgClass,
+    loading: priority ? ("eager" as const) : ("lazy" as const),
+    fetchPriority: priority ? ("high" as const) : undefined,
+    decoding: "async" as const,
+    onLoad: () => setStatus("loaded"),
+    onError: fail,
+  };
+
+  let image: ReactNode;
+  if (status === "failed") {
+    image = <img src={svgPlaceholderDataUri(alt, theme)} alt={alt} className={cx(imgClass, "object-cover")} />;
+  } else if (local && i < 0) {
+    const jpeg = local.variants.jpeg;
+    image = (
+      <picture className="contents">
+        <source type="image/avif" srcSet={srcSet(local.variants.avif)} sizes={sizes} />
+        <source type="image/webp" srcSet={srcSet(local.variants.webp)} sizes={sizes} />
+        <img
+          {...shared}
+          src={jpeg[jpeg.length - 1]?.[0]}
+          srcSet={srcSet(jpeg)}
+          sizes={sizes}
+          width={local.width}
+          height={local.height}
+        />
+      </picture>
+    );
+  } else {
+    const remoteSet = i <= 0 ? photo?.srcSet : undefined;
+    image = (
+      <img
+        {...shared}
+        key={i}
+        src={sources[Math.max(i, 0)]}
+        srcSet={remoteSet}
+        sizes={remoteSet ? sizes : undefined}
+        referrerPolicy="no-referrer"
+      />
+    );
+  }
+
+  return (
+    <div
+      className={cx("relative overflow-hidden", className)}
+      style={{ aspectRatio: photo?.aspectRatio, contentVisibility: "auto" }}
+      data-status={status}
+    >
+      {status !== "loaded" && status !== "failed" ? (
+        photo?.placeholder ? (
+          <img
+            src={photo.placeholder}
+            alt=""
+            aria-hidden
+            className={cx("absolute inset-0 h-full w-full scale-110 blur-xl", fit === "cover" ? "object-cover" : "object-contain")}
+          />
+        ) : (
+          <div
+            aria-hidden
+            className="absolute inset-0 animate-pulse motion-reduce:animate-none"
+            style={{ background: `linear-gradient(135deg, ${theme.page}, ${theme.gradient[0]}, ${theme.gradient[1]})` }}
+          />
+        )
+      ) : null}
+      {image}
+    </div>
+  );
+}
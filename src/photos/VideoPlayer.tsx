@@ -0,0 +1,93 @@
+import { useRef, useState } from "react";
+import { Pause, Play } from "lucide-react";
+import { cx } from "../lib/cx";
+import { prefersReducedMotion } from "../lib/a11y";
+import SmartImage from "./SmartImage";
+import type { VideoMedia, VideoSource } from "./types";
+
+function canPlayAny(sources: VideoSource[]) {
+  if (typeof document === "undefined") return false;
+  const probe = document.createElement("video");
+  return sources.some((s) => probe.canPlayType(s.type) !== "");
+}
+
+/**
+ * Muted, looping clip over its poster. The poster stays visible until the clip can play and
+ * takes over again if no source is playable, so a missing file degrades to a still.
+ */
+export default function VideoPlayer({
+  media,
+  alt,
+  sizes,
+  className,
+  labels,
+}: {
+  media: VideoMedia;
+  alt: string;
+  sizes?: string;
+  className?: string;
+  labels: { play: string; pause: string };
+}) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [playable] = useState(() => canPlayAny(media.video));
+  const [failed, setFailed] = useState(false);
+  const [ready, setReady] = useState(false);
+  const [playing, setPlaying] = useState(false);
+
+  const toggle = () => {
+    const v = videoRef.current;
+    if (!v) return;
+    if (v.paused) v.play().catch(() => setFailed(true));
+    else v.pause();
+  };
+
+  const showVideo = playable && !failed;
+
+  return (
+    <div className={cx("relative", className)}>
+      <SmartImage priority alt={alt} photo={media} fit="contain" sizes={sizes} className="pointer-events-none h-full w-full bg-slate-950" />
+
+      {showVideo ? (
+        <>
+          <video
+            ref={videoRef}
+            autoPlay={!prefersReducedMotion()}
+            muted
+            loop
+            playsInline
+            preload="auto"
+            aria-label={alt}
+            onCanPlay={() => setReady(true)}
+            onPlay={() => setPlaying(true)}
+            onPause={() => setPlaying(false)}
+            className={cx(
+              "pointer-events-none absolute inset-0 h-full w-full object-contain transition-opacity duration-500 motion-reduce:transition-none",
+              !ready && "opacity-0"
+            )}
+          >
+            {media.video.map((s, i) => (
+              <source
+                key={s.src}
+                src={s.src}
+                type={s.type}
+                onError={i === media.video.length - 1 ? () => setFailed(true) : undefined}
+              />
+            ))}
+          </video>
+
+          {ready ? (
+            <button
+              type="button"
+              onClick={toggle}
+              onPointerDown={(e) => e.stopPropagation()}
+              aria-label={playing ? labels.pause : labels.play}
+              className="absolute bottom-3 end-3 rounded-2xl border border-white/15 bg-white/10 p-3 text-white/90 backdrop-blur hover:bg-white/15"
+            >
+              {playing ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+            </button>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
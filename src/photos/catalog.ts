@@ -0,0 +1,64 @@
+import { LOCAL_IMAGES } from "virtual:local-images";
+import { EVENT } from "../event";
+import type { Lang } from "../i18n";
+import { LOCALES } from "../locales";
+import { parseTags } from "./filters";
+import { expandSources, photoKeyFromUrl, remoteSrcSet } from "./remote";
+import type { Photo, VideoSource } from "./types";
+
+export type ImageMode = "local" | "remote";
+
+export const IMAGE_MODE: ImageMode = import.meta.env.VITE_IMAGE_MODE === "remote" ? "remote" : "local";
+
+export const DEFAULT_ASPECT_RATIO = 16 / 9;
+
+export type CatalogMedia = { kind: "video"; video: VideoSource[] } | { kind: "panorama"; panorama: string };
+
+export type CatalogEntry = {
+  id: string;
+  title: Record<Lang, string>;
+  /** English tag words separated by "•"; parsed into gallery filter facets. */
+  tag?: string;
+  /**
+   * Still image; for video and panorama entries this is the poster. May be left out when
+   * `images/manifest.json` lists a local original for the id (the entry is then hidden in remote mode).
+   */
+  remote?: string;
+  media?: CatalogMedia;
+  aspectRatio?: number;
+  placeholder?: string;
+};
+
+function mediaUrl(p: Photo) {
+  if (p.kind === "video") return p.video[0]?.src;
+  if (p.kind === "panorama") return p.panorama;
+  return p.sources[0];
+}
+
+export function buildPhotos(lang: Lang = "en", entries: CatalogEntry[] = EVENT.photos, mode: ImageMode = IMAGE_MODE): Photo[] {
+  const labels = LOCALES[lang].galleryFilters.tags;
+  const seen = new Set<string>();
+  const out: Photo[] = [];
+  for (const e of entries) {
+    const local = mode === "local" ? LOCAL_IMAGES[e.id] : undefined;
+    if (!local && !e.remote) continue;
+    const tags = parseTags(e.tag);
+    const still = {
+      id: e.id,
+      title: e.title[lang],
+      tag: tags.length > 0 ? tags.map((t) => labels[t]).join(" • ") : undefined,
+      tags,
+      sources: e.remote ? expandSources(e.remote) : [],
+      srcSet: e.remote ? remoteSrcSet(e.remote) : undefined,
+      aspectRatio: local ? local.width / local.height : (e.aspectRatio ?? DEFAULT_ASPECT_RATIO),
+      placeholder: local?.placeholder ?? e.placeholder,
+      local,
+    };
+    const p: Photo = e.media ? { ...still, ...e.media } : { ...still, kind: "image" };
+    const key = photoKeyFromUrl(mediaUrl(p) ?? p.id);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(p);
+  }
+  return out;
+}
@@ -0,0 +1,37 @@
+import type { Photo } from "./types";
+
+const PREFIX = "#gallery/";
+
+export function galleryHash(id: string) {
+  return `${PREFIX}${encodeURIComponent(id)}`;
+}
+
+export function photoIdFromHash(hash: string) {
+  return hash.startsWith(PREFIX) ? decodeURIComponent(hash.slice(PREFIX.length)) || null : null;
+}
+
+export function photoIndexFromLocation(photos: Photo[]) {
+  if (typeof window === "undefined") return null;
+  const id = photoIdFromHash(window.location.hash);
+  const i = id ? photos.findIndex((p) => p.id === id) : -1;
+  return i >= 0 ? i : null;
+}
+
+export function preloadPhoto(photo: Photo | undefined, sizes = "100vw") {
+  if (!photo || typeof document === "undefined") return () => {};
+  const link = document.createElement("link");
+  link.rel = "preload";
+  link.as = "image";
+  if (photo.local) {
+    link.type = "image/avif";
+    link.imageSizes = sizes;
+    link.imageSrcset = photo.local.variants.avif.map(([url, w]) => `${url} ${w}w`).join(", ");
+  } else if (photo.sources[0]) {
+    link.href = photo.sources[0];
+    link.referrerPolicy = "no-referrer";
+  } else {
+    return () => {};
+  }
+  document.head.appendChild(link);
+  return () => link.remove();
+}
@@ -0,0 +1,81 @@
+import type { Photo } from "./types";
+
+export const PHOTO_TAGS = [
+  "beach",
+  "pool",
+  "dining",
+  "wellness",
+  "aerial",
+  "sunset",
+  "resort",
+  "beach-club",
+  "bay",
+  "panorama",
+  "deck",
+  "cabanas",
+] as const;
+
+export type PhotoTag = (typeof PHOTO_TAGS)[number];
+
+export type GalleryFilter = {
+  tags: PhotoTag[];
+  query: string;
+};
+
+export const NO_FILTER: GalleryFilter = { tags: [], query: "" };
+
+export function isPhotoTag(value: string): value is PhotoTag {
+  return (PHOTO_TAGS as readonly string[]).includes(value);
+}
+
+/** "Aerial • Bay" → ["aerial", "bay"]; words outside PHOTO_TAGS are dropped. */
+export function parseTags(tag: string | undefined): PhotoTag[] {
+  if (!tag) return [];
+  const out: PhotoTag[] = [];
+  for (const part of tag.split("•")) {
+    const slug = part.trim().toLowerCase().replace(/\s+/g, "-");
+    if (isPhotoTag(slug) && !out.includes(slug)) out.push(slug);
+  }
+  return out;
+}
+
+export function isFiltered(filter: GalleryFilter) {
+  return filter.tags.length > 0 || filter.query.trim() !== "";
+}
+
+/** Tags combine with OR (any selected chip matches); the search text narrows further. */
+export function filterPhotos(photos: Photo[], filter: GalleryFilter) {
+  const needle = filter.query.trim().toLocaleLowerCase();
+  return photos.filter((p) => {
+    if (filter.tags.length > 0 && !filter.tags.some((t) => p.tags.includes(t))) return false;
+    if (!needle) return true;
+    return `${p.title} ${p.tag ?? ""}`.toLocaleLowerCase().includes(needle);
+  });
+}
+
+export function tagCounts(photos: Photo[]) {
+  const counts = new Map<PhotoTag, number>();
+  for (const p of photos) for (const t of p.tags) counts.set(t, (counts.get(t) ?? 0) + 1);
+  return PHOTO_TAGS.filter((t) => counts.has(t)).map((t) => [t, counts.get(t) ?? 0] as const);
+}
+
+export function toggleTag(filter: GalleryFilter, tag: PhotoTag): GalleryFilter {
+  const tags = filter.tags.includes(tag) ? filter.tags.filter((t) => t !== tag) : [...filter.tags, tag];
+  return { ...filter, tags: PHOTO_TAGS.filter((t) => tags.includes(t)) };
+}
+
+export function filterFromLocation(): GalleryFilter {
+  if (typeof window === "undefined") return NO_FILTER;
+  const params = new URLSearchParams(window.location.search);
+  const tags = (params.get("tags") ?? "").split(",").filter(isPhotoTag);
+  return { tags: PHOTO_TAGS.filter((t) => tags.includes(t)), query: params.get("q") ?? "" };
+}
+
+export function writeFilterToLocation(filter: GalleryFilter) {
+  const url = new URL(window.location.href);
+  if (filter.tags.length > 0) url.searchParams.set("tags", filter.tags.join(","));
+  else url.searchParams.delete("tags");
+  if (filter.query.trim()) url.searchParams.set("q", filter.query);
+  else url.searchParams.delete("q");
+  window.history.replaceState(null, "", url);
+}
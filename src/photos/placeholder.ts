@@ -0,0 +1,30 @@
+import { EVENT } from "../event";
+import type { ThemeTokens } from "../theme/tokens";
+
+export function svgPlaceholderDataUri(label: string, theme: ThemeTokens = EVENT.theme.day) {
+  const safe = label.replace(/&/g, "and").slice(0, 44);
+  const heading = EVENT.venue.name.replace(/&/g, "and").replace(/</g, "");
+  const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="1600" height="900" viewBox="0 0 1600 900">
+  <defs>
+    <linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="${theme.page}"/>
+      <stop offset="0.48" stop-color="${theme.gradient[0]}"/>
+      <stop offset="1" stop-color="${theme.gradient[1]}"/>
+    </linearGradient>
+    <filter id="grain">
+      <feTurbulence type="fractalNoise" baseFrequency="0.85" numOctaves="3" stitchTiles="stitch"/>
+      <feColorMatrix type="saturate" values="0"/>
+      <feComponentTransfer><feFuncA type="table" tableValues="0 0.14"/></feComponentTransfer>
+    </filter>
+  </defs>
+  <rect width="1600" height="900" fill="url(#g)"/>
+  <rect width="1600" height="900" filter="url(#grain)" opacity="0.32"/>
+  <circle cx="1240" cy="260" r="240" fill="${theme.sun}" opacity="0.72"/>
+  <circle cx="1320" cy="230" r="170" fill="${theme.blush}" opacity="0.34"/>
+  <path d="M0 640 C 280 580, 520 740, 820 670 C 1080 610, 1320 730, 1600 650 L1600 900 L0 900 Z" fill="${theme.accent}" opacity="0.13"/>
+  <text x="80" y="120" font-family="ui-sans-serif, system-ui" font-size="44" fill="${theme.ink}" opacity="0.74">${heading}</text>
+  <text x="80" y="172" font-family="ui-sans-serif, system-ui" font-size="26" fill="${theme.ink}" opacity="0.55">${safe}</text>
+</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
@@ -0,0 +1,58 @@
+export const REMOTE_WIDTHS = [900, 1100, 1400, 1800, 2200];
+
+export function smartUrlSizing(url: string, wid: number) {
+  try {
+    const u = new URL(url);
+    if (!u.hostname.includes("cache.marriott.com")) return url;
+
+    if (u.pathname.includes("/is/image/")) {
+      u.searchParams.set("wid", String(wid));
+      u.searchParams.set("fit", "constrain");
+      return u.toString();
+    }
+
+    if (u.pathname.includes("/content/dam/marriott-renditions/")) {
+      u.searchParams.set("downsize", `${wid}px:*`);
+      u.searchParams.set("output-quality", "86");
+      u.searchParams.set("interpolation", "progressive-bilinear");
+      return u.toString();
+    }
+
+    return url;
+  } catch {
+    return url;
+  }
+}
+
+export function expandSources(primary: string) {
+  const s = new Set<string>();
+  const push = (u: string) => u && s.add(u);
+  for (const w of [...REMOTE_WIDTHS].reverse()) push(smartUrlSizing(primary, w));
+  push(primary);
+  return Array.from(s);
+}
+
+export function remoteSrcSet(primary: string) {
+  const sized = REMOTE_WIDTHS.map((w) => [smartUrlSizing(primary, w), w] as const);
+  if (sized.every(([u]) => u === primary)) return undefined;
+  return sized.map(([u, w]) => `${u} ${w}w`).join(", ");
+}
+
+export function photoKeyFromUrl(url: string) {
+  try {
+    const u = new URL(url);
+    const path = decodeURIComponent(u.pathname).toLowerCase();
+    if (path.includes("/is/image/")) {
+      const file = path.split("/is/image/")[1] ?? path;
+      const tail = file.split("/").pop() ?? file;
+      return tail.split(":")[0].split("?")[0];
+    }
+    if (path.includes("/content/dam/")) {
+      const tail = path.split("/").pop() ?? path;
+      return tail.split("?")[0];
+    }
+    return `${u.hostname}${path}`;
+  } catch {
+    return url.split("?")[0].toLowerCase();
+  }
+}
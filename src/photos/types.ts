@@ -0,0 +1,45 @@
+import type { PhotoTag } from "./filters";
+
+export type ImageFormat = "avif" | "webp" | "jpeg";
+
+export type LocalImage = {
+  width: number;
+  height: number;
+  placeholder: string;
+  variants: Record<ImageFormat, Array<[url: string, width: number]>>;
+};
+
+export type MediaKind = "image" | "video" | "panorama";
+
+export type VideoSource = {
+  src: string;
+  /** MIME type with codecs where known, e.g. `video/mp4; codecs="avc1.4d002a"`. */
+  type: string;
+};
+
+// Every kind carries a still (`sources` / `local`): the grid always shows it, and the
+// Lightbox falls back to it whenever the richer media cannot be played.
+type MediaBase = {
+  id: string;
+  title: string;
+  /** Localized display text for `tags`, e.g. "Beach • Cabanas". */
+  tag?: string;
+  tags: PhotoTag[];
+  sources: string[];
+  /** Width descriptors for the CDN-resized `sources`; only the first attempt uses it. */
+  srcSet?: string;
+  aspectRatio: number;
+  placeholder?: string;
+  local?: LocalImage;
+};
+
+export type ImageMedia = MediaBase & { kind: "image" };
+
+export type VideoMedia = MediaBase & { kind: "video"; video: VideoSource[] };
+
+/** `panorama` is an equirectangular (2:1) image that wraps horizontally. */
+export type PanoramaMedia = MediaBase & { kind: "panorama"; panorama: string };
+
+export type Photo = ImageMedia | VideoMedia | PanoramaMedia;
+
+export type ImageStatus = "loading" | "loaded" | "failed";
@@ -0,0 +1,156 @@
+import { useCallback, useRef, useState, type PointerEvent } from "react";
+
+type Point = { x: number; y: number };
+
+export type ZoomState = { scale: number; x: number; y: number };
+
+type Gesture =
+  | { kind: "swipe"; start: Point; at: number }
+  | { kind: "pan"; start: Point; origin: ZoomState }
+  | { kind: "pinch"; dist: number; mid: Point; origin: ZoomState };
+
+const IDENTITY: ZoomState = { scale: 1, x: 0, y: 0 };
+export const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+const SWIPE_MIN_PX = 60;
+const TAP_SLOP_PX = 10;
+
+const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+
+export function clampZoom(z: ZoomState, width: number, height: number): ZoomState {
+  const scale = clamp(z.scale, 1, MAX_SCALE);
+  const maxX = (width * (scale - 1)) / 2;
+  const maxY = (height * (scale - 1)) / 2;
+  return { scale, x: clamp(z.x, -maxX, maxX), y: clamp(z.y, -maxY, maxY) };
+}
+
+export function zoomAround(origin: ZoomState, from: Point, to: Point, scale: number): ZoomState {
+  const k = scale / origin.scale;
+  return { scale, x: to.x - (from.x - origin.x) * k, y: to.y - (from.y - origin.y) * k };
+}
+
+export function useZoomGestures({ onSwipe }: { onSwipe: (direction: "left" | "right") => void }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const pointers = useRef(new Map<number, Point>());
+  const gesture = useRef<Gesture | null>(null);
+  const lastTap = useRef<{ at: number; p: Point } | null>(null);
+  const [zoom, setZoom] = useState<ZoomState>(IDENTITY);
+  const [dragX, setDragX] = useState(0);
+  const [active, setActive] = useState(false);
+
+  const local = useCallback((p: Point): Point => {
+    const r = ref.current?.getBoundingClientRect();
+    return r ? { x: p.x - (r.left + r.width / 2), y: p.y - (r.top + r.height / 2) } : p;
+  }, []);
+
+  const fit = useCallback((z: ZoomState) => {
+    const r = ref.current?.getBoundingClientRect();
+    return r ? clampZoom(z, r.width, r.height) : z;
+  }, []);
+
+  const begin = (z: ZoomState) => {
+    const list = [...pointers.current.values()];
+    if (list.length >= 2) {
+      const [a, b] = list;
+      gesture.current = {
+        kind: "pinch",
+        dist: Math.hypot(a.x - b.x, a.y - b.y),
+        mid: local({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }),
+        origin: z,
+      };
+    } else if (list.length === 1) {
+      gesture.current = z.scale > 1 ? { kind: "pan", start: list[0], origin: z } : { kind: "swipe", start: list[0], at: Date.now() };
+    } else {
+      gesture.current = null;
+    }
+    setActive(gesture.current !== null);
+  };
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    setDragX(0);
+    begin(zoom);
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const g = gesture.current;
+    if (!g) return;
+
+    if (g.kind === "pinch") {
+      const [a, b] = [...pointers.current.values()];
+      if (!a || !b) return;
+      const scale = clamp((g.origin.scale * Math.hypot(a.x - b.x, a.y - b.y)) / (g.dist || 1), 1, MAX_SCALE);
+      setZoom(fit(zoomAround(g.origin, g.mid, local({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }), scale)));
+    } else if (g.kind === "pan") {
+      setZoom(fit({ ...g.origin, x: g.origin.x + e.clientX - g.start.x, y: g.origin.y + e.clientY - g.start.y }));
+    } else {
+      setDragX(e.clientX - g.start.x);
+    }
+  };
+
+  const end = (e: PointerEvent<HTMLDivElement>, cancelled: boolean) => {
+    if (!pointers.current.delete(e.pointerId)) return;
+    const g = gesture.current;
+
+    if (g?.kind === "swipe" && !cancelled) {
+      const dx = e.clientX - g.start.x;
+      const dy = e.clientY - g.start.y;
+      if (Math.abs(dx) >= SWIPE_MIN_PX && Math.abs(dx) > Math.abs(dy)) {
+        onSwipe(dx < 0 ? "left" : "right");
+      } else if (Math.hypot(dx, dy) < TAP_SLOP_PX && Date.now() - g.at < DOUBLE_TAP_MS) {
+        const p = { x: e.clientX, y: e.clientY };
+        const prev = lastTap.current;
+        if (prev && Date.now() - prev.at < DOUBLE_TAP_MS && Math.hypot(prev.p.x - p.x, prev.p.y - p.y) < TAP_SLOP_PX * 3) {
+          lastTap.current = null;
+          const at = local(p);
+          setZoom(fit(zoomAround(IDENTITY, at, at, DOUBLE_TAP_SCALE)));
+          gesture.current = null;
+          setActive(false);
+          setDragX(0);
+          return;
+        }
+        lastTap.current = { at: Date.now(), p };
+      }
+    } else if (g && !cancelled && pointers.current.size === 0) {
+      const p = { x: e.clientX, y: e.clientY };
+      const prev = lastTap.current;
+      const moved = g.kind === "pan" ? Math.hypot(p.x - g.start.x, p.y - g.start.y) : Infinity;
+      if (moved < TAP_SLOP_PX && prev && Date.now() - prev.at < DOUBLE_TAP_MS) {
+        lastTap.current = null;
+        setZoom(IDENTITY);
+      } else if (moved < TAP_SLOP_PX) {
+        lastTap.current = { at: Date.now(), p };
+      }
+    }
+
+    setDragX(0);
+    begin(zoom);
+  };
+
+  const reset = useCallback(() => {
+    pointers.current.clear();
+    gesture.current = null;
+    lastTap.current = null;
+    setZoom(IDENTITY);
+    setDragX(0);
+    setActive(false);
+  }, []);
+
+  return {
+    ref,
+    zoom,
+    dragX,
+    active,
+    reset,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp: (e: PointerEvent<HTMLDivElement>) => end(e, false),
+      onPointerCancel: (e: PointerEvent<HTMLDivElement>) => end(e, true),
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { WifiOff } from "lucide-react";
+import { cx } from "../lib/cx";
+import type { CardCopy, WeekendCopy } from "../locales/schema";
+import InfoCard from "../cards/InfoCard";
+
+/** What guests need on the beach without signal, shown where photos would otherwise fail to load. */
+export default function OfflinePanel({
+  message,
+  weekend,
+  travel,
+  rtl,
+}: {
+  message: string;
+  weekend: WeekendCopy[];
+  travel: CardCopy[];
+  rtl: boolean;
+}) {
+  return (
+    <div className={cx("rounded-3xl border border-ink/10 bg-surface/60 p-5 shadow-sm", rtl && "text-right")}>
+      <div className="flex items-center gap-2 text-sm font-semibold text-muted">
+        <WifiOff className="h-4 w-4" />
+        {message}
+      </div>
+      <div className="mt-4 grid grid-cols-1 gap-3 lg:grid-cols-3">
+        {weekend.map((c) => (
+          <InfoCard key={c.event} icon="sparkles" title={c.title} text={c.text} />
+        ))}
+        {travel.map((c, idx) => (
+          <InfoCard key={idx} icon={c.icon} title={c.title} text={c.text} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { AnimatePresence, motion } from "framer-motion";
+import { RefreshCw } from "lucide-react";
+import { cx } from "../lib/cx";
+import type { PwaCopy } from "../locales/schema";
+import { applyUpdate, dismissUpdate, useUpdateAvailable } from "./serviceWorker";
+
+export default function UpdatePrompt({ copy, rtl }: { copy: PwaCopy; rtl: boolean }) {
+  const available = useUpdateAvailable();
+
+  return (
+    <AnimatePresence>
+      {available ? (
+        <motion.div
+          role="status"
+          initial={{ opacity: 0, y: 16 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 16 }}
+          className="fixed inset-x-0 bottom-4 z-50 flex justify-center px-4"
+        >
+          <div
+            className={cx(
+              "flex max-w-md flex-wrap items-center gap-3 rounded-3xl border border-ink/10 bg-surface/95 px-4 py-3 shadow-lg backdrop-blur",
+              rtl && "text-right"
+            )}
+          >
+            <RefreshCw className="h-4 w-4 shrink-0 text-accent-ink" />
+            <div className="min-w-0 flex-1 text-sm font-medium">{copy.update}</div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={applyUpdate}
+                className="rounded-xl bg-ink px-3 py-1.5 text-xs font-semibold text-on-ink shadow hover:bg-ink/85"
+              >
+                {copy.refresh}
+              </button>
+              <button type="button" onClick={dismissUpdate} className="rounded-xl px-3 py-1.5 text-xs font-semibold text-muted hover:bg-ink/5">
+                {copy.later}
+              </button>
+            </div>
+          </div>
+        </motion.div>
+      ) : null}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,59 @@
+import { useSyncExternalStore } from "react";
+
+type Listener = () => void;
+
+let waiting: ServiceWorker | null = null;
+const listeners = new Set<Listener>();
+
+function setWaiting(worker: ServiceWorker | null) {
+  waiting = worker;
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: Listener) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** Production only: the dev server has no `sw.js`, and a stale worker would fight HMR. */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", async () => {
+    const base = import.meta.env.BASE_URL;
+    const reg = await navigator.serviceWorker.register(`${base}sw.js`, { scope: base }).catch(() => null);
+    if (!reg) return;
+
+    // A worker installed while a controller exists is an update; on a first visit there is nothing to replace.
+    const track = (worker: ServiceWorker | null) => {
+      worker?.addEventListener("statechange", () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller) setWaiting(worker);
+      });
+    };
+    if (reg.waiting && navigator.serviceWorker.controller) setWaiting(reg.waiting);
+    track(reg.installing);
+    reg.addEventListener("updatefound", () => track(reg.installing));
+
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "visible") void reg.update().catch(() => undefined);
+    });
+  });
+}
+
+export function applyUpdate() {
+  if (!waiting) return;
+  navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: "SKIP_WAITING" });
+}
+
+export function dismissUpdate() {
+  setWaiting(null);
+}
+
+export function useUpdateAvailable() {
+  return useSyncExternalStore(
+    subscribe,
+    () => waiting !== null,
+    () => false
+  );
+}
@@ -0,0 +1,235 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { BedDouble, Pencil } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { RoomsCopy } from "../locales/schema";
+import { MAX_ROOM_NOTE_LENGTH, type RoomAdapter, type RoomError, type RoomPlan, type RoomRequest, type RoomType } from "./types";
+import { normalizeRoomRequest, validateRoomRequest } from "./validate";
+import { roomFor } from "./rooming";
+
+type Mode = "loading" | "form" | "saved";
+
+const EMPTY: RoomRequest = { roomType: null, shareWith: [], note: "" };
+
+export default function RoomForm({
+  adapter,
+  storageKey,
+  roomTypes,
+  parties,
+  copy,
+  lang,
+  rtl,
+}: {
+  adapter: RoomAdapter;
+  storageKey: string;
+  roomTypes: RoomType[];
+  /** Every other invitation, which a guest may ask to share with. */
+  parties: { key: string; name: string }[];
+  copy: RoomsCopy;
+  lang: Lang;
+  rtl: boolean;
+}) {
+  const [mode, setMode] = useState<Mode>("loading");
+  const [saved, setSaved] = useState<RoomRequest | null>(null);
+  const [plan, setPlan] = useState<RoomPlan | null>(null);
+  const [draft, setDraft] = useState<RoomRequest>(EMPTY);
+  const [errors, setErrors] = useState<RoomError[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    Promise.all([adapter.load(storageKey).catch(() => null), adapter.loadRooms().catch(() => null)]).then(([r, rooms]) => {
+      if (!live) return;
+      setSaved(r);
+      setPlan(rooms);
+      setDraft(r ?? EMPTY);
+      setMode(r ? "saved" : "form");
+    });
+    return () => {
+      live = false;
+    };
+  }, [adapter, storageKey]);
+
+  const update = (patch: Partial<RoomRequest>) => {
+    setDraft((d) => ({ ...d, ...patch }));
+    setErrors([]);
+  };
+
+  const toggleShare = (key: string) =>
+    update({ shareWith: draft.shareWith.includes(key) ? draft.shareWith.filter((k) => k !== key) : [...draft.shareWith, key] });
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    const found = validateRoomRequest(draft, parties.map((p) => p.key));
+    setErrors(found);
+    if (found.length) return;
+
+    setSubmitting(true);
+    setFailed(false);
+    try {
+      const r = await adapter.submit(storageKey, normalizeRoomRequest(draft));
+      setSaved(r);
+      setDraft(r);
+      setMode("saved");
+    } catch {
+      setFailed(true);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const card = cx("rounded-3xl border border-ink/10 bg-surface/65 p-5 shadow-sm sm:p-6", rtl && "text-right");
+  const input =
+    "w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent";
+  const choice = (on: boolean) =>
+    cx(
+      "rounded-2xl border px-4 py-2 text-sm font-semibold shadow-sm",
+      on ? "border-ink bg-ink text-on-ink" : "border-ink/10 bg-surface/70 text-ink hover:bg-surface"
+    );
+  const errorText = (k: RoomError) =>
+    errors.includes(k) ? <div className="mt-1 text-xs font-medium text-rose-600">{copy.errors[k]}</div> : null;
+  const typeName = (id: string | null) => roomTypes.find((t) => t.id === id)?.name[lang] ?? copy.noPreference;
+  const partyName = (key: string) => parties.find((p) => p.key === key)?.name ?? key;
+
+  const assignment = () => {
+    const room = plan ? roomFor(plan, storageKey) : null;
+    if (!room) return <div className="text-sm text-muted">{copy.pending}</div>;
+    const others = room.keys.filter((k) => k !== storageKey).map(partyName);
+    return (
+      <div className="text-sm">
+        <div className="font-semibold">{fill(copy.assigned, { type: typeName(room.type), n: formatNumber(room.number, lang) })}</div>
+        <div className="mt-0.5 text-muted">{others.length ? fill(copy.roommates, { names: others.join(", ") }) : copy.ownRoom}</div>
+      </div>
+    );
+  };
+
+  if (mode === "loading") {
+    return <div className={cx(card, "text-sm text-muted")}>{copy.loading}</div>;
+  }
+
+  if (mode === "saved" && saved) {
+    return (
+      <div className={card}>
+        <div className="flex items-start gap-3">
+          <div className="grid h-10 w-10 shrink-0 place-items-center rounded-2xl bg-gradient-to-br from-accent to-highlight text-on-ink shadow-sm">
+            <BedDouble className="h-5 w-5" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="text-lg font-semibold">{copy.saved}</div>
+            <div className="mt-1 text-sm text-muted">
+              {copy.requested}: {typeName(saved.roomType)}
+              {saved.shareWith.length ? ` · ${fill(copy.roommates, { names: saved.shareWith.map(partyName).join(", ") })}` : null}
+            </div>
+            {saved.note ? <div className="mt-2 whitespace-pre-wrap text-sm text-muted">{saved.note}</div> : null}
+          </div>
+        </div>
+
+        <div className="mt-5 rounded-2xl border border-accent/20 bg-accent/10 p-4">
+          <div className="flex items-center gap-2 text-sm font-semibold text-accent-ink">
+            <BedDouble className="h-4 w-4" />
+            {copy.title}
+          </div>
+          <div className="mt-2">{assignment()}</div>
+        </div>
+
+        <div className={cx("mt-4 flex", rtl && "justify-end")}>
+          <button type="button" onClick={() => setMode("form")} className={choice(false)}>
+            <Pencil className="me-2 inline h-4 w-4" />
+            {copy.edit}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} noValidate className={cx(card, "space-y-5")}>
+      <div>
+        <div className="text-lg font-semibold">{copy.title}</div>
+        <p className="mt-1 text-sm text-muted">{copy.intro}</p>
+      </div>
+
+      <fieldset>
+        <legend className="text-sm font-semibold">{copy.roomType}</legend>
+        <div className={cx("mt-2 flex flex-wrap gap-2", rtl && "justify-end")}>
+          <button type="button" aria-pressed={draft.roomType === null} onClick={() => update({ roomType: null })} className={choice(draft.roomType === null)}>
+            {copy.noPreference}
+          </button>
+          {roomTypes.map((t) => (
+            <button
+              key={t.id}
+              type="button"
+              aria-pressed={draft.roomType === t.id}
+              onClick={() => update({ roomType: t.id })}
+              className={choice(draft.roomType === t.id)}
+            >
+              {t.name[lang]}
+              <span className="ms-2 text-xs font-normal opacity-75">{fill(copy.sleeps, { beds: formatNumber(t.beds, lang) })}</span>
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      {parties.length ? (
+        <fieldset>
+          <legend className="text-sm font-semibold">{copy.shareWith}</legend>
+          <p className="mt-1 text-xs text-muted">{copy.shareHint}</p>
+          <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-2">
+            {parties.map((p) => (
+              <label key={p.key} className="flex cursor-pointer items-center gap-2 rounded-2xl border border-ink/10 bg-surface/50 px-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={draft.shareWith.includes(p.key)}
+                  onChange={() => toggleShare(p.key)}
+                  className="h-4 w-4 accent-accent"
+                />
+                {p.name}
+              </label>
+            ))}
+          </div>
+          {errorText("shareWith")}
+        </fieldset>
+      ) : null}
+
+      <label className="block">
+        <span className="text-sm font-semibold">{copy.note}</span>
+        <textarea
+          value={draft.note}
+          onChange={(e) => update({ note: e.target.value })}
+          placeholder={copy.notePlaceholder}
+          maxLength={MAX_ROOM_NOTE_LENGTH}
+          rows={2}
+          aria-invalid={errors.includes("note")}
+          className={cx(input, "mt-2")}
+        />
+        {errorText("note")}
+      </label>
+
+      {failed ? <div className="text-sm font-medium text-rose-600">{copy.submitFailed}</div> : null}
+
+      <div className={cx("flex flex-wrap gap-2", rtl && "justify-end")}>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded-2xl bg-ink px-5 py-3 text-sm font-semibold text-on-ink shadow hover:bg-ink/85 disabled:opacity-60"
+        >
+          {submitting ? copy.saving : saved ? copy.update : copy.submit}
+        </button>
+        {saved ? (
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(saved);
+              setErrors([]);
+              setMode("saved");
+            }}
+            className={choice(false)}
+          >
+            {copy.cancel}
+          </button>
+        ) : null}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, BedDouble, Download, RefreshCw, Send } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { RoomsAdminCopy } from "../locales/schema";
+import { formatTimestamp } from "../dates";
+import { downloadText } from "../lib/download";
+import { EVENT } from "../event";
+import type { Guest } from "../guests/types";
+import type { RsvpAdapter, RsvpResponse } from "../rsvp/types";
+import type { Room, RoomAdapter, RoomPlan, RoomRequest, RoomType } from "./types";
+import { moveStay, proposeRooms, roomConflicts, roomFor, roomingToCsv, sameRooms, staysFor } from "./rooming";
+
+export default function RoomPlanner({
+  rsvpAdapter,
+  adapter,
+  guests,
+  roomTypes,
+  copy,
+  lang,
+}: {
+  rsvpAdapter: RsvpAdapter;
+  adapter: RoomAdapter;
+  guests: Guest[];
+  roomTypes: RoomType[];
+  copy: RoomsAdminCopy;
+  lang: Lang;
+}) {
+  const [responses, setResponses] = useState<Record<string, RsvpResponse> | null>(null);
+  const [requests, setRequests] = useState<Record<string, RoomRequest>>({});
+  const [published, setPublished] = useState<RoomPlan | null>(null);
+  const [plan, setPlan] = useState<RoomPlan | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
+  const names = useMemo(() => Object.fromEntries(guests.map((g) => [g.token, g.name])), [guests]);
+  const stays = useMemo(() => (responses ? staysFor(responses, requests, names) : []), [responses, requests, names]);
+
+  useEffect(() => {
+    let live = true;
+    Promise.all([rsvpAdapter.list(), adapter.list(), adapter.loadRooms()])
+      .then(([list, asked, rooms]) => {
+        if (!live) return;
+        setResponses(list);
+        setRequests(asked);
+        setPublished(rooms);
+        // Pick up where the organizer left off; the first visit starts from a proposal.
+        setPlan(rooms ?? proposeRooms(staysFor(list, asked, names), roomTypes));
+      })
+      .catch(() => {
+        if (live) setFailed(true);
+      });
+    return () => {
+      live = false;
+    };
+  }, [rsvpAdapter, adapter, names, roomTypes]);
+
+  const conflicts = useMemo(() => (plan ? roomConflicts(plan, stays, roomTypes) : []), [plan, stays, roomTypes]);
+
+  const publish = async () => {
+    if (!plan) return;
+    setPublishing(true);
+    try {
+      const saved = await adapter.publishRooms(plan);
+      setPublished(saved);
+      setPlan(saved);
+    } catch {
+      setFailed(true);
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const n = (v: number) => formatNumber(v, lang);
+  const stamp = new Date().toISOString().slice(0, 10);
+  const typeOf = (id: string) => roomTypes.find((t) => t.id === id);
+  const roomLabel = (room: Room) => fill(copy.room, { type: typeOf(room.type)?.name[lang] ?? room.type, n: n(room.number) });
+  const nameOf = (key: string) => names[key] ?? key;
+  const byKey = new Map(stays.map((s) => [s.key, s]));
+  const unassigned = plan ? stays.filter((s) => !roomFor(plan, s.key)) : [];
+  const changed = !!published && !!plan && !sameRooms(published, plan);
+  const button =
+    "inline-flex items-center gap-2 rounded-2xl border border-ink/10 bg-surface/80 px-4 py-2 text-sm font-semibold shadow-sm hover:bg-surface";
+  const select = "rounded-xl border border-ink/10 bg-surface/80 px-2 py-1 text-xs shadow-sm outline-none focus:border-accent";
+
+  const mover = (key: string, current: string | null) =>
+    plan ? (
+      <select
+        value={current ?? ""}
+        onChange={(e) => setPlan(moveStay(plan, key, e.target.value || null))}
+        aria-label={fill(copy.moveTo, { name: nameOf(key) })}
+        className={select}
+      >
+        <option value="">{copy.unassigned}</option>
+        {plan.rooms.map((r) => (
+          <option key={r.id} value={r.id}>
+            {roomLabel(r)}
+          </option>
+        ))}
+      </select>
+    ) : null;
+
+  const occupant = (key: string, room: Room | null) => {
+    const stay = byKey.get(key);
+    const asked = stay?.request?.roomType;
+    return (
+      <li key={key} className="flex flex-wrap items-center justify-between gap-2">
+        <span>
+          <span className="font-semibold">{nameOf(key)}</span>
+          {stay ? <span className="text-subtle"> ×{n(stay.people)}</span> : null}
+          {asked && asked !== room?.type ? (
+            <span className="block text-xs text-muted">{fill(copy.asked, { type: typeOf(asked)?.name[lang] ?? asked })}</span>
+          ) : null}
+        </span>
+        {mover(key, room?.id ?? null)}
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-semibold tracking-tight">{copy.title}</h2>
+      <p className="mt-2 max-w-2xl text-muted">{copy.subtitle}</p>
+
+      {failed ? <div className="mt-6 text-sm font-medium text-rose-600">{copy.loadFailed}</div> : null}
+      {!plan && !failed ? <div className="mt-6 text-sm text-muted">{copy.loading}</div> : null}
+
+      {plan ? (
+        <>
+          <div className="mt-6 flex flex-wrap items-center gap-2">
+            <button type="button" onClick={() => setPlan(proposeRooms(stays, roomTypes))} className={button}>
+              <RefreshCw className="h-4 w-4" />
+              {copy.propose}
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                downloadText(`${EVENT.slug}-rooms-${stamp}.csv`, roomingToCsv(plan, stays, roomTypes), "text/csv;charset=utf-8")
+              }
+              className={button}
+            >
+              <Download className="h-4 w-4" />
+              {copy.exportCsv}
+            </button>
+            <button
+              type="button"
+              onClick={() => void publish()}
+              disabled={publishing || stays.length === 0}
+              className="inline-flex items-center gap-2 rounded-2xl bg-ink px-4 py-2.5 text-sm font-semibold text-on-ink shadow hover:bg-ink/85 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              {publishing ? copy.publishing : copy.publish}
+            </button>
+            <span className="text-sm text-muted">
+              {fill(copy.staying, { parties: n(stays.length), people: n(stays.reduce((sum, s) => sum + s.people, 0)) })}
+            </span>
+          </div>
+
+          <p className={cx("mt-3 text-sm", changed ? "font-semibold text-amber-700" : "text-muted")}>
+            {published?.publishedAt
+              ? fill(copy.published, { date: formatTimestamp(new Date(published.publishedAt), lang) })
+              : copy.unpublished}
+            {changed ? ` ${copy.changed}` : null}
+          </p>
+
+          {stays.length === 0 ? <p className="mt-6 text-sm text-muted">{copy.noneStaying}</p> : null}
+
+          <section className="mt-8">
+            <h3 className="text-xl font-semibold">{copy.conflictsTitle}</h3>
+            {conflicts.length === 0 ? (
+              <p className="mt-3 text-sm text-muted">{copy.noConflicts}</p>
+            ) : (
+              <ul className="mt-3 space-y-1.5 text-sm">
+                {conflicts.map((c, i) => {
+                  const room = plan.rooms.find((r) => r.id === c.room);
+                  return (
+                    <li key={`${c.kind}-${c.keys.join("-")}-${i}`} className="flex items-start gap-2 text-amber-700">
+                      <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                      {fill(copy.conflicts[c.kind], {
+                        party: nameOf(c.keys[0] ?? ""),
+                        other: nameOf(c.keys[1] ?? ""),
+                        room: room ? roomLabel(room) : "",
+                      })}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+
+          {unassigned.length ? (
+            <section className="mt-10">
+              <h3 className="text-xl font-semibold">{copy.unassigned}</h3>
+              <ul className="mt-3 max-w-md space-y-2 rounded-3xl border border-ink/10 bg-surface/70 p-4 text-sm shadow-sm">
+                {unassigned.map((s) => occupant(s.key, null))}
+              </ul>
+            </section>
+          ) : null}
+
+          {roomTypes.map((type) => (
+            <section key={type.id} className="mt-10">
+              <h3 className="text-xl font-semibold">{type.name[lang]}</h3>
+              <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                {plan.rooms
+                  .filter((r) => r.type === type.id)
+                  .map((room) => {
+                    const people = room.keys.reduce((sum, k) => sum + (byKey.get(k)?.people ?? 0), 0);
+                    const over = people > type.beds;
+                    return (
+                      <div
+                        key={room.id}
+                        className={cx(
+                          "rounded-3xl border border-ink/10 bg-surface/70 p-4 shadow-sm",
+                          room.keys.length === 0 && "opacity-60"
+                        )}
+                      >
+                        <div className="flex items-center gap-2 font-semibold">
+                          <BedDouble className="h-4 w-4" />
+                          {roomLabel(room)}
+                        </div>
+                        <div className={cx("mt-1 text-xs font-semibold", over ? "text-rose-700" : "text-subtle")}>
+                          {fill(copy.beds, { people: n(people), beds: n(type.beds) })}
+                        </div>
+                        {room.keys.length ? (
+                          <ul className="mt-3 space-y-2 text-sm">{room.keys.map((k) => occupant(k, room))}</ul>
+                        ) : (
+                          <p className="mt-3 text-sm text-muted">{copy.empty}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+              </div>
+            </section>
+          ))}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { API_BASE, listLocal, readLocal, requestJson, writeLocal } from "../lib/api";
+import type { RoomAdapter, RoomPlan, RoomRequest } from "./types";
+
+export function createLocalRoomAdapter(prefix = "wedding_room"): RoomAdapter {
+  const roomsKey = "wedding_rooms";
+  return {
+    load: async (key) => readLocal<RoomRequest>(`${prefix}:${key}`),
+    submit: async (key, request) => {
+      const saved = { ...request, updatedAt: new Date().toISOString() };
+      writeLocal(`${prefix}:${key}`, saved);
+      return saved;
+    },
+    list: async () => listLocal<RoomRequest>(prefix),
+    loadRooms: async () => readLocal<RoomPlan>(roomsKey),
+    publishRooms: async (plan) => {
+      const saved = { ...plan, publishedAt: new Date().toISOString() };
+      writeLocal(roomsKey, saved);
+      return saved;
+    },
+  };
+}
+
+export function createHttpRoomAdapter(baseUrl: string): RoomAdapter {
+  const base = baseUrl.replace(/\/$/, "");
+  const url = (key: string) => `${base}/room-requests/${encodeURIComponent(key)}`;
+  return {
+    load: (key) => requestJson<RoomRequest>(url(key)),
+    submit: async (key, request) => {
+      const saved = await requestJson<RoomRequest>(url(key), {
+        method: "PUT",
+        body: JSON.stringify({ ...request, updatedAt: new Date().toISOString() }),
+      });
+      if (!saved) throw new Error(`PUT ${url(key)} returned no body`);
+      return saved;
+    },
+    list: async () => (await requestJson<Record<string, RoomRequest>>(`${base}/room-requests`)) ?? {},
+    loadRooms: () => requestJson<RoomPlan>(`${base}/rooms/plan`),
+    publishRooms: async (plan) => {
+      const saved = await requestJson<RoomPlan>(`${base}/rooms/plan`, {
+        method: "PUT",
+        body: JSON.stringify({ ...plan, publishedAt: new Date().toISOString() }),
+      });
+      if (!saved) throw new Error(`PUT ${base}/rooms/plan returned no body`);
+      return saved;
+    },
+  };
+}
+
+export function defaultRoomAdapter(): RoomAdapter {
+  return API_BASE ? createHttpRoomAdapter(API_BASE) : createLocalRoomAdapter();
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { emptyRooms, moveStay, proposeRooms, roomConflicts, roomingToCsv } from "./rooming";
+import type { RoomPlan, RoomRequest, RoomType, Stay } from "./types";
+
+const TYPES: RoomType[] = [
+  { id: "double", name: { en: "Double", fa: "دوتخته", de: "Doppelzimmer" }, beds: 2, count: 2 },
+  { id: "family", name: { en: "Family", fa: "خانوادگی", de: "Familienzimmer" }, beds: 4, count: 1 },
+];
+
+function stay(key: string, people: number, request: Partial<RoomRequest> = {}): Stay {
+  return { key, name: key.toUpperCase(), people, request: { roomType: null, shareWith: [], note: "", ...request } };
+}
+
+const occupancy = (plan: RoomPlan) => Object.fromEntries(plan.rooms.map((r) => [r.id, r.keys]));
+
+function planWith(assignments: Record<string, string>): RoomPlan {
+  let plan: RoomPlan = { rooms: emptyRooms(TYPES) };
+  for (const [key, room] of Object.entries(assignments)) plan = moveStay(plan, key, room);
+  return plan;
+}
+
+describe("proposeRooms", () => {
+  it("merges share requests, either way round and through a third party, into one room", () => {
+    const stays = [stay("a", 1, { shareWith: ["b"] }), stay("b", 1, { shareWith: ["a"] }), stay("c", 2, { shareWith: ["b"] }), stay("d", 2)];
+    expect(occupancy(proposeRooms(stays, TYPES))).toEqual({
+      "double-1": ["d"],
+      "double-2": [],
+      "family-1": ["a", "b", "c"],
+    });
+  });
+
+  it("ignores share requests naming someone who is not staying", () => {
+    const plan = proposeRooms([stay("a", 2, { shareWith: ["gone"] })], TYPES);
+    expect(occupancy(plan)["double-1"]).toEqual(["a"]);
+  });
+
+  it("splits a group too big for any room back into its parties", () => {
+    const stays = [stay("a", 3, { shareWith: ["b"] }), stay("b", 2)];
+    expect(occupancy(proposeRooms(stays, TYPES))).toEqual({
+      "double-1": ["b"],
+      "double-2": [],
+      "family-1": ["a"],
+    });
+  });
+
+  it("puts a party larger than every room into the largest room left, after everyone who fits", () => {
+    const stays = [stay("big", 6), stay("pair", 2)];
+    const plan = proposeRooms(stays, TYPES);
+    expect(occupancy(plan)).toEqual({ "double-1": ["pair"], "double-2": [], "family-1": ["big"] });
+    expect(roomConflicts(plan, stays, TYPES)).toEqual([{ kind: "overCapacity", keys: ["big"], room: "family-1" }]);
+  });
+
+  it("prefers the room type a party asked for", () => {
+    const plan = proposeRooms([stay("a", 2, { roomType: "family" })], TYPES);
+    expect(occupancy(plan)["family-1"]).toEqual(["a"]);
+  });
+});
+
+describe("roomConflicts", () => {
+  it("is empty for a plan that matches every request", () => {
+    const stays = [stay("a", 1, { shareWith: ["b"] }), stay("b", 1)];
+    expect(roomConflicts(planWith({ a: "double-1", b: "double-1" }), stays, TYPES)).toEqual([]);
+  });
+
+  it("flags a party in a room type other than the one it asked for", () => {
+    const stays = [stay("a", 2, { roomType: "family" })];
+    expect(roomConflicts(planWith({ a: "double-1" }), stays, TYPES)).toEqual([{ kind: "wrongType", keys: ["a"], room: "double-1" }]);
+  });
+
+  it("flags a room holding more people than beds", () => {
+    const stays = [stay("a", 2), stay("b", 1)];
+    expect(roomConflicts(planWith({ a: "double-1", b: "double-1" }), stays, TYPES)).toEqual([
+      { kind: "overCapacity", keys: ["a", "b"], room: "double-1" },
+    ]);
+  });
+
+  it("flags parties who asked to share but were put apart, once per pair", () => {
+    const stays = [stay("a", 1, { shareWith: ["b"] }), stay("b", 1, { shareWith: ["a"] })];
+    expect(roomConflicts(planWith({ a: "double-1", b: "double-2" }), stays, TYPES)).toEqual([{ kind: "apart", keys: ["a", "b"] }]);
+  });
+
+  it("flags a cancelled party still holding a room, and a staying party with none", () => {
+    const stays = [stay("b", 2, { shareWith: ["gone"] })];
+    expect(roomConflicts(planWith({ gone: "family-1" }), stays, TYPES)).toEqual([
+      { kind: "unassigned", keys: ["b"] },
+      { kind: "cancelled", keys: ["gone"], room: "family-1" },
+      { kind: "notStaying", keys: ["b", "gone"] },
+    ]);
+  });
+});
+
+describe("roomingToCsv", () => {
+  it("writes one CRLF row per party and quotes names with commas or quotes", () => {
+    const stays = [{ ...stay("a", 2), name: 'Sara, "Sunny" & Dariush' }];
+    expect(roomingToCsv(planWith({ a: "family-1" }), stays, TYPES)).toBe(
+      'room,room_type,beds,party,people\r\nfamily-1,Family,4,"Sara, ""Sunny"" & Dariush",2\r\n'
+    );
+  });
+});
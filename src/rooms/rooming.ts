@@ -0,0 +1,147 @@
+import type { RsvpResponse } from "../rsvp/types";
+import { csvCell } from "../lib/download";
+import type { Room, RoomConflict, RoomPlan, RoomRequest, RoomType, Stay } from "./types";
+
+export function staysFor(
+  responses: Record<string, RsvpResponse>,
+  requests: Record<string, RoomRequest>,
+  names: Record<string, string>
+): Stay[] {
+  return Object.entries(responses)
+    .filter(([, r]) => r.attending && r.nights.length > 0)
+    .map(([key, r]) => ({ key, name: names[key] ?? key, people: r.partySize, request: requests[key] ?? null }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** The whole block, every room empty, in config order. */
+export function emptyRooms(types: RoomType[]): Room[] {
+  return types.flatMap((t) => Array.from({ length: t.count }, (_, i) => ({ id: `${t.id}-${i + 1}`, type: t.id, number: i + 1, keys: [] })));
+}
+
+const bedsOf = (types: RoomType[]) => {
+  const beds = new Map(types.map((t) => [t.id, t.beds]));
+  return (room: Room) => beds.get(room.type) ?? 0;
+};
+
+const peopleIn = (stays: Stay[]) => stays.reduce((sum, s) => sum + s.people, 0);
+
+/**
+ * Parties that asked to share (either way round) form a group that gets one room, largest groups first.
+ * Each group takes a free room of the type it asked for if one fits, otherwise the smallest free room that
+ * fits; a group that fits nowhere is broken back into its parties. Parties too big for any room go last,
+ * into the largest room left, over capacity. Nothing here is final: `roomConflicts` says what still needs
+ * a human, and the organizer edits from there.
+ */
+export function proposeRooms(stays: Stay[], types: RoomType[]): RoomPlan {
+  const staying = new Set(stays.map((s) => s.key));
+  const parent = new Map(stays.map((s) => [s.key, s.key]));
+  const root = (key: string): string => {
+    const up = parent.get(key) ?? key;
+    return up === key ? key : root(up);
+  };
+  for (const s of stays) {
+    for (const other of s.request?.shareWith ?? []) {
+      if (staying.has(other)) parent.set(root(s.key), root(other));
+    }
+  }
+
+  const groups = new Map<string, Stay[]>();
+  for (const s of stays) groups.set(root(s.key), [...(groups.get(root(s.key)) ?? []), s]);
+
+  const maxBeds = Math.max(0, ...types.map((t) => t.beds));
+  const units = [...groups.values()].sort(
+    (a, b) =>
+      Number(peopleIn(a) > maxBeds) - Number(peopleIn(b) > maxBeds) ||
+      peopleIn(b) - peopleIn(a) ||
+      a[0].key.localeCompare(b[0].key)
+  );
+
+  const rooms = emptyRooms(types);
+  const beds = bedsOf(types);
+  for (let unit = units.shift(); unit; unit = units.shift()) {
+    const people = peopleIn(unit);
+    const wanted = unit.map((s) => s.request?.roomType).find(Boolean);
+    const free = rooms.filter((r) => r.keys.length === 0);
+    const fits = free.filter((r) => beds(r) >= people).sort((a, b) => beds(a) - beds(b));
+    if (!fits.length && unit.length > 1) {
+      units.unshift(...unit.map((s) => [s]));
+      continue;
+    }
+    const room = fits.find((r) => r.type === wanted) ?? fits[0] ?? [...free].sort((a, b) => beds(b) - beds(a))[0];
+    room?.keys.push(...unit.map((s) => s.key));
+  }
+  return { rooms };
+}
+
+export function roomFor(plan: RoomPlan, key: string): Room | null {
+  return plan.rooms.find((r) => r.keys.includes(key)) ?? null;
+}
+
+/** Moves a party to `roomId`, or out of every room when it is null. */
+export function moveStay(plan: RoomPlan, key: string, roomId: string | null): RoomPlan {
+  return {
+    ...plan,
+    rooms: plan.rooms.map((r) => {
+      const keys = r.keys.filter((k) => k !== key);
+      return { ...r, keys: r.id === roomId ? [...keys, key] : keys };
+    }),
+  };
+}
+
+/** Everything about `plan` that doesn't match the current stays, capacities and requests. */
+export function roomConflicts(plan: RoomPlan, stays: Stay[], types: RoomType[]): RoomConflict[] {
+  const staying = new Map(stays.map((s) => [s.key, s]));
+  const beds = bedsOf(types);
+  const conflicts: RoomConflict[] = [];
+
+  for (const s of stays) {
+    if (!roomFor(plan, s.key)) conflicts.push({ kind: "unassigned", keys: [s.key] });
+  }
+
+  for (const room of plan.rooms) {
+    for (const key of room.keys) {
+      if (!staying.has(key)) conflicts.push({ kind: "cancelled", keys: [key], room: room.id });
+    }
+    const people = peopleIn(room.keys.flatMap((k) => staying.get(k) ?? []));
+    if (people > beds(room)) conflicts.push({ kind: "overCapacity", keys: room.keys, room: room.id });
+  }
+
+  const reported = new Set<string>();
+  for (const s of stays) {
+    const room = roomFor(plan, s.key);
+    if (room && s.request?.roomType && room.type !== s.request.roomType) {
+      conflicts.push({ kind: "wrongType", keys: [s.key], room: room.id });
+    }
+    for (const other of s.request?.shareWith ?? []) {
+      if (!staying.has(other)) {
+        conflicts.push({ kind: "notStaying", keys: [s.key, other] });
+        continue;
+      }
+      const pair = [s.key, other].sort().join(" ");
+      if (reported.has(pair) || (room && roomFor(plan, other) === room)) continue;
+      reported.add(pair);
+      conflicts.push({ kind: "apart", keys: [s.key, other] });
+    }
+  }
+  return conflicts;
+}
+
+/** Whether a published plan still puts everyone where `b` does. */
+export function sameRooms(a: RoomPlan, b: RoomPlan) {
+  const shape = (p: RoomPlan) => JSON.stringify(p.rooms.filter((r) => r.keys.length).map((r) => [r.id, [...r.keys].sort()]));
+  return shape(a) === shape(b);
+}
+
+/** The rooming list for the resort's front desk: one row per party in a room, room type names in English. */
+export function roomingToCsv(plan: RoomPlan, stays: Stay[], types: RoomType[]) {
+  const byKey = new Map(stays.map((s) => [s.key, s]));
+  const typeName = (id: string) => types.find((t) => t.id === id)?.name.en ?? id;
+  const header = ["room", "room_type", "beds", "party", "people"];
+  const beds = bedsOf(types);
+  const lines = plan.rooms.flatMap((room) =>
+    room.keys.map((key) =>
+      [room.id, typeName(room.type), beds(room), byKey.get(key)?.name ?? key, byKey.get(key)?.people ?? ""].map(csvCell).join(",")
+    )
+  );
+  return [header.join(","), ...lines].join("\r\n") + "\r\n";
+}
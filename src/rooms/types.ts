@@ -0,0 +1,65 @@
+import type { Lang } from "../i18n";
+
+export const MAX_ROOM_NOTE_LENGTH = 300;
+
+export type RoomType = {
+  id: string;
+  name: Record<Lang, string>;
+  /** Guests one room of this type sleeps. */
+  beds: number;
+  /** Rooms of this type held for the wedding block. */
+  count: number;
+};
+
+/** What a party asks for; `shareWith` holds other parties' invitation tokens. */
+export type RoomRequest = {
+  roomType: string | null;
+  shareWith: string[];
+  note: string;
+  updatedAt?: string;
+};
+
+export type RoomError = "shareWith" | "note";
+
+/** A party that needs beds: attending with at least one resort night. */
+export type Stay = {
+  key: string;
+  name: string;
+  people: number;
+  request: RoomRequest | null;
+};
+
+export type Room = {
+  /** `${type}-${number}`. */
+  id: string;
+  type: string;
+  /** 1-based within its type, for "Suite 2". */
+  number: number;
+  /** Party keys sharing the room; parties are never split. */
+  keys: string[];
+};
+
+/** Parties staying but in no room are unassigned; that is derived, not stored. */
+export type RoomPlan = {
+  /** Every room in the block, empty ones included, so the organizer can move parties into them. */
+  rooms: Room[];
+  publishedAt?: string;
+};
+
+export type RoomConflictKind = "unassigned" | "overCapacity" | "wrongType" | "apart" | "notStaying" | "cancelled";
+
+export type RoomConflict = {
+  kind: RoomConflictKind;
+  /** The parties involved; for "apart" and "notStaying", the one who asked comes first. */
+  keys: string[];
+  room?: string;
+};
+
+export type RoomAdapter = {
+  load: (key: string) => Promise<RoomRequest | null>;
+  submit: (key: string, request: RoomRequest) => Promise<RoomRequest>;
+  /** Every stored request by key; used by the organizer room planner. */
+  list: () => Promise<Record<string, RoomRequest>>;
+  loadRooms: () => Promise<RoomPlan | null>;
+  publishRooms: (plan: RoomPlan) => Promise<RoomPlan>;
+};
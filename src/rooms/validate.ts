@@ -0,0 +1,13 @@
+import { MAX_ROOM_NOTE_LENGTH, type RoomError, type RoomRequest } from "./types";
+
+/** `parties` are the keys a guest may ask to share with: every other invitation. */
+export function validateRoomRequest(r: RoomRequest, parties: string[]): RoomError[] {
+  const errors: RoomError[] = [];
+  if (r.shareWith.some((k) => !parties.includes(k))) errors.push("shareWith");
+  if (r.note.length > MAX_ROOM_NOTE_LENGTH) errors.push("note");
+  return errors;
+}
+
+export function normalizeRoomRequest(r: RoomRequest): RoomRequest {
+  return { roomType: r.roomType, shareWith: [...new Set(r.shareWith)], note: r.note.trim() };
+}
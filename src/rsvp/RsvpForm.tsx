@@ -0,0 +1,311 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { Check, Pencil } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { MealsCopy, RsvpCopy } from "../locales/schema";
+import { formatDay } from "../dates";
+import MealFields from "../meals/MealFields";
+import { EMPTY_MEAL, needsLabel } from "../meals/meals";
+import type { Course, MealChoice } from "../meals/types";
+import { MAX_NOTE_LENGTH, type Night, type RsvpAdapter, type RsvpError, type RsvpResponse } from "./types";
+import { normalizeRsvp, validateRsvp } from "./validate";
+
+type Mode = "loading" | "form" | "saved";
+
+const NO_NAMES: string[] = [];
+
+export default function RsvpForm({
+  adapter,
+  storageKey,
+  maxParty,
+  nights,
+  menu,
+  initialNames = NO_NAMES,
+  copy,
+  mealCopy,
+  lang,
+  rtl,
+}: {
+  adapter: RsvpAdapter;
+  storageKey: string;
+  maxParty: number;
+  nights: Night[];
+  menu: Course[];
+  initialNames?: string[];
+  copy: RsvpCopy;
+  mealCopy: MealsCopy;
+  lang: Lang;
+  rtl: boolean;
+}) {
+  const empty = useMemo<RsvpResponse>(
+    () => ({
+      attending: true,
+      partySize: Math.min(Math.max(initialNames.length, 1), maxParty),
+      names: initialNames.length ? initialNames : [""],
+      nights,
+      note: "",
+    }),
+    [initialNames, maxParty, nights]
+  );
+  const limits = useMemo(() => ({ maxParty, nights, menu }), [maxParty, nights, menu]);
+
+  const [mode, setMode] = useState<Mode>("loading");
+  const [saved, setSaved] = useState<RsvpResponse | null>(null);
+  const [draft, setDraft] = useState<RsvpResponse>(empty);
+  const [errors, setErrors] = useState<RsvpError[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    adapter
+      .load(storageKey)
+      .catch(() => null)
+      .then((r) => {
+        if (!live) return;
+        setSaved(r);
+        setDraft(r ?? empty);
+        setMode(r ? "saved" : "form");
+      });
+    return () => {
+      live = false;
+    };
+  }, [adapter, storageKey, empty]);
+
+  const sizes = useMemo(() => Array.from({ length: maxParty }, (_, i) => i + 1), [maxParty]);
+  const nameCount = draft.attending ? draft.partySize : 1;
+
+  const update = (patch: Partial<RsvpResponse>) => {
+    setDraft((d) => ({ ...d, ...patch }));
+    setErrors([]);
+  };
+
+  const setName = (i: number, value: string) => {
+    const names = [...draft.names];
+    while (names.length <= i) names.push("");
+    names[i] = value;
+    update({ names });
+  };
+
+  const setMeal = (i: number, meal: MealChoice) => {
+    const meals = Array.from({ length: Math.max(draft.meals?.length ?? 0, i + 1) }, (_, j) => draft.meals?.[j] ?? EMPTY_MEAL);
+    meals[i] = meal;
+    update({ meals });
+  };
+
+  const nameLabel = (i: number) => (i === 0 ? copy.firstGuestName : fill(copy.guestName, { n: formatNumber(i + 1, lang) }));
+  const courseName = (id: string | null) => menu.find((c) => c.id === id)?.name[lang] ?? mealCopy.undecided;
+
+  const toggleNight = (n: Night) =>
+    update({ nights: draft.nights.includes(n) ? draft.nights.filter((x) => x !== n) : [...draft.nights, n] });
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    const found = validateRsvp(draft, limits);
+    setErrors(found);
+    if (found.length) return;
+
+    setSubmitting(true);
+    setFailed(false);
+    try {
+      const r = await adapter.submit(storageKey, normalizeRsvp(draft, limits));
+      setSaved(r);
+      setDraft(r);
+      setMode("saved");
+    } catch {
+      setFailed(true);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const card = cx("rounded-3xl border border-ink/10 bg-surface/65 p-5 shadow-sm sm:p-6", rtl && "text-right");
+  const input =
+    "w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent";
+  const choice = (on: boolean) =>
+    cx(
+      "rounded-2xl border px-4 py-2 text-sm font-semibold shadow-sm",
+      on ? "border-ink bg-ink text-on-ink" : "border-ink/10 bg-surface/70 text-ink hover:bg-surface"
+    );
+  const errorText = (k: RsvpError) =>
+    errors.includes(k) ? <div className="mt-1 text-xs font-medium text-rose-600">{copy.errors[k]}</div> : null;
+
+  if (mode === "loading") {
+    return <div className={cx(card, "text-sm text-muted")}>{copy.loading}</div>;
+  }
+
+  if (mode === "saved" && saved) {
+    return (
+      <div className={card}>
+        <div className="flex items-start gap-3">
+          <div className="grid h-10 w-10 shrink-0 place-items-center rounded-2xl bg-gradient-to-br from-accent to-highlight text-on-ink shadow-sm">
+            <Check className="h-5 w-5" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="text-lg font-semibold">{saved.attending ? copy.confirmedYes : copy.confirmedNo}</div>
+            <div className="mt-1 text-sm text-muted">{saved.names.join(" · ")}</div>
+            {saved.attending ? (
+              <div className="mt-1 text-sm text-muted">
+                {copy.partySize}: {formatNumber(saved.partySize, lang)}
+                {saved.nights.length ? ` · ${saved.nights.map((n) => formatDay(n, lang)).join(", ")}` : null}
+              </div>
+            ) : null}
+            {saved.attending && saved.meals?.length ? (
+              <ul className="mt-2 space-y-0.5 text-sm text-muted">
+                {saved.meals.map((m, i) => {
+                  const needs = needsLabel(m, mealCopy);
+                  return (
+                    <li key={i}>
+                      <span className="font-semibold text-ink">{saved.names[i]}</span>: {courseName(m.course)}
+                      {needs ? ` · ${needs}` : null}
+                    </li>
+                  );
+                })}
+              </ul>
+            ) : null}
+            {saved.note ? <div className="mt-2 text-sm italic text-muted">“{saved.note}”</div> : null}
+          </div>
+        </div>
+        <div className={cx("mt-4 flex", rtl && "justify-end")}>
+          <button type="button" onClick={() => setMode("form")} className={choice(false)}>
+            <Pencil className="me-2 inline h-4 w-4" />
+            {copy.edit}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} noValidate className={cx(card, "space-y-5")}>
+      <fieldset>
+        <legend className="text-sm font-semibold">{copy.attending}</legend>
+        <div className={cx("mt-2 flex gap-2", rtl && "justify-end")}>
+          <button type="button" aria-pressed={draft.attending} onClick={() => update({ attending: true })} className={choice(draft.attending)}>
+            {copy.yes}
+          </button>
+          <button type="button" aria-pressed={!draft.attending} onClick={() => update({ attending: false })} className={choice(!draft.attending)}>
+            {copy.no}
+          </button>
+        </div>
+      </fieldset>
+
+      {draft.attending ? (
+        <label className="block">
+          <span className="text-sm font-semibold">{copy.partySize}</span>
+          <select
+            value={draft.partySize}
+            onChange={(e) => update({ partySize: Number(e.target.value) })}
+            className={cx(input, "mt-2 sm:w-40")}
+            aria-invalid={errors.includes("partySize")}
+          >
+            {sizes.map((n) => (
+              <option key={n} value={n}>
+                {formatNumber(n, lang)}
+              </option>
+            ))}
+          </select>
+          {errorText("partySize")}
+        </label>
+      ) : null}
+
+      <div>
+        <div className="text-sm font-semibold">{copy.names}</div>
+        <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-2">
+          {Array.from({ length: nameCount }, (_, i) => {
+            const label = nameLabel(i);
+            return (
+              <input
+                key={i}
+                value={draft.names[i] ?? ""}
+                onChange={(e) => setName(i, e.target.value)}
+                placeholder={label}
+                aria-label={label}
+                aria-invalid={errors.includes("names") && !draft.names[i]?.trim()}
+                autoComplete={i === 0 ? "name" : "off"}
+                className={input}
+              />
+            );
+          })}
+        </div>
+        {errorText("names")}
+      </div>
+
+      {draft.attending && nights.length > 0 ? (
+        <fieldset>
+          <legend className="text-sm font-semibold">{copy.nights}</legend>
+          <div className={cx("mt-2 flex flex-wrap gap-2", rtl && "justify-end")}>
+            {nights.map((n) => (
+              <label key={n} className={cx(choice(draft.nights.includes(n)), "cursor-pointer")}>
+                <input type="checkbox" className="sr-only" checked={draft.nights.includes(n)} onChange={() => toggleNight(n)} />
+                {formatDay(n, lang)}
+              </label>
+            ))}
+          </div>
+          {errorText("nights")}
+        </fieldset>
+      ) : null}
+
+      {draft.attending && menu.length > 0 ? (
+        <div>
+          <div className="text-sm font-semibold">{mealCopy.title}</div>
+          <p className="mt-1 text-sm text-muted">{mealCopy.intro}</p>
+          <div className="mt-3 space-y-3">
+            {Array.from({ length: nameCount }, (_, i) => (
+              <MealFields
+                key={i}
+                label={draft.names[i]?.trim() || nameLabel(i)}
+                meal={draft.meals?.[i] ?? EMPTY_MEAL}
+                menu={menu}
+                copy={mealCopy}
+                lang={lang}
+                rtl={rtl}
+                invalid={errors.includes("meals")}
+                onChange={(m) => setMeal(i, m)}
+              />
+            ))}
+          </div>
+          {errorText("meals")}
+        </div>
+      ) : null}
+
+      <label className="block">
+        <span className="text-sm font-semibold">{copy.note}</span>
+        <textarea
+          value={draft.note}
+          onChange={(e) => update({ note: e.target.value })}
+          placeholder={copy.notePlaceholder}
+          maxLength={MAX_NOTE_LENGTH}
+          rows={3}
+          className={cx(input, "mt-2 resize-y")}
+        />
+        {errorText("note")}
+      </label>
+
+      {failed ? <div className="text-sm font-medium text-rose-600">{copy.submitFailed}</div> : null}
+
+      <div className={cx("flex flex-wrap gap-2", rtl && "justify-end")}>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded-2xl bg-ink px-5 py-3 text-sm font-semibold text-on-ink shadow hover:bg-ink/85 disabled:opacity-60"
+        >
+          {submitting ? copy.saving : saved ? copy.update : copy.submit}
+        </button>
+        {saved ? (
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(saved);
+              setErrors([]);
+              setMode("saved");
+            }}
+            className={choice(false)}
+          >
+            {copy.cancel}
+          </button>
+        ) : null}
+      </div>
+    </form>
+  );
+}
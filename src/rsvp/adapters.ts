@@ -0,0 +1,34 @@
+import { API_BASE, listLocal, readLocal, requestJson, writeLocal } from "../lib/api";
+import type { RsvpAdapter, RsvpResponse } from "./types";
+
+export function createLocalRsvpAdapter(prefix = "wedding_rsvp"): RsvpAdapter {
+  return {
+    load: async (key) => readLocal<RsvpResponse>(`${prefix}:${key}`),
+    submit: async (key, response) => {
+      const saved = { ...response, updatedAt: new Date().toISOString() };
+      writeLocal(`${prefix}:${key}`, saved);
+      return saved;
+    },
+    list: async () => listLocal<RsvpResponse>(prefix),
+  };
+}
+
+export function createHttpRsvpAdapter(baseUrl: string): RsvpAdapter {
+  const url = (key: string) => `${baseUrl.replace(/\/$/, "")}/rsvp/${encodeURIComponent(key)}`;
+  return {
+    load: (key) => requestJson<RsvpResponse>(url(key)),
+    submit: async (key, response) => {
+      const saved = await requestJson<RsvpResponse>(url(key), {
+        method: "PUT",
+        body: JSON.stringify({ ...response, updatedAt: new Date().toISOString() }),
+      });
+      if (!saved) throw new Error(`PUT ${url(key)} returned no body`);
+      return saved;
+    },
+    list: async () => (await requestJson<Record<string, RsvpResponse>>(`${baseUrl.replace(/\/$/, "")}/rsvp`)) ?? {},
+  };
+}
+
+export function defaultRsvpAdapter(): RsvpAdapter {
+  return API_BASE ? createHttpRsvpAdapter(API_BASE) : createLocalRsvpAdapter();
+}
@@ -0,0 +1,28 @@
+import { EVENT_DATES } from "../dates";
+import type { MealChoice } from "../meals/types";
+
+export type Night = typeof EVENT_DATES.arrival | typeof EVENT_DATES.wedding;
+
+export const NIGHTS: Night[] = [EVENT_DATES.arrival, EVENT_DATES.wedding];
+
+export const MAX_NOTE_LENGTH = 1000;
+
+export type RsvpResponse = {
+  attending: boolean;
+  partySize: number;
+  names: string[];
+  nights: Night[];
+  note: string;
+  /** One per attending name, in the same order; missing on responses from before meal choices existed. */
+  meals?: MealChoice[];
+  updatedAt?: string;
+};
+
+export type RsvpAdapter = {
+  load: (key: string) => Promise<RsvpResponse | null>;
+  submit: (key: string, response: RsvpResponse) => Promise<RsvpResponse>;
+  /** Every stored response by key; used by the organizer dashboard. */
+  list: () => Promise<Record<string, RsvpResponse>>;
+};
+
+export type RsvpError = "partySize" | "names" | "nights" | "meals" | "note";
@@ -0,0 +1,37 @@
+import { mealComplete, normalizeMeals } from "../meals/meals";
+import type { Course } from "../meals/types";
+import { MAX_NOTE_LENGTH, type Night, type RsvpError, type RsvpResponse } from "./types";
+
+export type RsvpLimits = {
+  maxParty: number;
+  nights: Night[];
+  /** Main courses on offer; empty means the form does not ask about dinner. */
+  menu: Course[];
+};
+
+export function validateRsvp(r: RsvpResponse, { maxParty, nights, menu }: RsvpLimits): RsvpError[] {
+  const errors: RsvpError[] = [];
+  const names = r.names.slice(0, r.attending ? r.partySize : 1);
+
+  if (r.attending && (!Number.isInteger(r.partySize) || r.partySize < 1 || r.partySize > maxParty)) {
+    errors.push("partySize");
+  }
+  if (names.length === 0 || names.some((n) => !n.trim())) errors.push("names");
+  if (r.attending && nights.length > 0 && !r.nights.some((n) => nights.includes(n))) errors.push("nights");
+  if (r.attending && menu.length > 0 && names.some((_, i) => !mealComplete(r.meals?.[i], menu))) errors.push("meals");
+  if (r.note.length > MAX_NOTE_LENGTH) errors.push("note");
+
+  return errors;
+}
+
+export function normalizeRsvp(r: RsvpResponse, { nights, menu }: RsvpLimits): RsvpResponse {
+  const size = r.attending ? r.partySize : 1;
+  return {
+    attending: r.attending,
+    partySize: size,
+    names: r.names.slice(0, size).map((n) => n.trim()),
+    nights: r.attending ? nights.filter((n) => r.nights.includes(n)) : [],
+    note: r.note.trim(),
+    ...(r.attending && menu.length > 0 ? { meals: normalizeMeals(r.meals, size, menu) } : {}),
+  };
+}
@@ -0,0 +1,395 @@
+import { useEffect, useMemo, useState, type ChangeEvent, type DragEvent } from "react";
+import { AlertTriangle, Download, Plus, Printer, Send, Trash2, Upload, X } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { SeatingAdminCopy } from "../locales/schema";
+import { formatTimestamp } from "../dates";
+import { downloadText } from "../lib/download";
+import { EVENT } from "../event";
+import type { Guest } from "../guests/types";
+import type { RsvpAdapter, RsvpResponse } from "../rsvp/types";
+import type { SeatingAdapter, SeatingConstraint, SeatingPlan } from "./types";
+import {
+  EMPTY_SEATING,
+  addConstraint,
+  addTable,
+  dinersFor,
+  parseSeating,
+  removeConstraint,
+  removeTable,
+  sameSeating,
+  seatDiner,
+  seatingToHtml,
+  seatingToJson,
+  seatingWarnings,
+  tableOf,
+  updateTable,
+  withNames,
+} from "./seating";
+
+const NEW_CONSTRAINT: SeatingConstraint = { kind: "together", a: "", b: "" };
+
+export default function SeatingPlanner({
+  rsvpAdapter,
+  adapter,
+  guests,
+  copy,
+  lang,
+  rtl,
+}: {
+  rsvpAdapter: RsvpAdapter;
+  adapter: SeatingAdapter;
+  guests: Guest[];
+  copy: SeatingAdminCopy;
+  lang: Lang;
+  rtl: boolean;
+}) {
+  const [responses, setResponses] = useState<Record<string, RsvpResponse> | null>(null);
+  const [published, setPublished] = useState<SeatingPlan | null>(null);
+  const [plan, setPlan] = useState<SeatingPlan | null>(null);
+  const [constraint, setConstraint] = useState<SeatingConstraint>(NEW_CONSTRAINT);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [importFailed, setImportFailed] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    Promise.all([rsvpAdapter.list(), adapter.load()])
+      .then(([list, saved]) => {
+        if (!live) return;
+        setResponses(list);
+        setPublished(saved);
+        setPlan(saved ?? EMPTY_SEATING);
+      })
+      .catch(() => {
+        if (live) setFailed(true);
+      });
+    return () => {
+      live = false;
+    };
+  }, [rsvpAdapter, adapter]);
+
+  const diners = useMemo(() => (responses ? dinersFor(responses, guests) : []), [responses, guests]);
+  const warnings = useMemo(() => (plan ? seatingWarnings(plan, diners) : []), [plan, diners]);
+
+  const publish = async () => {
+    if (!plan) return;
+    setPublishing(true);
+    try {
+      const saved = await adapter.publish(withNames(plan, diners));
+      setPublished(saved);
+      setPlan(saved);
+    } catch {
+      setFailed(true);
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const importSnapshot = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setPlan(parseSeating(await file.text()));
+      setImportFailed(false);
+    } catch {
+      setImportFailed(true);
+    }
+  };
+
+  const n = (v: number) => formatNumber(v, lang);
+  const stamp = new Date().toISOString().slice(0, 10);
+  const names = new Map(diners.map((d) => [d.id, d.name]));
+  const nameOf = (id: string) => names.get(id) ?? plan?.names[id] ?? id;
+  const unseated = plan ? diners.filter((d) => !tableOf(plan, d.id)) : [];
+  const changed = !!published && !!plan && !sameSeating(published, plan);
+  const button =
+    "inline-flex items-center gap-2 rounded-2xl border border-ink/10 bg-surface/80 px-4 py-2 text-sm font-semibold shadow-sm hover:bg-surface";
+  const input =
+    "w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent";
+  const select = "rounded-xl border border-ink/10 bg-surface/80 px-2 py-1 text-xs shadow-sm outline-none focus:border-accent";
+
+  // Drag and drop moves guests with a pointer; the select on every guest does the same from the keyboard.
+  const dropZone = (target: string | null) => ({
+    onDragOver: (e: DragEvent) => {
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setDropTarget(target ?? "");
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDropTarget(null);
+      const id = e.dataTransfer.getData("text/plain");
+      if (id && plan) setPlan(seatDiner(plan, id, target));
+    },
+  });
+
+  const chip = (id: string, tableId: string | null) =>
+    plan ? (
+      <li
+        key={id}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.setData("text/plain", id);
+          e.dataTransfer.effectAllowed = "move";
+        }}
+        className={cx(
+          "flex cursor-grab flex-wrap items-center justify-between gap-2 rounded-2xl border bg-surface/80 px-3 py-1.5 text-sm shadow-sm active:cursor-grabbing",
+          names.has(id) ? "border-ink/10" : "border-rose-300 text-rose-700"
+        )}
+      >
+        <span className="font-semibold">{nameOf(id)}</span>
+        <select
+          value={tableId ?? ""}
+          onChange={(e) => setPlan(seatDiner(plan, id, e.target.value || null))}
+          aria-label={fill(copy.moveTo, { name: nameOf(id) })}
+          className={select}
+        >
+          <option value="">{copy.unseated}</option>
+          {plan.tables.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </select>
+      </li>
+    ) : null;
+
+  const guestSelect = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={cx(input, "sm:w-56")}>
+      <option value="">{copy.pickGuest}</option>
+      {diners.map((d) => (
+        <option key={d.id} value={d.id}>
+          {d.name}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div>
+      <h2 className="text-2xl font-semibold tracking-tight">{copy.title}</h2>
+      <p className="mt-2 max-w-2xl text-muted">{copy.subtitle}</p>
+
+      {failed ? <div className="mt-6 text-sm font-medium text-rose-600">{copy.loadFailed}</div> : null}
+      {!plan && !failed ? <div className="mt-6 text-sm text-muted">{copy.loading}</div> : null}
+
+      {plan ? (
+        <>
+          <div className="mt-6 flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPlan(addTable(plan, fill(copy.defaultTable, { n: n(plan.tables.length + 1) })))}
+              className={button}
+            >
+              <Plus className="h-4 w-4" />
+              {copy.addTable}
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                downloadText(
+                  `${EVENT.slug}-seating-${stamp}.html`,
+                  seatingToHtml(withNames(plan, diners), copy.print, lang, rtl),
+                  "text/html;charset=utf-8"
+                )
+              }
+              className={button}
+            >
+              <Printer className="h-4 w-4" />
+              {copy.printList}
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadText(`${EVENT.slug}-seating-${stamp}.json`, seatingToJson(withNames(plan, diners)), "application/json")}
+              className={button}
+            >
+              <Download className="h-4 w-4" />
+              {copy.exportJson}
+            </button>
+            <label className={cx(button, "cursor-pointer")}>
+              <Upload className="h-4 w-4" />
+              {copy.importJson}
+              <input type="file" accept="application/json,.json" onChange={(e) => void importSnapshot(e)} className="sr-only" />
+            </label>
+            <button
+              type="button"
+              onClick={() => void publish()}
+              disabled={publishing}
+              className="inline-flex items-center gap-2 rounded-2xl bg-ink px-4 py-2.5 text-sm font-semibold text-on-ink shadow hover:bg-ink/85 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              {publishing ? copy.publishing : copy.publish}
+            </button>
+            <span className="text-sm text-muted">
+              {fill(copy.seated, { seated: n(diners.length - unseated.length), total: n(diners.length) })}
+            </span>
+          </div>
+
+          {importFailed ? <div className="mt-3 text-sm font-medium text-rose-600">{copy.importFailed}</div> : null}
+
+          <p className={cx("mt-3 text-sm", changed ? "font-semibold text-amber-700" : "text-muted")}>
+            {published?.publishedAt
+              ? fill(copy.published, { date: formatTimestamp(new Date(published.publishedAt), lang) })
+              : copy.unpublished}
+            {changed ? ` ${copy.changed}` : null}
+          </p>
+
+          <section className="mt-8">
+            <h3 className="text-xl font-semibold">{copy.warningsTitle}</h3>
+            {warnings.length === 0 ? (
+              <p className="mt-3 text-sm text-muted">{copy.noWarnings}</p>
+            ) : (
+              <ul className="mt-3 space-y-1.5 text-sm">
+                {warnings.map((w, i) => (
+                  <li key={`${w.kind}-${w.diners.join("-")}-${i}`} className="flex items-start gap-2 text-amber-700">
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                    {fill(copy.warnings[w.kind], {
+                      a: nameOf(w.diners[0] ?? ""),
+                      b: nameOf(w.diners[1] ?? ""),
+                      table: plan.tables.find((t) => t.id === w.table)?.name ?? "",
+                    })}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <div className="mt-10 grid grid-cols-1 gap-6 lg:grid-cols-[18rem_1fr]">
+            <section
+              {...dropZone(null)}
+              className={cx(
+                "h-fit rounded-3xl border border-dashed p-4",
+                dropTarget === "" ? "border-accent bg-accent/10" : "border-ink/20 bg-surface/50"
+              )}
+            >
+              <h3 className="font-semibold">{copy.unseated}</h3>
+              {diners.length === 0 ? (
+                <p className="mt-2 text-sm text-muted">{copy.noDiners}</p>
+              ) : unseated.length === 0 ? (
+                <p className="mt-2 text-sm text-muted">{copy.allSeated}</p>
+              ) : (
+                <ul className="mt-3 space-y-2">{unseated.map((d) => chip(d.id, null))}</ul>
+              )}
+            </section>
+
+            <div>
+              {plan.tables.length === 0 ? <p className="text-sm text-muted">{copy.noTables}</p> : null}
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                {plan.tables.map((table) => {
+                  const over = table.diners.length > table.seats;
+                  return (
+                    <section
+                      key={table.id}
+                      {...dropZone(table.id)}
+                      className={cx(
+                        "rounded-3xl border p-4 shadow-sm",
+                        dropTarget === table.id ? "border-accent bg-accent/10" : "border-ink/10 bg-surface/70"
+                      )}
+                    >
+                      <div className="flex items-end gap-2">
+                        <label className="block flex-1">
+                          <span className="text-xs font-semibold text-muted">{copy.tableName}</span>
+                          <input
+                            value={table.name}
+                            onChange={(e) => setPlan(updateTable(plan, table.id, { name: e.target.value }))}
+                            className={cx(input, "mt-1")}
+                          />
+                        </label>
+                        <label className="block w-20">
+                          <span className="text-xs font-semibold text-muted">{copy.seats}</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={40}
+                            value={table.seats}
+                            onChange={(e) => {
+                              const v = Number(e.target.value);
+                              if (Number.isFinite(v)) setPlan(updateTable(plan, table.id, { seats: Math.min(40, Math.max(1, Math.round(v))) }));
+                            }}
+                            className={cx(input, "mt-1")}
+                          />
+                        </label>
+                        <button
+                          type="button"
+                          onClick={() => setPlan(removeTable(plan, table.id))}
+                          aria-label={copy.removeTable}
+                          title={copy.removeTable}
+                          className="grid h-9 w-9 shrink-0 place-items-center rounded-xl text-muted hover:bg-ink/5 hover:text-rose-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <div className={cx("mt-2 text-xs font-semibold", over ? "text-rose-700" : "text-subtle")}>
+                        {fill(copy.occupancy, { count: n(table.diners.length), seats: n(table.seats) })}
+                      </div>
+                      {table.diners.length ? (
+                        <ul className="mt-3 space-y-2">{table.diners.map((id) => chip(id, table.id))}</ul>
+                      ) : (
+                        <p className="mt-3 rounded-2xl border border-dashed border-ink/15 p-3 text-center text-xs text-subtle">{copy.dropHere}</p>
+                      )}
+                    </section>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+
+          <section className="mt-10">
+            <h3 className="text-xl font-semibold">{copy.constraintsTitle}</h3>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              {guestSelect(constraint.a, (a) => setConstraint((c) => ({ ...c, a })))}
+              <select
+                value={constraint.kind}
+                onChange={(e) => setConstraint((c) => ({ ...c, kind: e.target.value === "apart" ? "apart" : "together" }))}
+                className={cx(input, "sm:w-44")}
+              >
+                <option value="together">{copy.constraintKinds.together}</option>
+                <option value="apart">{copy.constraintKinds.apart}</option>
+              </select>
+              {guestSelect(constraint.b, (b) => setConstraint((c) => ({ ...c, b })))}
+              <button
+                type="button"
+                disabled={!constraint.a || !constraint.b || constraint.a === constraint.b}
+                onClick={() => {
+                  setPlan(addConstraint(plan, constraint));
+                  setConstraint(NEW_CONSTRAINT);
+                }}
+                className={cx(button, "disabled:opacity-50")}
+              >
+                <Plus className="h-4 w-4" />
+                {copy.addConstraint}
+              </button>
+            </div>
+            {plan.constraints.length === 0 ? (
+              <p className="mt-3 text-sm text-muted">{copy.noConstraints}</p>
+            ) : (
+              <ul className="mt-3 space-y-1.5 text-sm">
+                {plan.constraints.map((c, i) => (
+                  <li key={`${c.a}-${c.b}`} className="flex items-center gap-2">
+                    <span>
+                      <span className="font-semibold">{nameOf(c.a)}</span> · {copy.constraintKinds[c.kind]} ·{" "}
+                      <span className="font-semibold">{nameOf(c.b)}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setPlan(removeConstraint(plan, i))}
+                      aria-label={copy.removeConstraint}
+                      title={copy.removeConstraint}
+                      className="grid h-7 w-7 place-items-center rounded-lg text-muted hover:bg-ink/5 hover:text-rose-700"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      ) : null}
+    </div>
+  );
+}
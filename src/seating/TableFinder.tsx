@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Search, UtensilsCrossed } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill } from "../i18n";
+import type { SeatingCopy } from "../locales/schema";
+import type { SeatingAdapter, SeatingPlan } from "./types";
+import { findSeats, partySeats } from "./seating";
+
+export default function TableFinder({
+  adapter,
+  party,
+  date,
+  copy,
+  rtl,
+}: {
+  adapter: SeatingAdapter;
+  /** The guest's invitation token; their own party's tables are shown without searching. */
+  party: string;
+  date: string;
+  copy: SeatingCopy;
+  rtl: boolean;
+}) {
+  const [plan, setPlan] = useState<SeatingPlan | null | undefined>(undefined);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    let live = true;
+    adapter
+      .load()
+      .catch(() => null)
+      .then((p) => {
+        if (live) setPlan(p);
+      });
+    return () => {
+      live = false;
+    };
+  }, [adapter]);
+
+  const card = cx("rounded-3xl border border-ink/10 bg-surface/65 p-5 shadow-sm sm:p-6", rtl && "text-right");
+  const input =
+    "w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent";
+
+  if (plan === undefined) return <div className={cx(card, "text-sm text-muted")}>{copy.loading}</div>;
+
+  const published = plan?.publishedAt ? plan : null;
+  const mine = published ? partySeats(published, party) : [];
+  const matches = published ? findSeats(published, query) : [];
+
+  return (
+    <div className={card}>
+      <div className="flex items-start gap-3">
+        <div className="grid h-10 w-10 shrink-0 place-items-center rounded-2xl bg-gradient-to-br from-accent to-highlight text-on-ink shadow-sm">
+          <UtensilsCrossed className="h-5 w-5" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <div className="text-lg font-semibold">{copy.title}</div>
+          <p className="mt-1 text-sm text-muted">{fill(copy.intro, { date })}</p>
+        </div>
+      </div>
+
+      {!published ? (
+        <p className="mt-4 text-sm text-muted">{copy.pending}</p>
+      ) : (
+        <>
+          {mine.length ? (
+            <div className="mt-5 rounded-2xl border border-accent/20 bg-accent/10 p-4">
+              <div className="text-sm font-semibold text-accent-ink">{copy.yours}</div>
+              <ul className="mt-2 space-y-1 text-sm">
+                {mine.map((s) => (
+                  <li key={s.id}>
+                    <span className="font-semibold">{s.table.name}</span> <span className="text-muted">· {s.name}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          <label className="mt-5 block">
+            <span className="text-sm font-semibold">{copy.search}</span>
+            <span className="relative mt-2 block">
+              <Search className="pointer-events-none absolute start-3 top-1/2 h-4 w-4 -translate-y-1/2 text-subtle" />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={copy.placeholder}
+                autoComplete="off"
+                className={cx(input, "ps-9")}
+              />
+            </span>
+          </label>
+
+          {query.trim().length >= 2 ? (
+            matches.length ? (
+              <ul className="mt-3 divide-y divide-ink/5 text-sm" aria-live="polite">
+                {matches.map((s) => (
+                  <li key={s.id} className="flex items-baseline justify-between gap-3 py-2">
+                    <span>{s.name}</span>
+                    <span className="font-semibold">{s.table.name}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-3 text-sm text-muted" aria-live="polite">
+                {copy.noMatch}
+              </p>
+            )
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { API_BASE, readLocal, requestJson, writeLocal } from "../lib/api";
+import type { SeatingAdapter, SeatingPlan } from "./types";
+
+export function createLocalSeatingAdapter(storageKey = "wedding_seating"): SeatingAdapter {
+  return {
+    load: async () => readLocal<SeatingPlan>(storageKey),
+    publish: async (plan) => {
+      const saved = { ...plan, publishedAt: new Date().toISOString() };
+      writeLocal(storageKey, saved);
+      return saved;
+    },
+  };
+}
+
+export function createHttpSeatingAdapter(baseUrl: string): SeatingAdapter {
+  const url = `${baseUrl.replace(/\/$/, "")}/seating/plan`;
+  return {
+    load: () => requestJson<SeatingPlan>(url),
+    publish: async (plan) => {
+      const saved = await requestJson<SeatingPlan>(url, {
+        method: "PUT",
+        body: JSON.stringify({ ...plan, publishedAt: new Date().toISOString() }),
+      });
+      if (!saved) throw new Error(`PUT ${url} returned no body`);
+      return saved;
+    },
+  };
+}
+
+export function defaultSeatingAdapter(): SeatingAdapter {
+  return API_BASE ? createHttpSeatingAdapter(API_BASE) : createLocalSeatingAdapter();
+}
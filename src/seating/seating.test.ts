@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { addConstraint, addTable, findSeats, normalizeName, parseSeating, seatDiner, seatingToJson, seatingWarnings } from "./seating";
+import type { Diner, SeatingPlan } from "./types";
+
+const diners: Diner[] = [
+  { id: "sara#0", party: "sara", name: "Sara Ahmadi" },
+  { id: "sara#1", party: "sara", name: "Dariush Ahmadi" },
+  { id: "jens#0", party: "jens", name: "Jens Müller" },
+  { id: "mina#0", party: "mina", name: "مینا یوسفی" },
+];
+
+function twoTables(seats = 2): SeatingPlan {
+  return addTable(addTable({ tables: [], constraints: [], names: {} }, "Aegean", seats), "Olive", seats);
+}
+
+function seat(plan: SeatingPlan, at: Record<string, string>) {
+  return Object.entries(at).reduce((p, [diner, table]) => seatDiner(p, diner, table), plan);
+}
+
+describe("seatingWarnings", () => {
+  it("is quiet for a plan that keeps every rule", () => {
+    const plan = addConstraint(seat(twoTables(), { "sara#0": "table-1", "sara#1": "table-1" }), { kind: "together", a: "sara#0", b: "sara#1" });
+    expect(seatingWarnings(plan, diners)).toEqual([]);
+  });
+
+  it("flags a table with more diners than seats", () => {
+    const plan = seat(twoTables(2), { "sara#0": "table-1", "sara#1": "table-1", "jens#0": "table-1" });
+    expect(seatingWarnings(plan, diners)).toEqual([{ kind: "overCapacity", diners: ["sara#0", "sara#1", "jens#0"], table: "table-1" }]);
+  });
+
+  it("flags a together pair split across tables, but not before both are seated", () => {
+    const rule = { kind: "together" as const, a: "sara#0", b: "jens#0" };
+    const half = addConstraint(seat(twoTables(), { "sara#0": "table-1" }), rule);
+    expect(seatingWarnings(half, diners)).toEqual([]);
+    const split = seatDiner(half, "jens#0", "table-2");
+    expect(seatingWarnings(split, diners)).toEqual([{ kind: "together", diners: ["sara#0", "jens#0"] }]);
+  });
+
+  it("flags an apart pair at the same table", () => {
+    const plan = addConstraint(seat(twoTables(), { "jens#0": "table-2", "mina#0": "table-2" }), { kind: "apart", a: "jens#0", b: "mina#0" });
+    expect(seatingWarnings(plan, diners)).toEqual([{ kind: "apart", diners: ["jens#0", "mina#0"], table: "table-2" }]);
+  });
+
+  it("flags each guest who is seated or constrained but no longer attending, once", () => {
+    const plan = addConstraint(seat(twoTables(), { "gone#0": "table-1" }), { kind: "apart", a: "gone#0", b: "sara#0" });
+    expect(seatingWarnings(plan, diners)).toEqual([{ kind: "gone", diners: ["gone#0"], table: "table-1" }]);
+  });
+});
+
+describe("seatingToJson / parseSeating", () => {
+  const plan: SeatingPlan = {
+    ...addConstraint(seat(twoTables(8), { "sara#0": "table-1", "mina#0": "table-2" }), { kind: "apart", a: "sara#0", b: "mina#0" }),
+    names: { "sara#0": "Sara Ahmadi", "mina#0": "مینا یوسفی" },
+  };
+
+  it("round-trips a plan unchanged", () => {
+    const json = seatingToJson(plan, new Date("2026-05-01T10:00:00Z"));
+    expect(JSON.parse(json)).toMatchObject({ kind: "seating", exportedAt: "2026-05-01T10:00:00.000Z" });
+    expect(parseSeating(json)).toEqual(plan);
+  });
+
+  it("drops the publish time: an imported plan is a draft", () => {
+    expect(parseSeating(seatingToJson({ ...plan, publishedAt: "2026-05-02T00:00:00.000Z" }))).toEqual(plan);
+  });
+
+  it("rejects anything that is not a well-formed snapshot", () => {
+    const snapshot = JSON.parse(seatingToJson(plan)) as Record<string, unknown>;
+    const variant = (patch: Record<string, unknown>) => JSON.stringify({ ...snapshot, ...patch });
+    expect(() => parseSeating("{")).toThrow(SyntaxError);
+    expect(() => parseSeating(variant({ kind: "rooms" }))).toThrow("Not a seating snapshot");
+    expect(() => parseSeating(variant({ tables: [{ id: "table-1", name: "A", seats: 0, diners: [] }] }))).toThrow("malformed tables");
+    expect(() => parseSeating(variant({ tables: [{ id: "table-1", name: "A", seats: 8, diners: [1] }] }))).toThrow("malformed tables");
+    expect(() => parseSeating(variant({ constraints: [{ kind: "near", a: "x", b: "y" }] }))).toThrow("malformed constraints");
+    expect(() => parseSeating(variant({ names: { "sara#0": 7 } }))).toThrow("malformed names");
+  });
+
+  it("rejects a table listed twice or a guest seated at two tables", () => {
+    const table = { id: "table-1", name: "A", seats: 8, diners: ["sara#0"] };
+    const base = JSON.parse(seatingToJson(plan)) as Record<string, unknown>;
+    expect(() => parseSeating(JSON.stringify({ ...base, tables: [table, { ...table, diners: [] }] }))).toThrow('table "table-1" twice');
+    expect(() => parseSeating(JSON.stringify({ ...base, tables: [table, { ...table, id: "table-2" }] }))).toThrow('"sara#0" at more than one table');
+  });
+});
+
+describe("findSeats", () => {
+  const plan: SeatingPlan = {
+    ...seat(twoTables(8), { "jens#0": "table-1", "mina#0": "table-2", "sara#0": "table-2" }),
+    names: { "jens#0": "Jens Müller", "mina#0": "مینا یوسفی", "sara#0": "Sara Ahmadi" },
+  };
+  const found = (q: string) => findSeats(plan, q).map((s) => [s.name, s.table.name]);
+
+  it("ignores case and diacritics", () => {
+    expect(found("MULLER")).toEqual([["Jens Müller", "Aegean"]]);
+    expect(found("sara a")).toEqual([["Sara Ahmadi", "Olive"]]);
+  });
+
+  it("matches Arabic-script variants of Persian letters", () => {
+    // Arabic yeh (ي) typed for Persian yeh (ی); a zero-width non-joiner reads as a space.
+    expect(found("مينا")).toEqual([["مینا یوسفی", "Olive"]]);
+    expect(normalizeName("مينا\u200cيوسفي")).toBe(normalizeName("مینا یوسفی"));
+  });
+
+  it("needs at least two characters", () => {
+    expect(found("j")).toEqual([]);
+  });
+});
@@ -0,0 +1,218 @@
+import type { Guest } from "../guests/types";
+import type { RsvpResponse } from "../rsvp/types";
+import type { Diner, SeatingConstraint, SeatingPlan, SeatingWarning, Table } from "./types";
+
+export const EMPTY_SEATING: SeatingPlan = { tables: [], constraints: [], names: {} };
+
+export const DEFAULT_TABLE_SEATS = 10;
+
+/** Everyone attending who is invited to the wedding dinner; responses under unlisted keys count too. */
+export function dinersFor(responses: Record<string, RsvpResponse>, guests: Guest[]): Diner[] {
+  const byToken = new Map(guests.map((g) => [g.token, g]));
+  return Object.entries(responses)
+    .filter(([key, r]) => r.attending && (byToken.get(key)?.events.includes("wedding") ?? true))
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([key, r]) =>
+      r.names.map((name, i) => ({ id: `${key}#${i}`, party: key, name: name.trim() || `${byToken.get(key)?.name ?? key} ${i + 1}` }))
+    );
+}
+
+export function tableOf(plan: SeatingPlan, dinerId: string): Table | null {
+  return plan.tables.find((t) => t.diners.includes(dinerId)) ?? null;
+}
+
+export function addTable(plan: SeatingPlan, name: string, seats = DEFAULT_TABLE_SEATS): SeatingPlan {
+  const next = Math.max(0, ...plan.tables.map((t) => Number(t.id.replace(/^table-/, "")) || 0)) + 1;
+  return { ...plan, tables: [...plan.tables, { id: `table-${next}`, name, seats, diners: [] }] };
+}
+
+export function updateTable(plan: SeatingPlan, id: string, patch: Partial<Pick<Table, "name" | "seats">>): SeatingPlan {
+  return { ...plan, tables: plan.tables.map((t) => (t.id === id ? { ...t, ...patch } : t)) };
+}
+
+/** Removes a table; whoever sat there is unseated. */
+export function removeTable(plan: SeatingPlan, id: string): SeatingPlan {
+  return { ...plan, tables: plan.tables.filter((t) => t.id !== id) };
+}
+
+/** Moves a diner to `tableId`, or off every table when it is null. */
+export function seatDiner(plan: SeatingPlan, dinerId: string, tableId: string | null): SeatingPlan {
+  return {
+    ...plan,
+    tables: plan.tables.map((t) => {
+      const diners = t.diners.filter((d) => d !== dinerId);
+      return { ...t, diners: t.id === tableId ? [...diners, dinerId] : diners };
+    }),
+  };
+}
+
+const samePair = (c: SeatingConstraint, a: string, b: string) => (c.a === a && c.b === b) || (c.a === b && c.b === a);
+
+/** Adds a constraint, replacing any other one between the same two guests. */
+export function addConstraint(plan: SeatingPlan, constraint: SeatingConstraint): SeatingPlan {
+  if (constraint.a === constraint.b) return plan;
+  const rest = plan.constraints.filter((c) => !samePair(c, constraint.a, constraint.b));
+  return { ...plan, constraints: [...rest, constraint] };
+}
+
+export function removeConstraint(plan: SeatingPlan, index: number): SeatingPlan {
+  return { ...plan, constraints: plan.constraints.filter((_, i) => i !== index) };
+}
+
+/**
+ * What the organizer should look at: tables over capacity, broken constraints, and guests who are seated
+ * or constrained but no longer attending. A "together" pair only warns once both are seated.
+ */
+export function seatingWarnings(plan: SeatingPlan, diners: Diner[]): SeatingWarning[] {
+  const attending = new Set(diners.map((d) => d.id));
+  const warnings: SeatingWarning[] = [];
+
+  for (const t of plan.tables) {
+    if (t.diners.length > t.seats) warnings.push({ kind: "overCapacity", diners: t.diners, table: t.id });
+  }
+
+  const mentioned = new Set([...plan.tables.flatMap((t) => t.diners), ...plan.constraints.flatMap((c) => [c.a, c.b])]);
+  for (const d of mentioned) {
+    if (!attending.has(d)) warnings.push({ kind: "gone", diners: [d], table: tableOf(plan, d)?.id });
+  }
+
+  for (const c of plan.constraints) {
+    if (!attending.has(c.a) || !attending.has(c.b)) continue;
+    const a = tableOf(plan, c.a);
+    const b = tableOf(plan, c.b);
+    if (c.kind === "together" && a && b && a !== b) warnings.push({ kind: "together", diners: [c.a, c.b] });
+    if (c.kind === "apart" && a && a === b) warnings.push({ kind: "apart", diners: [c.a, c.b], table: a.id });
+  }
+  return warnings;
+}
+
+/** `plan` with the current name of everyone it mentions, keeping the last known name of anyone who left. */
+export function withNames(plan: SeatingPlan, diners: Diner[]): SeatingPlan {
+  const current = new Map(diners.map((d) => [d.id, d.name]));
+  const ids = [...plan.tables.flatMap((t) => t.diners), ...plan.constraints.flatMap((c) => [c.a, c.b])];
+  return { ...plan, names: Object.fromEntries(ids.map((id) => [id, current.get(id) ?? plan.names[id] ?? id])) };
+}
+
+/** Whether a published plan still matches `b`, ignoring when it was published. */
+export function sameSeating(a: SeatingPlan, b: SeatingPlan) {
+  const shape = (p: SeatingPlan) => JSON.stringify({ tables: p.tables, constraints: p.constraints });
+  return shape(a) === shape(b);
+}
+
+/** Case-, accent- and script-variant-insensitive form for matching names typed by guests. */
+export function normalizeName(s: string) {
+  return s
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[يى]/g, "ی")
+    .replace(/ك/g, "ک")
+    .replace(/\u200c/g, " ")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function allSeats(plan: SeatingPlan) {
+  return plan.tables
+    .flatMap((table) => table.diners.map((id) => ({ id, name: plan.names[id] ?? id, table })))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Seated guests whose name contains `query`, with their table, alphabetically. */
+export function findSeats(plan: SeatingPlan, query: string) {
+  const q = normalizeName(query);
+  return q.length < 2 ? [] : allSeats(plan).filter((s) => normalizeName(s.name).includes(q));
+}
+
+/** Where everyone in one party sits. */
+export function partySeats(plan: SeatingPlan, party: string) {
+  return allSeats(plan).filter((s) => s.id.startsWith(`${party}#`));
+}
+
+export function seatingToJson(plan: SeatingPlan, now = new Date()) {
+  return JSON.stringify({ kind: "seating", exportedAt: now.toISOString(), ...plan }, null, 2);
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+const isTable = (t: unknown): t is Table =>
+  isRecord(t) &&
+  typeof t.id === "string" &&
+  typeof t.name === "string" &&
+  typeof t.seats === "number" &&
+  Number.isInteger(t.seats) &&
+  t.seats >= 1 &&
+  Array.isArray(t.diners) &&
+  t.diners.every((d) => typeof d === "string");
+
+const isConstraint = (c: unknown): c is SeatingConstraint =>
+  isRecord(c) && (c.kind === "together" || c.kind === "apart") && typeof c.a === "string" && typeof c.b === "string";
+
+/** Reads a snapshot written by `seatingToJson`; throws on anything else. */
+export function parseSeating(text: string): SeatingPlan {
+  const data: unknown = JSON.parse(text);
+  if (!isRecord(data) || data.kind !== "seating") throw new Error("Not a seating snapshot");
+  const { tables, constraints, names } = data;
+  if (!Array.isArray(tables) || !tables.every(isTable)) throw new Error("Snapshot has malformed tables");
+  if (!Array.isArray(constraints) || !constraints.every(isConstraint)) throw new Error("Snapshot has malformed constraints");
+  if (!isRecord(names) || !Object.values(names).every((n) => typeof n === "string")) throw new Error("Snapshot has malformed names");
+  const ids = new Set<string>();
+  const seated = new Set<string>();
+  for (const t of tables) {
+    if (ids.has(t.id)) throw new Error(`Snapshot lists table "${t.id}" twice`);
+    ids.add(t.id);
+    for (const d of t.diners) {
+      if (seated.has(d)) throw new Error(`Snapshot seats "${d}" at more than one table`);
+      seated.add(d);
+    }
+  }
+  return { tables, constraints, names: names as Record<string, string> };
+}
+
+export type SeatingPrintLabels = { title: string; byTable: string; byName: string; guest: string; table: string };
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+/** A standalone page to print for the venue: every table with its guests, then an alphabetical index. */
+export function seatingToHtml(plan: SeatingPlan, labels: SeatingPrintLabels, lang: string, rtl: boolean) {
+  const name = (id: string) => escapeHtml(plan.names[id] ?? id);
+  const tables = plan.tables
+    .map((t) => `<section><h3>${escapeHtml(t.name)}</h3><ol>${t.diners.map((d) => `<li>${name(d)}</li>`).join("")}</ol></section>`)
+    .join("\n");
+  const index = allSeats(plan)
+    .map((s) => `<tr><td>${escapeHtml(s.name)}</td><td>${escapeHtml(s.table.name)}</td></tr>`)
+    .join("\n");
+  return `<!doctype html>
+<html lang="${lang}" dir="${rtl ? "rtl" : "ltr"}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(labels.title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+.tables { columns: 3 14rem; column-gap: 2rem; }
+section { break-inside: avoid; margin-bottom: 1.5rem; }
+h3 { margin: 0 0 .25rem; border-bottom: 1px solid #999; }
+ol { margin: 0; padding-inline-start: 1.25rem; }
+table { border-collapse: collapse; width: 100%; }
+td, th { text-align: start; padding: .2rem .5rem; border-bottom: 1px solid #ddd; }
+.index { break-before: page; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(labels.title)}</h1>
+<h2>${escapeHtml(labels.byTable)}</h2>
+<div class="tables">
+${tables}
+</div>
+<div class="index">
+<h2>${escapeHtml(labels.byName)}</h2>
+<table><thead><tr><th>${escapeHtml(labels.guest)}</th><th>${escapeHtml(labels.table)}</th></tr></thead><tbody>
+${index}
+</tbody></table>
+</div>
+</body>
+</html>
+`;
+}
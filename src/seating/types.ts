@@ -0,0 +1,44 @@
+/** One attending guest at the wedding dinner. */
+export type Diner = {
+  /** `${party}#${index}`, the party's invitation token and the guest's place in its RSVP names. */
+  id: string;
+  party: string;
+  name: string;
+};
+
+export type Table = {
+  id: string;
+  name: string;
+  seats: number;
+  /** Diner ids, in the order they were seated. */
+  diners: string[];
+};
+
+export type SeatingConstraintKind = "together" | "apart";
+
+export type SeatingConstraint = {
+  kind: SeatingConstraintKind;
+  a: string;
+  b: string;
+};
+
+export type SeatingPlan = {
+  tables: Table[];
+  constraints: SeatingConstraint[];
+  /** Diner names as they were when the plan was saved, so guests and printouts don't need the RSVPs. */
+  names: Record<string, string>;
+  publishedAt?: string;
+};
+
+export type SeatingWarningKind = "overCapacity" | "together" | "apart" | "gone";
+
+export type SeatingWarning = {
+  kind: SeatingWarningKind;
+  diners: string[];
+  table?: string;
+};
+
+export type SeatingAdapter = {
+  load: () => Promise<SeatingPlan | null>;
+  publish: (plan: SeatingPlan) => Promise<SeatingPlan>;
+};
@@ -0,0 +1,90 @@
+import { LANGS, isRtl, langPath, localeTag, type Lang } from "./i18n";
+import { LOCALES } from "./locales";
+import { eventDateVars } from "./dates";
+import { EVENT } from "./event";
+import { buildPhotos } from "./photos/catalog";
+import { smartUrlSizing } from "./photos/remote";
+import type { Photo } from "./photos/types";
+
+/** Absolute origin for canonical, hreflang and Open Graph URLs; link previews ignore relative ones. */
+export const SITE_URL = import.meta.env.VITE_SITE_URL?.replace(/\/$/, "") || undefined;
+
+const SHARE_WIDTH = 1200;
+
+export type PageMeta = {
+  lang: Lang;
+  dir: "ltr" | "rtl";
+  title: string;
+  description: string;
+  url: string;
+  image: string;
+  imageAlt: string;
+  alternates: { lang: Lang; url: string }[];
+};
+
+function absolute(url: string) {
+  return SITE_URL ? new URL(url, `${SITE_URL}/`).href : url;
+}
+
+function shareImage(photo: Photo) {
+  const jpeg = photo.local?.variants.jpeg;
+  if (jpeg?.length) return (jpeg.find(([, w]) => w >= SHARE_WIDTH) ?? jpeg[jpeg.length - 1])[0];
+  // `sources` ends with the unsized original; ask the CDN for a preview-friendly width.
+  return smartUrlSizing(photo.sources[photo.sources.length - 1], SHARE_WIDTH);
+}
+
+export function documentTitle(lang: Lang) {
+  return `${EVENT.couple[lang]} · ${LOCALES[lang].title}`;
+}
+
+export function pageMeta(lang: Lang): PageMeta {
+  const t = LOCALES[lang];
+  const hero = buildPhotos(lang)[0];
+  return {
+    lang,
+    dir: isRtl(lang) ? "rtl" : "ltr",
+    title: documentTitle(lang),
+    description: `${t.location} · ${eventDateVars(lang).window}`,
+    url: absolute(langPath(lang)),
+    image: absolute(shareImage(hero)),
+    imageAlt: hero.title,
+    alternates: LANGS.map((l) => ({ lang: l, url: absolute(langPath(l)) })),
+  };
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** `<head>` markup for a prerendered page: title, description, hreflang alternates, Open Graph and Twitter tags. */
+export function headTags(meta: PageMeta) {
+  const t = LOCALES[meta.lang];
+  const tag = (name: string, attrs: Record<string, string>) =>
+    `<${name} ${Object.entries(attrs)
+      .map(([k, v]) => `${k}="${escapeHtml(v)}"`)
+      .join(" ")} />`;
+  const ogLocale = (l: Lang) => localeTag(l).replace("-", "_");
+
+  return [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    tag("meta", { name: "description", content: meta.description }),
+    tag("link", { rel: "canonical", href: meta.url }),
+    ...meta.alternates.map((a) => tag("link", { rel: "alternate", hreflang: a.lang, href: a.url })),
+    tag("link", { rel: "alternate", hreflang: "x-default", href: meta.alternates.find((a) => a.lang === "en")?.url ?? meta.url }),
+    tag("meta", { property: "og:type", content: "website" }),
+    tag("meta", { property: "og:site_name", content: EVENT.couple[meta.lang] }),
+    tag("meta", { property: "og:title", content: t.title }),
+    tag("meta", { property: "og:description", content: meta.description }),
+    tag("meta", { property: "og:url", content: meta.url }),
+    tag("meta", { property: "og:locale", content: ogLocale(meta.lang) }),
+    ...meta.alternates
+      .filter((a) => a.lang !== meta.lang)
+      .map((a) => tag("meta", { property: "og:locale:alternate", content: ogLocale(a.lang) })),
+    tag("meta", { property: "og:image", content: meta.image }),
+    tag("meta", { property: "og:image:alt", content: meta.imageAlt }),
+    tag("meta", { name: "twitter:card", content: "summary_large_image" }),
+    tag("meta", { name: "twitter:title", content: t.title }),
+    tag("meta", { name: "twitter:description", content: meta.description }),
+    tag("meta", { name: "twitter:image", content: meta.image }),
+  ].join("\n    ");
+}
@@ -0,0 +1,60 @@
+import { useSyncExternalStore } from "react";
+import { EVENT } from "../event";
+import { THEME_NAMES, type ThemeName } from "./tokens";
+
+type Listener = () => void;
+
+const STORAGE_KEY = "wedding_theme";
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+const listeners = new Set<Listener>();
+
+function isThemeName(v: unknown): v is ThemeName {
+  return typeof v === "string" && (THEME_NAMES as readonly string[]).includes(v);
+}
+
+/** The guest's manual choice, kept next to `wedding_lang`; null means follow the system. */
+export function savedTheme(): ThemeName | null {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    return isThemeName(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+}
+
+function systemTheme(): ThemeName {
+  return window.matchMedia?.(DARK_QUERY).matches ? "evening" : "day";
+}
+
+function subscribe(listener: Listener) {
+  listeners.add(listener);
+  const media = window.matchMedia?.(DARK_QUERY);
+  media?.addEventListener("change", listener);
+  return () => {
+    listeners.delete(listener);
+    media?.removeEventListener("change", listener);
+  };
+}
+
+export function chooseTheme(name: ThemeName) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, name);
+  } catch {
+    void 0;
+  }
+  listeners.forEach((l) => l());
+}
+
+/** Prerendered pages are always "day"; the browser switches on first render if needed. */
+export function useTheme(): ThemeName {
+  return useSyncExternalStore(
+    subscribe,
+    () => savedTheme() ?? systemTheme(),
+    () => "day"
+  );
+}
+
+export function useThemeTokens() {
+  return EVENT.theme[useTheme()];
+}
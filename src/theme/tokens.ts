@@ -0,0 +1,62 @@
+import type { CSSProperties } from "react";
+
+export const THEME_NAMES = ["day", "evening"] as const;
+
+export type ThemeName = (typeof THEME_NAMES)[number];
+
+/**
+ * One theme's colours, any CSS colour syntax. The flat ones become `--theme-*` custom properties that
+ * `src/index.css` maps onto Tailwind colours (`bg-page`, `text-ink`, `bg-surface/60`, …); the rest are read
+ * directly by the hero background and the SVG placeholder.
+ */
+export type ThemeTokens = {
+  /** Page background, also where the hero gradient starts. */
+  page: string;
+  /** Cards, chips and inputs; usually used translucent over the page. */
+  surface: string;
+  /** Headings, body text and primary buttons. */
+  ink: string;
+  /** Text on `ink` buttons. */
+  onInk: string;
+  muted: string;
+  subtle: string;
+  /** Current items, focus borders, timeline rails. */
+  accent: string;
+  /** Accent-coloured text, which needs more contrast than `accent`. */
+  accentInk: string;
+  highlight: string;
+  shadow: string;
+  /** Map water and land. */
+  sea: string;
+  land: string;
+  /** The rest of the hero's top-to-bottom gradient. */
+  gradient: [string, string];
+  /** Soft glows over the hero: left, right and top. */
+  glows: [string, string, string];
+  /** The sun and the smaller circle behind it in photo placeholders. */
+  sun: string;
+  blush: string;
+};
+
+export const THEME_VARS = [
+  "page",
+  "surface",
+  "ink",
+  "onInk",
+  "muted",
+  "subtle",
+  "accent",
+  "accentInk",
+  "highlight",
+  "shadow",
+  "sea",
+  "land",
+] as const satisfies readonly (keyof ThemeTokens)[];
+
+const kebab = (key: string) => key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+/** Inline style that puts a theme in effect for everything below it. */
+export function themeStyle(name: ThemeName, tokens: ThemeTokens): CSSProperties {
+  const vars = Object.fromEntries(THEME_VARS.map((k) => [`--theme-${kebab(k)}`, tokens[k]]));
+  return { ...vars, colorScheme: name === "evening" ? "dark" : "light" };
+}
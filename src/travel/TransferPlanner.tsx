@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bus, Send } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { TransfersAdminCopy } from "../locales/schema";
+import { formatDayTime, formatTimestamp } from "../dates";
+import { venueToUtc } from "../calendar/ics";
+import type { Guest } from "../guests/types";
+import { DIRECTIONS, type TransferOptions, type TransferPlan, type TravelAdapter, type TravelPlan } from "./types";
+import { DEFAULT_TRANSFER_OPTIONS, planTransfers, samePlan } from "./shuttles";
+
+const FIELDS: { key: keyof TransferOptions; label: "window" | "capacity" | "lead"; min: number; max: number; step: number }[] = [
+  { key: "windowMinutes", label: "window", min: 0, max: 360, step: 15 },
+  { key: "capacity", label: "capacity", min: 1, max: 60, step: 1 },
+  { key: "leadMinutes", label: "lead", min: 60, max: 360, step: 15 },
+];
+
+export default function TransferPlanner({
+  adapter,
+  guests,
+  copy,
+  lang,
+}: {
+  adapter: TravelAdapter;
+  guests: Guest[];
+  copy: TransfersAdminCopy;
+  lang: Lang;
+}) {
+  const [plans, setPlans] = useState<Record<string, TravelPlan> | null>(null);
+  const [published, setPublished] = useState<TransferPlan | null>(null);
+  const [options, setOptions] = useState<TransferOptions>(DEFAULT_TRANSFER_OPTIONS);
+  const [failed, setFailed] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    Promise.all([adapter.list(), adapter.loadTransfers()])
+      .then(([list, plan]) => {
+        if (!live) return;
+        setPlans(list);
+        setPublished(plan);
+        if (plan) setOptions(plan.options);
+      })
+      .catch(() => {
+        if (live) setFailed(true);
+      });
+    return () => {
+      live = false;
+    };
+  }, [adapter]);
+
+  const names = useMemo(() => Object.fromEntries(guests.map((g) => [g.token, g.name])), [guests]);
+  const plan = useMemo(() => (plans ? planTransfers(plans, names, options) : null), [plans, names, options]);
+
+  const publish = async () => {
+    if (!plan) return;
+    setPublishing(true);
+    try {
+      setPublished(await adapter.publishTransfers(plan));
+    } catch {
+      setFailed(true);
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const n = (v: number) => formatNumber(v, lang);
+  const when = (local: string) => formatDayTime(venueToUtc(local), lang);
+  const input =
+    "w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent";
+
+  return (
+    <div>
+      <h2 className="text-2xl font-semibold tracking-tight">{copy.title}</h2>
+      <p className="mt-2 max-w-2xl text-muted">{copy.subtitle}</p>
+
+      {failed ? <div className="mt-6 text-sm font-medium text-rose-600">{copy.loadFailed}</div> : null}
+      {!plan && !failed ? <div className="mt-6 text-sm text-muted">{copy.loading}</div> : null}
+
+      {plan ? (
+        <>
+          <div className="mt-6 flex flex-wrap items-end gap-3">
+            {FIELDS.map((f) => (
+              <label key={f.key} className="block w-44">
+                <span className="text-xs font-semibold text-muted">{copy[f.label]}</span>
+                <input
+                  type="number"
+                  min={f.min}
+                  max={f.max}
+                  step={f.step}
+                  value={options[f.key]}
+                  onChange={(e) => {
+                    const v = Number(e.target.value);
+                    if (Number.isFinite(v)) setOptions((o) => ({ ...o, [f.key]: Math.min(f.max, Math.max(f.min, v)) }));
+                  }}
+                  className={cx(input, "mt-1")}
+                />
+              </label>
+            ))}
+            <button
+              type="button"
+              onClick={() => void publish()}
+              disabled={publishing || plan.shuttles.length === 0}
+              className="inline-flex items-center gap-2 rounded-2xl bg-ink px-4 py-2.5 text-sm font-semibold text-on-ink shadow hover:bg-ink/85 disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              {publishing ? copy.publishing : copy.publish}
+            </button>
+          </div>
+
+          <p className={cx("mt-3 text-sm", published && !samePlan(published, plan) ? "font-semibold text-amber-700" : "text-muted")}>
+            {published?.publishedAt
+              ? fill(copy.published, { date: formatTimestamp(new Date(published.publishedAt), lang) })
+              : copy.unpublished}
+            {published && !samePlan(published, plan) ? ` ${copy.changed}` : null}
+          </p>
+
+          {DIRECTIONS.map((direction) => {
+            const shuttles = plan.shuttles.filter((s) => s.direction === direction);
+            return (
+              <section key={direction} className="mt-10">
+                <h3 className="text-xl font-semibold">{copy.directions[direction]}</h3>
+                {shuttles.length === 0 ? <p className="mt-3 text-sm text-muted">{copy.none}</p> : null}
+                <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {shuttles.map((s) => {
+                    const over = s.seats > options.capacity;
+                    return (
+                      <div key={s.id} className="rounded-3xl border border-ink/10 bg-surface/70 p-4 shadow-sm">
+                        <div className="flex items-center gap-2 font-semibold">
+                          <Bus className="h-4 w-4" />
+                          {fill(copy.shuttle, { n: n(s.number) })}
+                        </div>
+                        <div className="mt-1 text-sm text-muted">{fill(copy.pickup, { time: when(s.pickup) })}</div>
+                        <div className={cx("mt-1 text-xs font-semibold", over ? "text-rose-700" : "text-subtle")}>
+                          {fill(copy.seats, { seats: n(s.seats), capacity: n(options.capacity) })}
+                          {over ? ` · ${copy.overCapacity}` : null}
+                        </div>
+                        <ul className="mt-3 space-y-1.5 text-sm">
+                          {s.riders.map((r) => (
+                            <li key={r.key} className="flex flex-wrap items-baseline justify-between gap-x-2">
+                              <span>
+                                <span className="font-semibold">{r.name}</span> <span className="text-subtle">×{n(r.passengers)}</span>
+                              </span>
+                              <span className="text-xs text-muted">
+                                <span dir="ltr">{r.flight}</span> · {when(r.time)}
+                                {r.airport === "IST" ? ` · ${copy.connection}` : null}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })}
+        </>
+      ) : null}
+    </div>
+  );
+}
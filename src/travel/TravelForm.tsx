@@ -0,0 +1,285 @@
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import { Bus, Pencil, Plane } from "lucide-react";
+import { cx } from "../lib/cx";
+import { fill, formatNumber, type Lang } from "../i18n";
+import type { TravelCopy } from "../locales/schema";
+import { formatDayTime } from "../dates";
+import { venueToUtc } from "../calendar/ics";
+import { AIRPORTS, DIRECTIONS, type Direction, type TransferPlan, type TravelAdapter, type TravelError, type TravelPlan } from "./types";
+import { normalizeTravel, validateTravel } from "./validate";
+import { shuttleFor } from "./shuttles";
+
+type Mode = "loading" | "form" | "saved";
+
+const NEW_LEG = { airport: "BJV", flight: "", time: "" } as const;
+
+export default function TravelForm({
+  adapter,
+  storageKey,
+  maxParty,
+  copy,
+  lang,
+  rtl,
+}: {
+  adapter: TravelAdapter;
+  storageKey: string;
+  maxParty: number;
+  copy: TravelCopy;
+  lang: Lang;
+  rtl: boolean;
+}) {
+  const empty = useMemo<TravelPlan>(() => ({ passengers: maxParty, arrival: { ...NEW_LEG }, departure: { ...NEW_LEG } }), [maxParty]);
+
+  const [mode, setMode] = useState<Mode>("loading");
+  const [saved, setSaved] = useState<TravelPlan | null>(null);
+  const [transfers, setTransfers] = useState<TransferPlan | null>(null);
+  const [draft, setDraft] = useState<TravelPlan>(empty);
+  const [errors, setErrors] = useState<TravelError[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let live = true;
+    Promise.all([adapter.load(storageKey).catch(() => null), adapter.loadTransfers().catch(() => null)]).then(([p, plan]) => {
+      if (!live) return;
+      setSaved(p);
+      setTransfers(plan);
+      setDraft(p ?? empty);
+      setMode(p ? "saved" : "form");
+    });
+    return () => {
+      live = false;
+    };
+  }, [adapter, storageKey, empty]);
+
+  const sizes = useMemo(() => Array.from({ length: maxParty }, (_, i) => i + 1), [maxParty]);
+
+  const update = (patch: Partial<TravelPlan>) => {
+    setDraft((d) => ({ ...d, ...patch }));
+    setErrors([]);
+  };
+
+  const submit = async (e: FormEvent) => {
+    e.preventDefault();
+    const found = validateTravel(draft, maxParty);
+    setErrors(found);
+    if (found.length) return;
+
+    setSubmitting(true);
+    setFailed(false);
+    try {
+      const p = await adapter.submit(storageKey, normalizeTravel(draft));
+      setSaved(p);
+      setDraft(p);
+      setMode("saved");
+    } catch {
+      setFailed(true);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const card = cx("rounded-3xl border border-ink/10 bg-surface/65 p-5 shadow-sm sm:p-6", rtl && "text-right");
+  const input =
+    "w-full rounded-2xl border border-ink/10 bg-surface/80 px-3 py-2 text-sm shadow-sm outline-none focus:border-accent";
+  const choice = (on: boolean) =>
+    cx(
+      "rounded-2xl border px-4 py-2 text-sm font-semibold shadow-sm",
+      on ? "border-ink bg-ink text-on-ink" : "border-ink/10 bg-surface/70 text-ink hover:bg-surface"
+    );
+  const errorText = (k: TravelError) =>
+    errors.includes(k) ? <div className="mt-1 text-xs font-medium text-rose-600">{copy.errors[k]}</div> : null;
+  const when = (local: string) => formatDayTime(venueToUtc(local), lang);
+
+  const pickup = (direction: Direction) => {
+    if (!saved?.[direction]) return null;
+    const shuttle = transfers ? shuttleFor(transfers, storageKey, direction) : null;
+    if (!shuttle) return <div className="text-sm text-muted">{copy.pickupPending}</div>;
+    const others = shuttle.riders.filter((r) => r.key !== storageKey).map((r) => r.name);
+    return (
+      <div className="text-sm">
+        <div className="font-semibold">{fill(copy.pickup[direction], { n: formatNumber(shuttle.number, lang), time: when(shuttle.pickup) })}</div>
+        {others.length ? <div className="mt-0.5 text-muted">{fill(copy.sharing, { names: others.join(", ") })}</div> : null}
+      </div>
+    );
+  };
+
+  if (mode === "loading") {
+    return <div className={cx(card, "text-sm text-muted")}>{copy.loading}</div>;
+  }
+
+  if (mode === "saved" && saved) {
+    return (
+      <div className={card}>
+        <div className="flex items-start gap-3">
+          <div className="grid h-10 w-10 shrink-0 place-items-center rounded-2xl bg-gradient-to-br from-accent to-highlight text-on-ink shadow-sm">
+            <Plane className="h-5 w-5" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <div className="text-lg font-semibold">{copy.saved}</div>
+            <div className="mt-1 text-sm text-muted">
+              {copy.passengers}: {formatNumber(saved.passengers, lang)}
+            </div>
+            <dl className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {DIRECTIONS.map((d) => {
+                const leg = saved[d];
+                return (
+                  <div key={d} className="rounded-2xl border border-ink/10 bg-surface/60 p-3">
+                    <dt className="text-xs font-semibold uppercase tracking-wide text-subtle">{copy.legs[d]}</dt>
+                    <dd className="mt-1 text-sm text-muted">
+                      {leg ? (
+                        <>
+                          <span dir="ltr" className="font-semibold text-ink">
+                            {leg.flight}
+                          </span>
+                          {` · ${when(leg.time)} · ${copy.airports[leg.airport]}`}
+                        </>
+                      ) : (
+                        copy.noShuttle
+                      )}
+                    </dd>
+                  </div>
+                );
+              })}
+            </dl>
+          </div>
+        </div>
+
+        {saved.arrival || saved.departure ? (
+          <div className="mt-5 rounded-2xl border border-accent/20 bg-accent/10 p-4">
+            <div className="flex items-center gap-2 text-sm font-semibold text-accent-ink">
+              <Bus className="h-4 w-4" />
+              {copy.pickupTitle}
+            </div>
+            <div className="mt-2 space-y-2">
+              {DIRECTIONS.map((d) => (
+                <div key={d}>{pickup(d)}</div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        <div className={cx("mt-4 flex", rtl && "justify-end")}>
+          <button type="button" onClick={() => setMode("form")} className={choice(false)}>
+            <Pencil className="me-2 inline h-4 w-4" />
+            {copy.edit}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} noValidate className={cx(card, "space-y-5")}>
+      <div>
+        <div className="text-lg font-semibold">{copy.title}</div>
+        <p className="mt-1 text-sm text-muted">{copy.intro}</p>
+      </div>
+
+      <label className="block">
+        <span className="text-sm font-semibold">{copy.passengers}</span>
+        <select
+          value={draft.passengers}
+          onChange={(e) => update({ passengers: Number(e.target.value) })}
+          className={cx(input, "mt-2 sm:w-40")}
+          aria-invalid={errors.includes("passengers")}
+        >
+          {sizes.map((n) => (
+            <option key={n} value={n}>
+              {formatNumber(n, lang)}
+            </option>
+          ))}
+        </select>
+        {errorText("passengers")}
+      </label>
+
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+        {DIRECTIONS.map((d) => {
+          const leg = draft[d];
+          return (
+            <fieldset key={d} className="space-y-3 rounded-2xl border border-ink/10 bg-surface/50 p-4">
+              <legend className="px-1 text-sm font-semibold">{copy.legs[d]}</legend>
+              <label className="flex cursor-pointer items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!leg}
+                  onChange={(e) => update({ [d]: e.target.checked ? { ...NEW_LEG } : null })}
+                  className="h-4 w-4 accent-accent"
+                />
+                {copy.needShuttle[d]}
+              </label>
+              {leg ? (
+                <>
+                  <div className={cx("flex flex-wrap gap-2", rtl && "justify-end")}>
+                    {AIRPORTS.map((a) => (
+                      <button
+                        key={a}
+                        type="button"
+                        aria-pressed={leg.airport === a}
+                        onClick={() => update({ [d]: { ...leg, airport: a } })}
+                        className={choice(leg.airport === a)}
+                      >
+                        {copy.airports[a]}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-muted">{copy.flight}</span>
+                    <input
+                      value={leg.flight}
+                      onChange={(e) => update({ [d]: { ...leg, flight: e.target.value } })}
+                      placeholder={copy.flightPlaceholder}
+                      dir="ltr"
+                      autoCapitalize="characters"
+                      aria-invalid={errors.includes("flight")}
+                      className={cx(input, "mt-1")}
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs font-semibold text-muted">{copy.time[d]}</span>
+                    <input
+                      type="datetime-local"
+                      value={leg.time}
+                      onChange={(e) => update({ [d]: { ...leg, time: e.target.value } })}
+                      dir="ltr"
+                      aria-invalid={errors.includes("time") || errors.includes("order")}
+                      className={cx(input, "mt-1")}
+                    />
+                  </label>
+                </>
+              ) : null}
+            </fieldset>
+          );
+        })}
+      </div>
+      {errorText("flight")}
+      {errorText("time")}
+      {errorText("order")}
+
+      {failed ? <div className="text-sm font-medium text-rose-600">{copy.submitFailed}</div> : null}
+
+      <div className={cx("flex flex-wrap gap-2", rtl && "justify-end")}>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="rounded-2xl bg-ink px-5 py-3 text-sm font-semibold text-on-ink shadow hover:bg-ink/85 disabled:opacity-60"
+        >
+          {submitting ? copy.saving : saved ? copy.update : copy.submit}
+        </button>
+        {saved ? (
+          <button
+            type="button"
+            onClick={() => {
+              setDraft(saved);
+              setErrors([]);
+              setMode("saved");
+            }}
+            className={choice(false)}
+          >
+            {copy.cancel}
+          </button>
+        ) : null}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,51 @@
+import { API_BASE, listLocal, readLocal, requestJson, writeLocal } from "../lib/api";
+import type { TransferPlan, TravelAdapter, TravelPlan } from "./types";
+
+export function createLocalTravelAdapter(prefix = "wedding_travel"): TravelAdapter {
+  const transfersKey = "wedding_transfers";
+  return {
+    load: async (key) => readLocal<TravelPlan>(`${prefix}:${key}`),
+    submit: async (key, plan) => {
+      const saved = { ...plan, updatedAt: new Date().toISOString() };
+      writeLocal(`${prefix}:${key}`, saved);
+      return saved;
+    },
+    list: async () => listLocal<TravelPlan>(prefix),
+    loadTransfers: async () => readLocal<TransferPlan>(transfersKey),
+    publishTransfers: async (plan) => {
+      const saved = { ...plan, publishedAt: new Date().toISOString() };
+      writeLocal(transfersKey, saved);
+      return saved;
+    },
+  };
+}
+
+export function createHttpTravelAdapter(baseUrl: string): TravelAdapter {
+  const base = baseUrl.replace(/\/$/, "");
+  const url = (key: string) => `${base}/travel/${encodeURIComponent(key)}`;
+  return {
+    load: (key) => requestJson<TravelPlan>(url(key)),
+    submit: async (key, plan) => {
+      const saved = await requestJson<TravelPlan>(url(key), {
+        method: "PUT",
+        body: JSON.stringify({ ...plan, updatedAt: new Date().toISOString() }),
+      });
+      if (!saved) throw new Error(`PUT ${url(key)} returned no body`);
+      return saved;
+    },
+    list: async () => (await requestJson<Record<string, TravelPlan>>(`${base}/travel`)) ?? {},
+    loadTransfers: () => requestJson<TransferPlan>(`${base}/transfers/plan`),
+    publishTransfers: async (plan) => {
+      const saved = await requestJson<TransferPlan>(`${base}/transfers/plan`, {
+        method: "PUT",
+        body: JSON.stringify({ ...plan, publishedAt: new Date().toISOString() }),
+      });
+      if (!saved) throw new Error(`PUT ${base}/transfers/plan returned no body`);
+      return saved;
+    },
+  };
+}
+
+export function defaultTravelAdapter(): TravelAdapter {
+  return API_BASE ? createHttpTravelAdapter(API_BASE) : createLocalTravelAdapter();
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { groupShuttles, planTransfers } from "./shuttles";
+import type { Rider, TransferOptions, TravelPlan } from "./types";
+
+const options: TransferOptions = { windowMinutes: 60, capacity: 8, leadMinutes: 180 };
+
+const rider = (key: string, time: string, passengers = 2): Rider => ({
+  key,
+  name: key,
+  passengers,
+  airport: "BJV",
+  flight: `TK ${key.length}`,
+  time,
+});
+
+const keys = (shuttles: ReturnType<typeof groupShuttles>) => shuttles.map((s) => s.riders.map((r) => r.key));
+
+describe("groupShuttles", () => {
+  it("shares a shuttle up to exactly the window after the first flight", () => {
+    const shuttles = groupShuttles(
+      [rider("a", "2026-05-31T12:00"), rider("b", "2026-05-31T13:00"), rider("c", "2026-05-31T13:01")],
+      "arrival",
+      options
+    );
+    expect(keys(shuttles)).toEqual([["a", "b"], ["c"]]);
+  });
+
+  it("opens a new shuttle when the vehicle is full", () => {
+    const shuttles = groupShuttles(
+      [rider("a", "2026-05-31T12:00", 4), rider("b", "2026-05-31T12:10", 4), rider("c", "2026-05-31T12:20", 1)],
+      "arrival",
+      options
+    );
+    expect(keys(shuttles)).toEqual([["a", "b"], ["c"]]);
+    expect(shuttles.map((s) => s.seats)).toEqual([8, 1]);
+    expect(shuttles.map((s) => s.number)).toEqual([1, 2]);
+  });
+
+  it("gives a party larger than a vehicle a shuttle of its own", () => {
+    const shuttles = groupShuttles(
+      [rider("big", "2026-05-31T12:00", 10), rider("small", "2026-05-31T12:05", 1)],
+      "arrival",
+      options
+    );
+    expect(keys(shuttles)).toEqual([["big"], ["small"]]);
+    expect(shuttles[0].seats).toBe(10);
+  });
+
+  it("picks arrivals up when the last flight in the batch lands", () => {
+    const [shuttle] = groupShuttles([rider("b", "2026-05-31T12:40"), rider("a", "2026-05-31T12:00")], "arrival", options);
+    expect(shuttle.riders.map((r) => r.key)).toEqual(["a", "b"]);
+    expect(shuttle.pickup).toBe("2026-05-31T12:40");
+  });
+
+  it("leaves the resort the lead time before the first departing flight", () => {
+    const [shuttle] = groupShuttles([rider("a", "2026-06-02T10:30"), rider("b", "2026-06-02T11:00")], "departure", options);
+    expect(shuttle.pickup).toBe("2026-06-02T07:30");
+  });
+
+  it("crosses midnight when working back from an early flight", () => {
+    const [shuttle] = groupShuttles([rider("a", "2026-06-02T01:00")], "departure", options);
+    expect(shuttle.pickup).toBe("2026-06-01T22:00");
+  });
+});
+
+describe("planTransfers", () => {
+  it("plans both directions from stored flights, using guest names", () => {
+    const plans: Record<string, TravelPlan> = {
+      k1: {
+        passengers: 2,
+        arrival: { airport: "IST", flight: "TK 2504", time: "2026-05-31T14:00" },
+        departure: { airport: "BJV", flight: "TK 2505", time: "2026-06-02T12:00" },
+      },
+      k2: { passengers: 1, arrival: { airport: "BJV", flight: "PC 1", time: "2026-05-31T14:30" }, departure: null },
+    };
+    const plan = planTransfers(plans, { k1: "Sara & Dariush" }, options);
+
+    expect(plan.options).toBe(options);
+    expect(plan.shuttles.map((s) => [s.id, s.pickup, s.seats])).toEqual([
+      ["arrival-1", "2026-05-31T14:30", 3],
+      ["departure-1", "2026-06-02T09:00", 2],
+    ]);
+    expect(plan.shuttles[0].riders.map((r) => r.name)).toEqual(["Sara & Dariush", "k2"]);
+  });
+});
@@ -0,0 +1,69 @@
+import { utcToVenue, venueToUtc } from "../calendar/ics";
+import { DIRECTIONS, type Direction, type Rider, type Shuttle, type TransferOptions, type TransferPlan, type TravelPlan } from "./types";
+
+export const DEFAULT_TRANSFER_OPTIONS: TransferOptions = { windowMinutes: 60, capacity: 8, leadMinutes: 180 };
+
+const minutes = (local: string) => venueToUtc(local).getTime() / 60_000;
+
+export function ridersFor(plans: Record<string, TravelPlan>, names: Record<string, string>, direction: Direction): Rider[] {
+  return Object.entries(plans).flatMap(([key, plan]) => {
+    const leg = plan[direction];
+    if (!leg) return [];
+    return [{ key, name: names[key] ?? key, passengers: plan.passengers, airport: leg.airport, flight: leg.flight, time: leg.time }];
+  });
+}
+
+/**
+ * Batches riders in flight-time order: each joins the first shuttle whose earliest flight is within
+ * the window and that still has seats, otherwise opens a new one. Parties are never split, so a party
+ * larger than a vehicle gets one to itself (with `seats > capacity`, for the organizer to upsize).
+ */
+export function groupShuttles(riders: Rider[], direction: Direction, options: TransferOptions): Shuttle[] {
+  const sorted = [...riders].sort((a, b) => a.time.localeCompare(b.time) || a.key.localeCompare(b.key));
+  const groups: { first: number; seats: number; riders: Rider[] }[] = [];
+
+  for (const rider of sorted) {
+    const at = minutes(rider.time);
+    const group = groups.find((g) => at - g.first <= options.windowMinutes && g.seats + rider.passengers <= options.capacity);
+    if (group) {
+      group.seats += rider.passengers;
+      group.riders.push(rider);
+    } else {
+      groups.push({ first: at, seats: rider.passengers, riders: [rider] });
+    }
+  }
+
+  return groups.map((g, i) => ({
+    id: `${direction}-${i + 1}`,
+    direction,
+    number: i + 1,
+    // Arrivals wait for the last flight in the batch; departures leave in time for the first.
+    pickup:
+      direction === "arrival"
+        ? g.riders[g.riders.length - 1].time
+        : utcToVenue(new Date((g.first - options.leadMinutes) * 60_000)),
+    seats: g.seats,
+    riders: g.riders,
+  }));
+}
+
+export function planTransfers(
+  plans: Record<string, TravelPlan>,
+  names: Record<string, string>,
+  options: TransferOptions
+): TransferPlan {
+  return {
+    options,
+    shuttles: DIRECTIONS.flatMap((d) => groupShuttles(ridersFor(plans, names, d), d, options)),
+  };
+}
+
+export function shuttleFor(plan: TransferPlan, key: string, direction: Direction): Shuttle | null {
+  return plan.shuttles.find((s) => s.direction === direction && s.riders.some((r) => r.key === key)) ?? null;
+}
+
+/** Whether a published plan still matches what the planner would produce now. */
+export function samePlan(a: TransferPlan, b: TransferPlan) {
+  const shape = (p: TransferPlan) => JSON.stringify({ options: p.options, shuttles: p.shuttles });
+  return shape(a) === shape(b);
+}
@@ -0,0 +1,68 @@
+/** BJV is a direct flight; IST means connecting through Istanbul onto a flight that lands at BJV. */
+export type Airport = "BJV" | "IST";
+
+export const AIRPORTS: Airport[] = ["BJV", "IST"];
+
+export type Direction = "arrival" | "departure";
+
+export const DIRECTIONS: Direction[] = ["arrival", "departure"];
+
+export type FlightLeg = {
+  airport: Airport;
+  flight: string;
+  /** Landing (arrival) or take-off (departure) at BJV, venue wall clock: "YYYY-MM-DDTHH:mm". */
+  time: string;
+};
+
+export type TravelPlan = {
+  passengers: number;
+  arrival: FlightLeg | null;
+  departure: FlightLeg | null;
+  updatedAt?: string;
+};
+
+export type TravelError = "passengers" | "flight" | "time" | "order";
+
+export type TransferOptions = {
+  /** Flights this many minutes after the first one in a shuttle may still share it. */
+  windowMinutes: number;
+  /** Seats per vehicle. */
+  capacity: number;
+  /** How long before the earliest departing flight a resort pickup leaves. */
+  leadMinutes: number;
+};
+
+export type Rider = {
+  key: string;
+  name: string;
+  passengers: number;
+  airport: Airport;
+  flight: string;
+  time: string;
+};
+
+export type Shuttle = {
+  id: string;
+  direction: Direction;
+  /** 1-based within its direction, for "Shuttle 2". */
+  number: number;
+  /** Venue wall clock: at BJV arrivals for arrivals, at the resort lobby for departures. */
+  pickup: string;
+  seats: number;
+  riders: Rider[];
+};
+
+export type TransferPlan = {
+  options: TransferOptions;
+  shuttles: Shuttle[];
+  publishedAt?: string;
+};
+
+export type TravelAdapter = {
+  load: (key: string) => Promise<TravelPlan | null>;
+  submit: (key: string, plan: TravelPlan) => Promise<TravelPlan>;
+  /** Every stored plan by key; used by the organizer transfer planner. */
+  list: () => Promise<Record<string, TravelPlan>>;
+  loadTransfers: () => Promise<TransferPlan | null>;
+  publishTransfers: (plan: TransferPlan) => Promise<TransferPlan>;
+};
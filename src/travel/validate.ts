@@ -0,0 +1,28 @@
+import type { FlightLeg, TravelError, TravelPlan } from "./types";
+
+const FLIGHT_NUMBER = /^[A-Z0-9]{2}[A-Z]?\s?\d{1,4}[A-Z]?$/;
+const VENUE_LOCAL = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+export function normalizeFlight(flight: string) {
+  return flight.trim().toUpperCase().replace(/\s+/g, " ");
+}
+
+function legErrors(leg: FlightLeg | null): TravelError[] {
+  if (!leg) return [];
+  const errors: TravelError[] = [];
+  if (!FLIGHT_NUMBER.test(normalizeFlight(leg.flight))) errors.push("flight");
+  if (!VENUE_LOCAL.test(leg.time)) errors.push("time");
+  return errors;
+}
+
+export function validateTravel(p: TravelPlan, maxParty: number): TravelError[] {
+  const errors = new Set<TravelError>([...legErrors(p.arrival), ...legErrors(p.departure)]);
+  if (!Number.isInteger(p.passengers) || p.passengers < 1 || p.passengers > maxParty) errors.add("passengers");
+  if (p.arrival && p.departure && !errors.has("time") && p.departure.time <= p.arrival.time) errors.add("order");
+  return [...errors];
+}
+
+export function normalizeTravel(p: TravelPlan): TravelPlan {
+  const leg = (l: FlightLeg | null) => l && { airport: l.airport, flight: normalizeFlight(l.flight), time: l.time };
+  return { passengers: p.passengers, arrival: leg(p.arrival), departure: leg(p.departure) };
+}
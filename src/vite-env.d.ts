@@ -0,0 +1,24 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE?: string;
+  readonly VITE_IMAGE_MODE?: "local" | "remote";
+  readonly VITE_ADMIN_PASSCODE_SHA256?: string;
+  readonly VITE_SITE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+declare module "virtual:local-images" {
+  export const LOCAL_IMAGES: Record<
+    string,
+    {
+      width: number;
+      height: number;
+      placeholder: string;
+      variants: Record<"avif" | "webp" | "jpeg", Array<[url: string, width: number]>>;
+    }
+  >;
+}
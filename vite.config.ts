@@ -1,7 +1,25 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import tailwindcss from "@tailwindcss/vite";
+import { mockApi } from "./mock/mockApi";
+import { imagePipeline } from "./plugins/imagePipeline";
+import { serviceWorker } from "./plugins/serviceWorker";
 
-export default defineConfig({
-  plugins: [react(), tailwindcss()],
-});
\ No newline at end of file
+export default defineConfig(({ isSsrBuild }) => ({
+  plugins: [
+    react(),
+    tailwindcss(),
+    imagePipeline(),
+    mockApi(),
+    serviceWorker({
+      // The other languages' pages are written by scripts/prerender.mjs after the bundle.
+      pages: ["fa/", "de/"],
+      publicFiles: ["manifest.webmanifest", "icons/icon.svg", "icons/icon-192.png", "icons/icon-512.png", "icons/icon-maskable-512.png"],
+    }),
+  ],
+  // The prerender bundle only needs code; public/ is already copied into dist by the client build.
+  build: { copyPublicDir: !isSsrBuild },
+  // Component tests opt into jsdom per file with `// @vitest-environment jsdom`.
+  test: { environment: "node" },
+}));